@@ -0,0 +1,165 @@
+// Локальный OIDC провайдер для проверки входа без внешнего сервиса.
+// Запуск: pnpm mock:oidc, затем в .env.local:
+//   OIDC_ISSUER=http://localhost:9400
+//   OIDC_CLIENT_ID=komair
+//   OIDC_CLIENT_SECRET=komair-secret
+// Страница входа предлагает ввести любой email — пароль не проверяется.
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'komair';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'komair-secret';
+
+// Ключ подписи id_token создаётся при каждом запуске
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+// Выданные коды авторизации: code -> данные запроса входа
+const codes = new Map();
+
+function base64url(value) {
+  return Buffer.from(value).toString('base64url');
+}
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+  });
+}
+
+// Форма входа: скрытые поля переносят параметры запроса авторизации
+function renderLoginPage(params) {
+  const hidden = Array.from(params.entries())
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+  return `<!doctype html>
+<html lang="ru"><head><meta charset="utf-8"><title>Mock OIDC</title></head>
+<body style="font-family: sans-serif; max-width: 320px; margin: 80px auto">
+  <h2>🔐 Mock OIDC</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><input name="email" type="email" value="test@example.com" required style="width: 100%"></p>
+    <p><input name="name" placeholder="Имя" value="Тестовый пользователь" style="width: 100%"></p>
+    <button type="submit">Войти</button>
+  </form>
+</body></html>`;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, {
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }]
+    });
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'GET') {
+    if (url.searchParams.get('client_id') !== CLIENT_ID) {
+      res.writeHead(400);
+      return res.end('Неизвестный client_id');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end(renderLoginPage(url.searchParams));
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'POST') {
+    const params = await readBody(req);
+    const email = params.get('email');
+    const code = crypto.randomBytes(16).toString('hex');
+
+    codes.set(code, {
+      email,
+      name: params.get('name') || undefined,
+      nonce: params.get('nonce'),
+      redirectUri: params.get('redirect_uri'),
+      codeChallenge: params.get('code_challenge'),
+      expiresAt: Date.now() + 60000
+    });
+    console.log(`✅ Вход: ${email}`);
+
+    const redirect = new URL(params.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.get('state') || '');
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const params = await readBody(req);
+    const grant = codes.get(params.get('code'));
+    codes.delete(params.get('code'));
+
+    if (params.get('client_id') !== CLIENT_ID || params.get('client_secret') !== CLIENT_SECRET) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+    if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== params.get('redirect_uri')) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    // PKCE: хэш code_verifier должен совпасть с code_challenge
+    const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return sendJson(res, 200, {
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: signIdToken({
+        iss: ISSUER,
+        aud: CLIENT_ID,
+        sub: crypto.createHash('sha256').update(grant.email).digest('hex').slice(0, 24),
+        email: grant.email,
+        email_verified: true,
+        name: grant.name,
+        nonce: grant.nonce,
+        iat: now,
+        exp: now + 3600
+      })
+    });
+  }
+
+  res.writeHead(404);
+  res.end('Not found');
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC провайдер: ${ISSUER}`);
+  console.log(`   client_id=${CLIENT_ID} client_secret=${CLIENT_SECRET}`);
+});
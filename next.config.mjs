@@ -18,28 +18,7 @@ const nextConfig = {
       },
     ],
   },
-  // Добавляем заголовки для CORS
-  async headers() {
-    return [
-      {
-        source: '/api/:path*',
-        headers: [
-          {
-            key: 'Access-Control-Allow-Origin',
-            value: '*',
-          },
-          {
-            key: 'Access-Control-Allow-Methods',
-            value: 'POST, OPTIONS',
-          },
-          {
-            key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type',
-          },
-        ],
-      },
-    ];
-  },
+  // CORS для API настраивается через CORS_ALLOWED_ORIGINS (src/lib/cors.ts)
 };
 
 export default nextConfig;
\ No newline at end of file
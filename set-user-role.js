@@ -0,0 +1,40 @@
+// Назначение роли администратора учётной записи в базе SQLite.
+// Запуск: pnpm auth:set-role admin@example.com admin [local|oidc]   (user — снять роль)
+// Без способа входа роль получат все учётные записи с этим email — и локальная,
+// email которой при регистрации не проверялся.
+// База — CHAT_DB_PATH, по умолчанию ./data/komair.db; пользователь должен хотя бы раз войти.
+// Роль действует со следующего запроса, перезапуск не нужен.
+const path = require('path');
+const Database = require('better-sqlite3');
+
+const ROLES = ['admin', 'user'];
+const PROVIDERS = ['local', 'oidc'];
+
+const [email, role, provider] = process.argv.slice(2);
+if (!email || !ROLES.includes(role) || (provider && !PROVIDERS.includes(provider))) {
+  console.error('Использование: pnpm auth:set-role <email> <admin|user> [local|oidc]');
+  process.exit(1);
+}
+
+const filename = process.env.CHAT_DB_PATH || path.join(process.cwd(), 'data', 'komair.db');
+const db = new Database(filename, { fileMustExist: true });
+
+// База могла быть создана до появления ролей
+const columns = db.prepare('PRAGMA table_info(users)').all();
+if (columns.length === 0) {
+  console.error(`❌ В ${filename} нет пользователей`);
+  process.exit(1);
+}
+if (!columns.some((column) => column.name === 'role')) {
+  db.exec('ALTER TABLE users ADD COLUMN role TEXT');
+}
+
+const result = db
+  .prepare('UPDATE users SET role = ? WHERE lower(email) = ? AND (? IS NULL OR provider = ?)')
+  .run(role === 'admin' ? 'admin' : null, email.trim().toLowerCase(), provider || null, provider || null);
+
+if (result.changes === 0) {
+  console.error(`❌ Пользователь ${email} не найден в ${filename}`);
+  process.exit(1);
+}
+console.log(`✅ ${email}: роль ${role} (учётных записей: ${result.changes})`);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateLocalUser, getAuthConfig, setSessionCookie } from '@/lib/auth'
+import { safeLogger } from '@/lib/logger'
+import { consumeAuthRateLimit, tooManyRequestsResponse } from '@/lib/rate-limit'
+
+// Вход по email и паролю
+export async function POST(request: NextRequest) {
+  if (!getAuthConfig().local) {
+    return NextResponse.json({ error: 'Вход по паролю отключён' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (typeof body?.email !== 'string' || typeof body?.password !== 'string') {
+    return NextResponse.json({ error: 'Укажите email и пароль' }, { status: 400 })
+  }
+
+  const limit = await consumeAuthRateLimit(request, body.email)
+  if (!limit.allowed) {
+    return tooManyRequestsResponse(limit)
+  }
+
+  try {
+    const user = await authenticateLocalUser(body.email, body.password)
+    if (!user) {
+      // Не уточняем, что именно неверно
+      return NextResponse.json({ error: 'Неверный email или пароль' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ user })
+    setSessionCookie(response, user)
+    return response
+  } catch (error) {
+    safeLogger.error('👤 Ошибка входа:', error)
+    return NextResponse.json({ error: 'Не удалось выполнить вход' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findOrCreateOidcUser, getAuthConfig, setSessionCookie } from '@/lib/auth'
+import { completeAuthorization, OIDC_STATE_COOKIE } from '@/lib/auth/oidc'
+import { getCookieOptions } from '@/lib/auth/session'
+import { safeLogger } from '@/lib/logger'
+
+// Возврат от OIDC провайдера: проверка ответа и открытие сессии
+export async function GET(request: NextRequest) {
+  if (!getAuthConfig().oidc) {
+    return NextResponse.redirect(new URL('/login?error=oidc_disabled', request.url))
+  }
+
+  let response: NextResponse
+  try {
+    const identity = await completeAuthorization(
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value,
+      request.nextUrl.origin
+    )
+    const user = await findOrCreateOidcUser(identity)
+
+    response = NextResponse.redirect(new URL('/', request.url))
+    setSessionCookie(response, user)
+  } catch (error) {
+    safeLogger.error('🔐 Ошибка входа OIDC:', error instanceof Error ? error.message : error)
+    response = NextResponse.redirect(new URL('/login?error=oidc_failed', request.url))
+  }
+
+  // Состояние одноразовое
+  response.cookies.set(OIDC_STATE_COOKIE, '', getCookieOptions(0))
+  return response
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthConfig } from '@/lib/auth'
+import { createAuthorizationRequest, OIDC_STATE_COOKIE, OIDC_STATE_TTL } from '@/lib/auth/oidc'
+import { getCookieOptions } from '@/lib/auth/session'
+import { safeLogger } from '@/lib/logger'
+
+// Перенаправляет на страницу входа OIDC провайдера
+export async function GET(request: NextRequest) {
+  if (!getAuthConfig().oidc) {
+    return NextResponse.redirect(new URL('/login?error=oidc_disabled', request.url))
+  }
+
+  try {
+    const { url, stateCookie } = await createAuthorizationRequest(request.nextUrl.origin)
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, getCookieOptions(OIDC_STATE_TTL))
+    return response
+  } catch (error) {
+    safeLogger.error('🔐 Ошибка начала входа OIDC:', error)
+    return NextResponse.redirect(new URL('/login?error=oidc_unavailable', request.url))
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthConfig, MIN_PASSWORD_LENGTH, registerLocalUser, setSessionCookie } from '@/lib/auth'
+import { safeLogger } from '@/lib/logger'
+import { consumeAuthRateLimit, tooManyRequestsResponse } from '@/lib/rate-limit'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Регистрация по email и паролю; сразу открывает сессию
+export async function POST(request: NextRequest) {
+  if (!getAuthConfig().registration) {
+    return NextResponse.json({ error: 'Регистрация отключена' }, { status: 403 })
+  }
+
+  const limit = await consumeAuthRateLimit(request)
+  if (!limit.allowed) {
+    return tooManyRequestsResponse(limit)
+  }
+
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email : ''
+  const password = typeof body?.password === 'string' ? body.password : ''
+
+  if (!EMAIL_PATTERN.test(email.trim())) {
+    return NextResponse.json({ error: 'Некорректный email' }, { status: 400 })
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const user = await registerLocalUser(email, password, typeof body.name === 'string' ? body.name : undefined)
+    if (!user) {
+      return NextResponse.json({ error: 'Пользователь с таким email уже есть' }, { status: 409 })
+    }
+
+    safeLogger.info(`👤 Зарегистрирован пользователь ${user.id}`)
+    const response = NextResponse.json({ user }, { status: 201 })
+    setSessionCookie(response, user)
+    return response
+  } catch (error) {
+    safeLogger.error('👤 Ошибка регистрации:', error)
+    return NextResponse.json({ error: 'Не удалось зарегистрироваться' }, { status: 500 })
+  }
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthConfig, getRequestUser } from '@/lib/auth'
+
+// Текущий пользователь (null — не выполнен вход) и доступные способы входа
+export async function GET(request: NextRequest) {
+  return NextResponse.json(
+    { user: await getRequestUser(request), providers: getAuthConfig() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  )
+}
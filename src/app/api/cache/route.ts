@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { safeLogger } from '@/lib/logger'
+import { responseCache, type CacheFilter, type CacheSettings } from '@/lib/response-cache'
+
+const DEFAULT_LIST_LIMIT = 100
+const MAX_LIST_LIMIT = 1000
+
+// Фильтр из ?key=, ?prefix= и ?provider=
+function getFilter(request: NextRequest): CacheFilter {
+  const params = request.nextUrl.searchParams
+  return {
+    key: params.get('key') || undefined,
+    prefix: params.get('prefix') || undefined,
+    provider: params.get('provider') || undefined
+  }
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+// Записи кэша с метаданными, недавно использованные первыми; ?limit= — сколько вернуть
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  const limitParam = request.nextUrl.searchParams.get('limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIST_LIMIT
+  if (!isPositiveInteger(limit) || limit > MAX_LIST_LIMIT) {
+    return NextResponse.json({ error: `Параметр limit — целое число от 1 до ${MAX_LIST_LIMIT}` }, { status: 400 })
+  }
+
+  try {
+    const entries = await responseCache.listEntries(getFilter(request))
+    return NextResponse.json(
+      { total: entries.length, entries: entries.slice(0, limit) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    safeLogger.error('❌ Ошибка чтения кэша:', error)
+    return NextResponse.json({ error: 'Не удалось прочитать кэш' }, { status: 503 })
+  }
+}
+
+// Удаление по ?key=, ?prefix= (начало вопроса) или ?provider=; ?all=1 — очистить весь кэш
+export async function DELETE(request: NextRequest) {
+  const denied = await requireAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  const filter = getFilter(request)
+  const all = request.nextUrl.searchParams.get('all') === '1'
+  if (!all && !filter.key && !filter.prefix && !filter.provider) {
+    return NextResponse.json(
+      { error: 'Укажите key, prefix или provider; для очистки всего кэша — all=1' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    if (all) {
+      await responseCache.clear()
+      return NextResponse.json({ cleared: true })
+    }
+    return NextResponse.json({ deleted: await responseCache.invalidate(filter) })
+  } catch (error) {
+    safeLogger.error('❌ Ошибка очистки кэша:', error)
+    return NextResponse.json({ error: 'Не удалось очистить кэш' }, { status: 503 })
+  }
+}
+
+// Лимит записей и срок жизни новых записей: { "maxEntries": 500, "ttlSeconds": 600 }.
+// Настройки не сохраняются: действуют в этом процессе до перезапуска (scope: 'process')
+export async function PATCH(request: NextRequest) {
+  const denied = await requireAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  const body = await request.json().catch(() => null)
+  const settings: CacheSettings = { maxEntries: body?.maxEntries, ttlSeconds: body?.ttlSeconds }
+  const valid = (settings.maxEntries !== undefined || settings.ttlSeconds !== undefined) &&
+    (settings.maxEntries === undefined || isPositiveInteger(settings.maxEntries)) &&
+    (settings.ttlSeconds === undefined || isPositiveInteger(settings.ttlSeconds))
+  if (!valid) {
+    return NextResponse.json(
+      { error: 'Укажите maxEntries и/или ttlSeconds — целые положительные числа' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await responseCache.configure(settings)
+    return NextResponse.json({ ...await responseCache.getStats(), scope: 'process' })
+  } catch (error) {
+    safeLogger.error('❌ Ошибка настройки кэша:', error)
+    return NextResponse.json({ error: 'Не удалось применить настройки кэша' }, { status: 503 })
+  }
+}
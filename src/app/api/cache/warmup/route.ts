@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { safeLogger } from '@/lib/logger'
+import { responseCache } from '@/lib/response-cache'
+
+// Перечитать файл прогрева (один файл CACHE_WARMUP_FILE) и заменить прогретые ответы
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  try {
+    return NextResponse.json(await responseCache.warmup())
+  } catch (error) {
+    safeLogger.error('❌ Ошибка прогрева кэша:', error)
+    return NextResponse.json({ error: 'Не удалось прогреть кэш' }, { status: 503 })
+  }
+}
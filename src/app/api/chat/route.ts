@@ -1,57 +1,126 @@
 
 import { NextRequest, NextResponse } from 'next/server'
-import { safeLogger } from '@/lib/logger'
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth'
+import { MAX_SUMMARY_LENGTH } from '@/lib/chat-merge'
+import { CHAT_MODES, isChatMode, isPersona, isResponseStyle } from '@/lib/chat-modes'
+import { CircuitOpenError } from '@/lib/circuit-breaker'
+import { ContextOverflowError } from '@/lib/context-builder'
+import { applyCorsHeaders, getCorsHeaders } from '@/lib/cors'
+import { logContent, safeLogger } from '@/lib/logger'
+import { modelCatalog } from '@/lib/model-catalog'
+import {
+  recordProviderFallback,
+  recordProviderRequest,
+  recordProviderRetry,
+  recordTokens
+} from '@/lib/metrics'
+import { validatePromptOverride } from '@/lib/prompt-library'
+import { DEFAULT_LANGUAGE, detectLanguage, isLanguage } from '@/lib/i18n'
 import { providerManager } from '../../../lib/provider-manager'
-import { responseCache } from '@/lib/response-cache'
-import { createContextualPrompt, buildFinalPrompt } from '@/lib/prompts'
-
-export interface ChatRequest {
-  message: string
-  mode: 'fast' | 'deep'
-  chatHistory?: Array<{
-    role: 'user' | 'assistant'
-    content: string
-  }>
+import {
+  consumeRateLimit,
+  getClientKey,
+  recordTokenUsage,
+  reserveDailyQuota,
+  tooManyRequestsResponse
+} from '@/lib/rate-limit'
+import { isPlanningEnabled, requestPlan } from '@/lib/reasoning'
+import { REQUEST_ID_HEADER, resolveRequestId, withRequestContext } from '@/lib/request-context'
+import { responseCache, type CacheQuery } from '@/lib/response-cache'
+import type { ChatHistory, ChatMode, ChatRequest, ChatResponse, ProviderChatRequest, TokenHandler } from '@/lib/providers'
+import { getModelTier, isRequestRejected } from '@/lib/providers/utils'
+import { encodeStreamEvent, STREAM_CONTENT_TYPE, type ChatStreamEvent } from '@/lib/streaming'
+import { condenseHistory, isHistoryPayload, type SummaryHistory } from '@/lib/summarizer'
+import { countTokens } from '@/lib/tokenizer'
+import type { UsageAccounting } from '@/lib/usage'
+import { isAbortError, sleep } from '@/lib/utils'
+
+// Все логи запроса, включая вызовы провайдеров, помечены его ID; ID возвращается в X-Request-Id
+export async function POST(request: NextRequest) {
+  const requestId = resolveRequestId(request.headers)
+  const response = await withRequestContext(requestId, () => handleChat(request))
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
 }
 
-export interface ChatResponse {
-  content: string
-  thinking?: string
-  mode: 'fast' | 'deep'
-  processingTime: number
-  model: string
-}
+async function handleChat(request: NextRequest): Promise<Response> {
+  // Ответы ИИ расходуют квоты провайдеров — только для вошедших пользователей
+  const user = await getRequestUser(request)
+  const clientKey = getClientKey(request, user)
+  if (!user) {
+    // Анонимные запросы тоже ограничиваем — по IP
+    const limit = await consumeRateLimit(clientKey)
+    return applyCorsHeaders(limit.allowed ? unauthorizedResponse() : tooManyRequestsResponse(limit), request)
+  }
 
-export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: ChatRequest = await request.json()
     
-    const { message, mode, chatHistory = [] } = body
+    const { message, mode, chatHistory = [], summary, persona, style, customPrompt, language, userLanguage, stream = false, provider, model } = body
 
     // Валидация входных данных
     if (!message || !message.trim()) {
-      return NextResponse.json(
+      return applyCorsHeaders(NextResponse.json(
         { error: 'Сообщение не может быть пустым' },
         { status: 400 }
-      )
+      ), request)
+    }
+
+    if (!isChatMode(mode)) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: `Неверный режим. Используйте ${CHAT_MODES.map(value => `"${value}"`).join(', ')}` },
+        { status: 400 }
+      ), request)
+    }
+
+    if ((persona !== undefined && !isPersona(persona)) || (style !== undefined && !isResponseStyle(style))) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: 'Неверная роль или стиль ответа' },
+        { status: 400 }
+      ), request)
+    }
+
+    if ((language !== undefined && !isLanguage(language)) || (userLanguage !== undefined && !isLanguage(userLanguage))) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: 'Неверный язык. Используйте "ru" или "en"' },
+        { status: 400 }
+      ), request)
+    }
+
+    if (!isHistoryPayload(chatHistory)) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: 'Неверная история чата: нужны сообщения user или assistant с текстом' },
+        { status: 400 }
+      ), request)
     }
 
-    if (!['fast', 'deep'].includes(mode)) {
-      return NextResponse.json(
-        { error: 'Неверный режим. Используйте "fast" или "deep"' },
+    if (summary !== undefined && (typeof summary !== 'string' || summary.length > MAX_SUMMARY_LENGTH)) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: `Краткое содержание должно быть строкой не длиннее ${MAX_SUMMARY_LENGTH} символов` },
         { status: 400 }
-      )
+      ), request)
+    }
+
+    const promptError = customPrompt !== undefined ? validatePromptOverride(customPrompt) : null
+    if (promptError) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: promptError },
+        { status: 400 }
+      ), request)
+    }
+
+    // Частота запросов (deep расходует ведро быстрее) и суточная квота пользователя
+    const rateLimit = await consumeRateLimit(clientKey, mode)
+    const limit = rateLimit.allowed ? await reserveDailyQuota(user.id) : rateLimit
+    if (!limit.allowed) {
+      safeLogger.warn(`🚦 Запрос отклонён (${limit.reason}): ${clientKey}`)
+      return applyCorsHeaders(tooManyRequestsResponse(limit), request)
     }
     
     // Логируем информацию о запросе для диагностики
-    safeLogger.info(`📥 Новый запрос: mode=${mode}, message=${message.substring(0, 50)}...`);
-    safeLogger.info(`🔑 Переменные окружения:`, {
-      groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-      hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-      togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-      cohereKey: process.env.COHERE_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-    });
+    safeLogger.info(`📥 Новый запрос: mode=${mode}, stream=${stream}, message=${logContent(message)}`);
+    safeLogger.info(`🔑 Переменные окружения:`, providerManager.getApiKeyStatus());
     
     // Проверяем, есть ли доступные провайдеры
     const providersStatus = providerManager.getProvidersStatus();
@@ -60,37 +129,63 @@ export async function POST(request: NextRequest) {
     
     if (enabledProviders.length === 0) {
       safeLogger.error('🚨 КРИТИЧЕСКАЯ ОШИБКА: Нет доступных провайдеров!');
-      return NextResponse.json({
+      return applyCorsHeaders(NextResponse.json({
         error: 'Все AI провайдеры недоступны',
         message: 'Сервер не настроен. Обратитесь к администратору.',
         // Всегда показываем диагностику в этом случае
         diagnostics: {
-          envVars: {
-            groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-            hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-            togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-            cohereKey: process.env.COHERE_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-          },
+          envVars: providerManager.getApiKeyStatus(),
           message: 'Нет доступных провайдеров. Проверьте настройки сервера.'
         }
-      }, { status: 503 });
+      }, { status: 503 }), request);
     }
 
-    // Проверяем кэш перед обращением к ИИ
-    const cachedResponse = responseCache.get(message, mode)
-    if (cachedResponse) {
-      cachedResponse.processingTime = Date.now() - startTime
-      return NextResponse.json(cachedResponse)
+    // Предпочтение чата: неизвестный или отключённый провайдер и модель не из каталога игнорируем
+    const preferredAdapter = typeof provider === 'string' ? providerManager.getProvider(provider) : undefined
+    const preferredModel = preferredAdapter?.enabled && typeof model === 'string' && model &&
+      await modelCatalog.hasModel(preferredAdapter.name, model)
+      ? model
+      : undefined
+    const preference = preferredAdapter?.enabled
+      ? { provider: preferredAdapter.name, model: preferredModel }
+      : undefined
+    if (provider && !preference) {
+      safeLogger.warn(`⚠️ Выбранный провайдер ${provider} недоступен, используем автоматический выбор`)
+    } else if (preference && model && !preferredModel) {
+      safeLogger.warn(`⚠️ Модели ${model} нет в каталоге ${preference.provider}, используем модель режима`)
+    }
+
+    // Язык ответа: выбранный для чата, иначе язык вопроса, иначе язык пользователя
+    const detectedLanguage = detectLanguage(message)
+    const replyLanguage = language || detectedLanguage || userLanguage || DEFAULT_LANGUAGE
+
+    // Выбранный провайдер (пробуется первым; если его цепь не пропускает запрос — резервные),
+    // иначе лучший доступный
+    const currentProvider = preference?.provider || providerManager.getBestAvailableProvider()
+
+    // Проверяем кэш перед обращением к ИИ (для выбранной модели кэш не используется)
+    // Ответы с ролью, официальным тоном или языком не по вопросу в общий кэш не попадают
+    const cacheable = !preference && !persona && style !== 'formal' && !customPrompt && replyLanguage === detectedLanguage
+    const cacheQuery: CacheQuery | null = cacheable
+      ? { message, mode, history: chatHistory, summary }
+      : null
+    const cached = cacheQuery && currentProvider
+      ? await responseCache.get(cacheQuery, getCacheNamespace(currentProvider, mode))
+      : null
+    if (cached) {
+      // Копия: запись кэша в памяти не должна меняться при каждом попадании
+      const cachedResponse: ChatResponse = { ...cached, processingTime: Date.now() - startTime }
+      if (stream) {
+        return createStreamingResponse(async (onToken) => {
+          onToken(cachedResponse.content)
+          return cachedResponse
+        }, request.signal, getCorsHeaders(request))
+      }
+      return applyCorsHeaders(NextResponse.json(cachedResponse), request)
     }
 
-    // Определяем лучший доступный провайдер
-    let currentProvider = providerManager.getBestAvailableProvider()
     safeLogger.info(`🎯 Выбранный провайдер: ${currentProvider}`);
     
-    let response: ChatResponse
-    let attemptCount = 0
-    let lastError: Error | null = null
-    
     // Проверяем, есть ли доступные провайдеры
     if (!currentProvider) {
       safeLogger.error('🚨 НЕТ ДОСТУПНЫХ AI ПРОВАЙДЕРОВ!')
@@ -99,7 +194,7 @@ export async function POST(request: NextRequest) {
       const providersStatus = providerManager.getProvidersStatus();
       safeLogger.error('📊 Статус провайдеров:', providersStatus);
       
-      return NextResponse.json(
+      return applyCorsHeaders(NextResponse.json(
         { 
           error: 'Все AI провайдеры недоступны',
           message: 'Проверьте настройки API ключей и подключение к интернету',
@@ -110,71 +205,76 @@ export async function POST(request: NextRequest) {
               error: p.lastError,
               consecutiveFailures: p.consecutiveFailures
             })),
-            envVars: {
-              groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-              hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-              togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-            }
+            envVars: providerManager.getApiKeyStatus()
           } : undefined
         }, 
         { status: 503 }
-      )
+      ), request)
     }
     
     safeLogger.info(`🚀 Начинаем с провайдера: ${currentProvider}`)
 
-    // Пытаемся получить ответ с fallback между провайдерами
-    while (currentProvider) {
-      safeLogger.info(`🔄 Цикл обработки: текущий провайдер=${currentProvider}, попытка=${attemptCount}`);
-      try {
-        attemptCount++
-        safeLogger.info(`🚀 Попытка ${attemptCount} с провайдером: ${currentProvider}`)
-        
-        response = await executeProviderRequest(currentProvider, message, mode, chatHistory)
-        
-        // Отмечаем провайдер как работоспособный
-        providerManager.markProviderAsHealthy(currentProvider)
-        
-        // Сохраняем в кэш успешный ответ
-        responseCache.set(message, mode, response, currentProvider)
-        
-        response.processingTime = Date.now() - startTime
-        const nextResponse = NextResponse.json(response)
-        // Добавляем CORS заголовки
-        nextResponse.headers.set('Access-Control-Allow-Origin', '*')
-        nextResponse.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
-        nextResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type')
-        return nextResponse
-        
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error))
-        safeLogger.error(`❌ Ошибка с провайдером ${currentProvider}:`, lastError.message)
-        
-        // Отмечаем провайдер как недоступный
-        providerManager.markProviderAsUnhealthy(currentProvider, lastError.message)
-        
-        // Проверяем, можно ли повторить с текущим провайдером
-        if (providerManager.canRetryWithProvider(currentProvider, attemptCount)) {
-          safeLogger.info(`🔄 Повторная попытка с ${currentProvider} через 2 секунды...`)
-          // Небольшая задержка перед повторной попыткой
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          continue
-        }
-        
-        // Переключаемся на следующий провайдер
-        const nextProvider = providerManager.getNextProvider(currentProvider)
-        safeLogger.info(`⏭ Следующий провайдер: ${nextProvider}`);
-        if (nextProvider) {
-          safeLogger.info(`🔄 Переключение на резервный провайдер: ${nextProvider}`)
-          currentProvider = nextProvider
-          attemptCount = 0
-          continue
+    // Служебные запросы к модели расходуют лимиты пользователя так же, как ответ
+    const accounting: UsageAccounting = {
+      reserve: async (requestMode) => {
+        const decision = await consumeRateLimit(clientKey, requestMode)
+        return decision.allowed && (await reserveDailyQuota(user.id)).allowed
+      },
+      addTokens: (tokens) => recordTokenUsage(user.id, tokens)
+    }
+
+    // Длинная история: старые сообщения сжимаются в краткое содержание
+    const summarize = (signal: AbortSignal) => condenseHistory(
+      chatHistory,
+      summary?.trim() ? summary : undefined,
+      replyLanguage,
+      accounting,
+      signal
+    )
+    const promptOptions: PromptOptions = {
+      persona,
+      style,
+      language: replyLanguage,
+      customPrompt: customPrompt?.content,
+      temperature: customPrompt?.temperature
+    }
+
+    if (stream) {
+      return createStreamingResponse(async (onToken, signal) => {
+        const condensed = await summarize(signal)
+        const history = toProviderHistory(condensed.history)
+        const { response, lastError } = await generateWithFallback(currentProvider, message, mode, history, { ...promptOptions, summary: condensed.summary }, cacheQuery, preference?.model, onToken, signal, accounting)
+        if (!response) {
+          throw lastError || new Error('Все AI провайдеры недоступны')
         }
-        
-        break // Все провайдеры исчерпаны
-      }
+        response.processingTime = Date.now() - startTime
+        await recordUsage(user.id, message, history, response)
+        // Копия: объект ответа может лежать в кэше
+        return { ...response, summary: condensed.update }
+      }, request.signal, getCorsHeaders(request))
+    }
+
+    // Пытаемся получить ответ с fallback между провайдерами
+    const condensed = await summarize(request.signal)
+    const history = toProviderHistory(condensed.history)
+    const { response, lastError } = await generateWithFallback(currentProvider, message, mode, history, { ...promptOptions, summary: condensed.summary }, cacheQuery, preference?.model, undefined, request.signal, accounting)
+
+    if (response) {
+      response.processingTime = Date.now() - startTime
+      await recordUsage(user.id, message, history, response)
+      const nextResponse = NextResponse.json({ ...response, summary: condensed.update })
+      applyCorsHeaders(nextResponse, request)
+      return nextResponse
     }
     
+    // Сообщение длиннее окна всех доступных моделей — дело не в провайдерах
+    if (lastError instanceof ContextOverflowError) {
+      return applyCorsHeaders(NextResponse.json(
+        { error: 'Сообщение слишком длинное для доступных моделей. Сократите его или разбейте на части.' },
+        { status: 413 }
+      ), request)
+    }
+
     // КРИТИЧЕСКАЯ ОШИБКА: Если мы здесь - значит ВСЕ реальные провайдеры не работают!
     // Это не должно происходить с корректно настроенным Groq API
     safeLogger.error('🚨 КРИТИЧЕСКАЯ ОШИБКА: Все реальные провайдеры недоступны!');
@@ -188,11 +288,7 @@ export async function POST(request: NextRequest) {
         healthy: p.isHealthy, 
         error: p.lastError 
       })),
-      envVars: {
-        groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-        hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-        togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-      },
+      envVars: providerManager.getApiKeyStatus(),
       lastError: lastError?.message
     };
     
@@ -203,13 +299,17 @@ export async function POST(request: NextRequest) {
     }, { status: 503 })
     
     // Добавляем CORS заголовки
-    nextResponse.headers.set('Access-Control-Allow-Origin', '*')
-    nextResponse.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
-    nextResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type')
+    applyCorsHeaders(nextResponse, request)
     
     return nextResponse;
     
   } catch (error) {
+    // Клиент отменил запрос — отвечать некому
+    if (request.signal.aborted || isAbortError(error)) {
+      safeLogger.info('⏹ Запрос отменён клиентом')
+      return applyCorsHeaders(new NextResponse(null, { status: 499 }), request)
+    }
+
     safeLogger.error('Ошибка API чата:', error)
     
     const errorMessage = error instanceof Error ? error.message : 'Неизвестная ошибка'
@@ -236,678 +336,275 @@ export async function POST(request: NextRequest) {
     )
     
     // Добавляем CORS заголовки
-    nextResponse.headers.set('Access-Control-Allow-Origin', '*')
-    nextResponse.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
-    nextResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type')
+    applyCorsHeaders(nextResponse, request)
     
     return nextResponse
   }
 }
 
 export async function OPTIONS(request: NextRequest) {
-  const response = new NextResponse(null, { status: 204 });
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type');
-  return response;
+  return applyCorsHeaders(new NextResponse(null, { status: 204 }), request)
 }
 
+// Роль, тон и краткое содержание — части системного промпта
+type PromptOptions = Pick<ProviderChatRequest, 'persona' | 'style' | 'language' | 'customPrompt' | 'temperature' | 'summary'>
+
 /**
- * Универсальная функция для выполнения запроса к провайдеру
+ * Выполняет запрос с fallback между провайдерами.
+ * Выбранная модель используется только с начальным провайдером.
+ * При потоковой генерации переключение возможно только до первого фрагмента ответа.
+ * Отмена через signal прерывает запрос без повторов и не считается сбоем провайдера.
  */
-async function executeProviderRequest(
-  provider: string,
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  switch (provider) {
-    case 'huggingface':
-      return await handleHuggingFaceRequest(message, mode, chatHistory)
-    case 'ollama':
-      return await handleOllamaRequest(message, mode, chatHistory)
-    case 'together':
-      return await handleTogetherAIRequest(message, mode, chatHistory)
-    case 'groq':
-      return await handleGroqRequest(message, mode, chatHistory)
-    case 'cohere':
-      return await handleCohereRequest(message, mode, chatHistory)
-    case 'openai':
-      return await handleOpenAIRequest(message, mode, chatHistory)
-    case 'mock':
-    default:
-      return await handleMockRequest(message, mode, chatHistory)
-  }
-}
+async function generateWithFallback(
+  initialProvider: string,
+  message: string,
+  mode: ChatMode,
+  chatHistory: ChatHistory,
+  promptOptions: PromptOptions,
+  cacheQuery: CacheQuery | null,
+  preferredModel?: string,
+  onToken?: TokenHandler,
+  signal?: AbortSignal,
+  accounting?: UsageAccounting // Лимиты пользователя для служебных запросов (план ответа)
+): Promise<{ response: ChatResponse | null, lastError: Error | null }> {
+  let currentProvider: string | null = initialProvider
+  const triedProviders = [initialProvider]
+  let attemptCount = 0
+  let lastError: Error | null = null
+  let hasStreamed = false
 
-// Hugging Face Inference API
-async function handleHuggingFaceRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  const HF_API_URL = 'https://api-inference.huggingface.co/models'
-  const HF_TOKEN = process.env.HUGGINGFACE_TOKEN
-  
-  if (!HF_TOKEN) {
-    // Если токен не настроен, используем бесплатные модели без аутентификации
-    safeLogger.warn('HUGGINGFACE_TOKEN не настроен, используется бесплатный доступ')
-  }
+  const handleToken = onToken && ((token: string) => {
+    hasStreamed = true
+    onToken(token)
+  })
 
-  // Бесплатные модели Hugging Face
-  const models = {
-    fast: [
-      'microsoft/DialoGPT-medium',
-      'facebook/blenderbot-400M-distill',
-      'microsoft/DialoGPT-small'
-    ],
-    deep: [
-      'microsoft/DialoGPT-large', 
-      'facebook/blenderbot-1B-distill',
-      'google/flan-t5-base'
-    ]
-  }
-  
-  const selectedModels = models[mode]
-  let lastError: Error | null = null
-  
-  // Пробуем модели по очереди до успешного ответа
-  for (const model of selectedModels) {
+  while (currentProvider) {
+    safeLogger.info(`🔄 Цикл обработки: текущий провайдер=${currentProvider}, попытка=${attemptCount}`);
     try {
-      safeLogger.info(`Пробуем модель: ${model}`)
-      
-      // Формируем запрос в зависимости от типа модели
-      let payload: any
-      
-      if (model.includes('DialoGPT')) {
-        // Для DialoGPT формируем диалоговый контекст
-        const context = chatHistory
-          .slice(-5) // Берем последние 5 сообщений для контекста
-          .map(msg => `${msg.role === 'user' ? 'Human' : 'Bot'}: ${msg.content}`)
-          .join(' ')
-        
-        const prompt = context 
-          ? `${context} Human: ${message} Bot:`
-          : `Human: ${message} Bot:`
-          
-        payload = {
-          inputs: prompt,
-          parameters: {
-            max_new_tokens: mode === 'fast' ? 100 : 200,
-            temperature: 0.7,
-            do_sample: true,
-            top_p: 0.9,
-            return_full_text: false,
-            pad_token_id: 50256
-          },
-          options: {
-            wait_for_model: true,
-            use_cache: false
-          }
-        }
-      } else if (model.includes('blenderbot')) {
-        // Для BlenderBot используем простой текст
-        payload = {
-          inputs: message,
-          parameters: {
-            max_length: mode === 'fast' ? 100 : 200,
-            min_length: 10,
-            do_sample: true,
-            temperature: 0.7
-          },
-          options: {
-            wait_for_model: true,
-            use_cache: false
-          }
-        }
-      } else {
-        // Для T5 и других моделей
-        payload = {
-          inputs: `Ответь на вопрос: ${message}`,
-          parameters: {
-            max_new_tokens: mode === 'fast' ? 100 : 200,
-            temperature: 0.7
-          },
-          options: {
-            wait_for_model: true,
-            use_cache: false
-          }
-        }
-      }
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      }
+      attemptCount++
+      safeLogger.info(`🚀 Попытка ${attemptCount} с провайдером: ${currentProvider}`)
       
-      if (HF_TOKEN) {
-        headers['Authorization'] = `Bearer ${HF_TOKEN}`
+      const model = currentProvider === initialProvider ? preferredModel : undefined
+      const metricModel = model || getDefaultModel(currentProvider, mode) || ''
+      // В half-open провайдер пропускает только пробный запрос — остальные идут к резервным
+      const release = providerManager.acquireRequest(currentProvider)
+      if (!release) {
+        throw new CircuitOpenError(currentProvider)
       }
 
-      const response = await fetch(`${HF_API_URL}/${model}`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload)
-      }).catch(error => {
-        // Обработка сетевых ошибок
-        safeLogger.error(`📡 Сетевая ошибка при подключении к HuggingFace:`, error);
-        throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к интернету.`);
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(`HTTP ${response.status}: ${errorData.error || response.statusText}`)
+      const requestStart = Date.now()
+      let response: ChatResponse
+      try {
+        response = await executeProviderRequest(currentProvider, message, mode, chatHistory, promptOptions, model, handleToken, signal, accounting)
+      } catch (error) {
+        const status = signal?.aborted || isAbortError(error) ? 'cancelled' : 'error'
+        recordProviderRequest(currentProvider, metricModel, mode, status, (Date.now() - requestStart) / 1000)
+        // Отказ из-за выбранной пользователем модели — не сбой провайдера для остальных
+        const rejectedModel = !!model && isRequestRejected(error)
+        if (status === 'error' && !(error instanceof ContextOverflowError) && !rejectedModel) {
+          providerManager.markProviderAsUnhealthy(currentProvider, error instanceof Error ? error.message : String(error))
+        }
+        throw error
+      } finally {
+        release()
       }
-
-      const result = await response.json()
+      recordProviderRequest(currentProvider, metricModel, mode, 'success', (Date.now() - requestStart) / 1000)
       
-      let content: string
+      // Отмечаем провайдер как работоспособный
+      providerManager.markProviderAsHealthy(currentProvider)
       
-      if (Array.isArray(result) && result[0]) {
-        if (result[0].generated_text !== undefined) {
-          content = result[0].generated_text
-          // Очищаем от исходного промпта для DialoGPT
-          if (model.includes('DialoGPT')) {
-            content = content.split('Bot:').pop()?.trim() || content
-          }
-        } else if (result[0].translation_text) {
-          content = result[0].translation_text
-        } else {
-          content = result[0].summary_text || JSON.stringify(result[0])
-        }
-      } else {
-        content = result.generated_text || result.text || 'Не удалось получить ответ от модели.'
+      // Сохраняем в кэш успешный ответ модели по умолчанию
+      if (cacheQuery && !model) {
+        await responseCache.set(cacheQuery, getCacheNamespace(currentProvider, mode), response)
       }
       
-      // Проверяем качество ответа
-      if (!content || content.trim().length < 5) {
-        throw new Error('Слишком короткий ответ от модели')
-      }
+      return { response, lastError: null }
       
-      const chatResponse: ChatResponse = {
-        content: content.trim(),
-        mode,
-        processingTime: 0,
-        model: `HuggingFace: ${model}`
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        throw error
       }
 
-      // Для глубокого режима добавляем "мышление"
-      if (mode === 'deep') {
-        chatResponse.thinking = generateThinkingProcess(message, content)
+      lastError = error instanceof Error ? error : new Error(String(error))
+
+      // Запрос не помещается в окно модели или цепь не пропустила его: провайдер не виноват, повтор не поможет
+      const skipped = lastError instanceof ContextOverflowError || lastError instanceof CircuitOpenError ||
+        isRequestRejected(lastError)
+      if (skipped) {
+        safeLogger.warn(`${lastError instanceof CircuitOpenError ? '⏸' : '📏'} ${currentProvider}: ${lastError.message}`)
+      } else {
+        safeLogger.error(`❌ Ошибка с провайдером ${currentProvider}:`, lastError.message)
       }
 
-      safeLogger.info(`Успешный ответ от модели: ${model}`)
-      return chatResponse
+      // Часть ответа уже отправлена клиенту — повтор перемешал бы тексты
+      if (hasStreamed) {
+        throw lastError
+      }
       
-    } catch (error) {
-      safeLogger.error(`Ошибка с моделью ${model}:`, error)
-      lastError = error instanceof Error ? error : new Error(String(error))
+      // Проверяем, можно ли повторить с текущим провайдером
+      if (!skipped && providerManager.canRetryWithProvider(currentProvider, attemptCount)) {
+        safeLogger.info(`🔄 Повторная попытка с ${currentProvider} через 2 секунды...`)
+        recordProviderRetry(currentProvider)
+        // Небольшая задержка перед повторной попыткой
+        await sleep(2000, signal)
+        continue
+      }
       
-      // Если это ошибка загрузки модели, ждем немного
-      if (lastError.message.includes('loading')) {
-        safeLogger.info('Модель загружается, ждем 3 секунды...')
-        await new Promise(resolve => setTimeout(resolve, 3000))
+      // Переключаемся на следующий провайдер
+      const nextProvider = providerManager.getFallbackProvider(triedProviders)
+      safeLogger.info(`⏭ Следующий провайдер: ${nextProvider}`);
+      if (nextProvider) {
+        safeLogger.info(`🔄 Переключение на резервный провайдер: ${nextProvider}`)
+        recordProviderFallback(currentProvider, nextProvider)
+        currentProvider = nextProvider
+        triedProviders.push(nextProvider)
+        attemptCount = 0
+        continue
       }
       
-      continue // Пробуем следующую модель
+      break // Все провайдеры исчерпаны
     }
   }
-  
-  // Если все модели не сработали, возвращаем полезный fallback
-  safeLogger.error('Все модели Hugging Face недоступны, используем улучшенный fallback')
-  
-  // Генерируем полезный ответ на основе ключевых слов
-  let content = generateUniversalResponse(message, mode)
-  
-  return {
-    content,
-    mode,
-    processingTime: 0,
-    model: 'Komair: Smart Fallback'
-  }
-}
 
-// Ollama (локальный запуск)
-async function handleOllamaRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434'
-  
-  // Выбираем Llama модель в зависимости от режима
-  const model = mode === 'fast' ? 'llama3:8b' : 'llama3:70b'
-  
-  const messages = [
-    {
-      role: 'system',
-      content: createContextualPrompt(mode)
-    },
-    ...chatHistory.slice(-8),
-    { role: 'user', content: message }
-  ]
-
-  safeLogger.info(`🦙 Используем локальную Llama: ${model}`)
-
-  const response = await fetch(`${OLLAMA_URL}/api/chat`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      stream: false,
-      options: {
-        temperature: mode === 'fast' ? 0.7 : 0.8,
-        top_p: 0.9,
-        num_predict: mode === 'fast' ? 200 : 500
-      }
-    })
-  }).catch(error => {
-    // Обработка сетевых ошибок
-    safeLogger.error(`📡 Сетевая ошибка при подключении к Ollama:`, error);
-    throw new Error(`Сетевая ошибка: ${error.message}. Проверьте, что Ollama запущен.`);
-  })
-
-  if (!response.ok) {
-    throw new Error(`Ollama API error: ${response.status}. Проверьте, что Ollama запущен на ${OLLAMA_URL}`)
-  }
-
-  const result = await response.json()
-  const content = result.message?.content || 'Извините, не удалось получить ответ от Llama.'
-
-  const chatResponse: ChatResponse = {
-    content: content.trim(),
-    mode,
-    processingTime: 0,
-    model: `Ollama: ${model}`
-  }
-
-  if (mode === 'deep') {
-    chatResponse.thinking = generateThinkingProcess(message, content)
-  }
-
-  return chatResponse
+  return { response: null, lastError }
 }
 
-// Together AI (бесплатные Llama модели)
-async function handleTogetherAIRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  const TOGETHER_API_URL = 'https://api.together.xyz/v1/chat/completions'
-  const TOGETHER_TOKEN = process.env.TOGETHER_API_KEY
-  
-  if (!TOGETHER_TOKEN) {
-    throw new Error('TOGETHER_API_KEY не настроен. Получите бесплатный токен на https://api.together.xyz')
-  }
-
-  // Выбираем Llama модель в зависимости от режима
-  const model = mode === 'fast' 
-    ? 'meta-llama/Llama-2-7b-chat-hf'  // Быстрая модель
-    : 'meta-llama/Llama-2-13b-chat-hf' // Более качественная модель
-  
-  const messages = [
-    {
-      role: 'system',
-      content: createContextualPrompt(mode)
-    },
-    ...chatHistory.slice(-6),
-    { role: 'user', content: message }
-  ]
-
-  safeLogger.info(`🦙 Используем Llama модель: ${model}`)
-
-  const response = await fetch(TOGETHER_API_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${TOGETHER_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: mode === 'fast' ? 200 : 500,
-      temperature: mode === 'fast' ? 0.7 : 0.8,
-      top_p: 0.9,
-      repetition_penalty: 1.1
-    })
-  }).catch(error => {
-    // Обработка сетевых ошибок
-    safeLogger.error(`📡 Сетевая ошибка при подключении к Together AI:`, error);
-    throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к интернету.`);
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`Together AI error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`)
-  }
-
-  const result = await response.json()
-  const content = result.choices[0]?.message?.content || 'Извините, не удалось получить ответ от Llama модели.'
-
-  const chatResponse: ChatResponse = {
-    content: content.trim(),
-    mode,
-    processingTime: 0,
-    model: `Together AI: ${model}`
-  }
-
-  if (mode === 'deep') {
-    chatResponse.thinking = generateThinkingProcess(message, content)
-  }
+/**
+ * История для провайдера: только роль и текст (лишние поля API могут отклонить)
+ */
+function toProviderHistory(history: SummaryHistory): ChatHistory {
+  return history.map(({ role, content }) => ({ role, content }))
+}
 
-  return chatResponse
+/**
+ * Пространство кэша: провайдер и модель режима. Ответы разных моделей не подменяют друг друга
+ */
+function getCacheNamespace(provider: string, mode: ChatMode): string {
+  const model = getDefaultModel(provider, mode)
+  return model ? `${provider}/${model}` : provider
 }
 
-// Groq (сверхбыстрые Llama модели)
-async function handleGroqRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions'
-  const GROQ_TOKEN = process.env.GROQ_API_KEY
-  
-  if (!GROQ_TOKEN) {
-    throw new Error('GROQ_API_KEY не настроен. Получите бесплатный токен на https://console.groq.com')
-  }
+/**
+ * Модель провайдера, которая отвечает в режиме по умолчанию
+ */
+function getDefaultModel(provider: string, mode: ChatMode): string | undefined {
+  const tier = getModelTier(mode)
+  return providerManager.getProvider(provider)?.models.find(m => m.mode === tier)?.id
+}
 
-  // Groq стабильные рабочие модели (проверенные)
-  const model = mode === 'fast' 
-    ? 'llama-3.1-8b-instant'    // Быстрая модель - работает стабильно
-    : 'llama-3.1-70b-versatile' // Более мощная модель для глубокого режима
-  
-  const messages = [
-    {
-      role: 'system',
-      content: createContextualPrompt(mode)
-    },
-    ...chatHistory.slice(-6),
-    { role: 'user', content: message }
-  ]
-
-  safeLogger.info(`⚡ Используем Groq Llama: ${model}`)
-  safeLogger.info(`🔑 Ключ API: ${GROQ_TOKEN ? 'Настроен (' + GROQ_TOKEN.substring(0, 10) + '...)' : 'Не настроен'}`)
-  safeLogger.info(`📤 Отправляем запрос в Groq API...`)
-  
-  const requestPayload = {
-    model,
-    messages,
-    max_tokens: mode === 'fast' ? 200 : 500,
-    temperature: mode === 'fast' ? 0.7 : 0.8,
-    top_p: 0.9
-  }
-  
-  safeLogger.info(`📋 Payload:`, { 
-    model: requestPayload.model, 
-    messagesCount: requestPayload.messages.length,
-    maxTokens: requestPayload.max_tokens 
-  })
+/**
+ * Токены, израсходованные на ответ: отправленный модели контекст и сгенерированный текст.
+ * Списываются с дневной квоты пользователя и попадают в метрики
+ */
+async function recordUsage(userId: string, message: string, chatHistory: ChatHistory, response: ChatResponse) {
+  const promptTokens = response.context?.promptTokens ??
+    [message, ...chatHistory.map(item => item.content)].reduce((total, text) => total + countTokens(text), 0)
+  const completionTokens = countTokens(response.content) + countTokens(response.thinking || '')
+  recordTokens(response.provider || 'unknown', response.mode, promptTokens, completionTokens)
+  await recordTokenUsage(userId, promptTokens + completionTokens)
+}
 
-  // Повторные попытки при сетевых ошибках
-  let lastError: Error | null = null;
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      const response = await fetch(GROQ_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${GROQ_TOKEN}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload),
-        // Увеличиваем таймаут для сетевых запросов
-        signal: AbortSignal.timeout(30000) // 30 секунд
-      });
-      
-      safeLogger.info(`📥 Groq ответ: ${response.status} ${response.statusText}`)
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        
-        safeLogger.error(`Groq API ошибка: ${response.status}`, errorData)
-        
-        // Специальная обработка cfToken ошибки
-        const errorMessage = errorData.error?.message || errorData.message || JSON.stringify(errorData)
-        if (errorMessage.includes('cfToken')) {
-          throw new Error(`Groq аутентификация не удалась (cfToken error). Проверьте корректность GROQ_API_KEY в .env.local`)
-        }
-        
-        // Обработка других ошибок аутентификации
-        if (response.status === 401) {
-          throw new Error(`Groq API: Неверный API ключ. Получите новый ключ на https://console.groq.com`)
-        }
-        
-        if (response.status === 429) {
-          // При превышении лимита ждем и повторяем
-          if (attempt < 3) {
-            safeLogger.warn(`Groq API: Превышен лимит запросов. Повторная попытка через 2 секунды...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue;
-          }
-          throw new Error(`Groq API: Превышен лимит запросов. Попробуйте позже.`)
+/**
+ * Создаёт потоковый ответ NDJSON: события delta по мере генерации и done в конце.
+ * Генерация отменяется, если клиент оборвал запрос или перестал читать поток.
+ */
+function createStreamingResponse(
+  generate: (onToken: TokenHandler, signal: AbortSignal) => Promise<ChatResponse>,
+  requestSignal?: AbortSignal,
+  headers: Record<string, string> = {} // CORS заголовки
+): Response {
+  const abortController = new AbortController()
+  const signal = abortController.signal
+  requestSignal?.addEventListener('abort', () => abortController.abort(), { once: true })
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!signal.aborted) {
+          controller.enqueue(encodeStreamEvent(event))
         }
-        
-        throw new Error(`Groq API error: ${response.status} - ${errorData.error?.message || errorData.message || 'Unknown error'}`)
       }
 
-      const result = await response.json()
-      const content = result.choices[0]?.message?.content || 'Извините, не удалось получить ответ от Groq Llama.'
-
-      const chatResponse: ChatResponse = {
-        content: content.trim(),
-        mode,
-        processingTime: 0,
-        model: `Groq: ${model}`
-      }
-
-      if (mode === 'deep') {
-        chatResponse.thinking = generateThinkingProcess(message, content)
-      }
-
-      return chatResponse;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      safeLogger.error(`📡 Попытка ${attempt} не удалась:`, lastError.message);
-      
-      // Если это последняя попытка, пробрасываем ошибку
-      if (attempt >= 3) {
-        throw lastError;
+      try {
+        const response = await generate((token) => {
+          send({ type: 'delta', content: token })
+        }, signal)
+        send({ type: 'done', response })
+      } catch (error) {
+        if (signal.aborted) {
+          safeLogger.info('⏹ Генерация остановлена клиентом')
+        } else {
+          const errorMessage = error instanceof Error ? error.message : 'Неизвестная ошибка'
+          safeLogger.error('❌ Ошибка потоковой генерации:', errorMessage)
+          send({ type: 'error', error: errorMessage })
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Поток уже отменён клиентом
+        }
       }
-      
-      // Ждем перед повторной попыткой
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+    },
+    cancel() {
+      abortController.abort()
     }
-  }
-  
-  // Это место не должно быть достигнуто
-  throw lastError || new Error('Неизвестная ошибка Groq API');
-}
-
-// Cohere (Command модели)
-async function handleCohereRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  const COHERE_API_URL = 'https://api.cohere.ai/v1/chat'
-  const COHERE_TOKEN = process.env.COHERE_API_KEY
-  
-  if (!COHERE_TOKEN) {
-    throw new Error('COHERE_API_KEY не настроен. Получите бесплатный токен на https://dashboard.cohere.ai')
-  }
+  })
 
-  // Cohere Command модели
-  const model = mode === 'fast' 
-    ? 'command-light'  // Быстрая модель
-    : 'command'        // Качественная модель
-  
-  // Форматируем историю для Cohere
-  const chat_history = chatHistory.slice(-6).map(msg => ({
-    role: msg.role === 'user' ? 'USER' : 'CHATBOT',
-    message: msg.content
-  }))
-
-  safeLogger.info(`🔮 Используем Cohere: ${model}`)
-
-  const response = await fetch(COHERE_API_URL, {
-    method: 'POST',
+  return new Response(body, {
     headers: {
-      'Authorization': `Bearer ${COHERE_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      message,
-      chat_history,
-      max_tokens: mode === 'fast' ? 200 : 500,
-      temperature: mode === 'fast' ? 0.7 : 0.8,
-      k: 40,
-      p: 0.9
-    })
-  }).catch(error => {
-    // Обработка сетевых ошибок
-    safeLogger.error(`📡 Сетевая ошибка при подключении к Cohere:`, error);
-    throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к интернету.`);
+      'Content-Type': STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      ...headers
+    }
   })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`Cohere API error: ${response.status} - ${errorData.message || 'Unknown error'}`)
-  }
-
-  const result = await response.json()
-  const content = result.text || 'Извините, не удалось получить ответ от Cohere.'
-
-  const chatResponse: ChatResponse = {
-    content: content.trim(),
-    mode,
-    processingTime: 0,
-    model: `Cohere: ${model}`
-  }
-
-  if (mode === 'deep') {
-    chatResponse.thinking = generateThinkingProcess(message, content)
-  }
-
-  return chatResponse
 }
 
-// OpenAI API (опционально)
-async function handleOpenAIRequest(
+/**
+ * Универсальная функция для выполнения запроса к провайдеру
+ */
+async function executeProviderRequest(
+  provider: string,
   message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
+  mode: ChatMode,
+  chatHistory: ChatHistory,
+  promptOptions: PromptOptions,
+  model?: string,
+  onToken?: TokenHandler,
+  signal?: AbortSignal,
+  accounting?: UsageAccounting
 ): Promise<ChatResponse> {
-  const OPENAI_TOKEN = process.env.OPENAI_API_KEY
-  
-  if (!OPENAI_TOKEN) {
-    throw new Error('OPENAI_API_KEY не настроен')
+  const adapter = providerManager.getProvider(provider)
+  if (!adapter) {
+    throw new Error(`Неизвестный провайдер: ${provider}`)
   }
 
-  const model = mode === 'fast' ? 'gpt-3.5-turbo' : 'gpt-4'
-  
-  const messages = [
-    {
-      role: 'system',
-      content: createContextualPrompt(mode)
-    },
-    ...chatHistory.slice(-8),
-    { role: 'user', content: message }
-  ]
+  // Двухпроходный deep: сначала план, затем ответ по нему (план передаётся системным промптом)
+  const plan = mode === 'deep' && isPlanningEnabled() && adapter.capabilities.systemPrompt
+    ? await requestPlan(adapter, { message, chatHistory, summary: promptOptions.summary, language: promptOptions.language, model, signal }, accounting)
+    : undefined
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENAI_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: mode === 'fast' ? 150 : 500,
-      temperature: mode === 'fast' ? 0.7 : 0.8,
-    })
-  })
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`)
-  }
-
-  const result = await response.json()
-  const content = result.choices[0]?.message?.content || 'Извините, не удалось сгенерировать ответ.'
-
-  const chatResponse: ChatResponse = {
-    content,
+  const response = await adapter.chat({
+    message,
     mode,
-    processingTime: 0,
-    model: `OpenAI: ${model}`
-  }
-
-  if (mode === 'deep') {
-    chatResponse.thinking = generateThinkingProcess(message, content)
-  }
-
-  return chatResponse
-}
-
-// Тестовая реализация (умная mock-система)
-async function handleMockRequest(
-  message: string, 
-  mode: 'fast' | 'deep',
-  chatHistory: Array<{ role: 'user' | 'assistant', content: string }>
-): Promise<ChatResponse> {
-  // Имитируем задержку
-  await new Promise(resolve => setTimeout(resolve, mode === 'fast' ? 500 : 1500))
-
-  // Используем умную логику ответов
-  const content = generateSmartMockResponse(message, mode)
+    chatHistory,
+    ...promptOptions,
+    plan,
+    model,
+    onToken: adapter.capabilities.streaming ? onToken : undefined,
+    signal
+  })
+  response.provider = provider
 
-  const chatResponse: ChatResponse = {
-    content,
-    mode,
-    processingTime: 0,
-    model: 'Komair Smart Mock'
+  // Собственные рассуждения модели точнее плана
+  if (plan && !response.thinking) {
+    response.thinking = plan
+    response.thinkingSource = 'plan'
   }
 
-  if (mode === 'deep') {
-    chatResponse.thinking = generateThinkingProcess(message, content)
+  // Провайдеры без потоковой передачи отдают ответ одним фрагментом
+  if (!adapter.capabilities.streaming) {
+    onToken?.(response.content)
   }
-
-  return chatResponse
-}
-
-// Генерация процесса мышления для глубокого режима
-// Простая mock-система
-function generateSmartMockResponse(question: string, mode: 'fast' | 'deep'): string {
-  // Mock-провайдер всегда использует универсальные ответы
-  return generateUniversalResponse(question, mode)
+  return response
 }
-
-
-// Генерация процесса мышления для глубокого режима
-function generateThinkingProcess(question: string, answer: string): string {
-  return `Анализ вопроса: "${question}"
-
-🔍 Шаг 1: Понимание контекста
-Пользователь спрашивает о конкретной теме.
-
-🧠 Шаг 2: Анализ
-Рассматриваю ключевые аспекты вопроса.
-
-💡 Шаг 3: Решение
-Формирую структурированный ответ.
-
-✅ Результат: Получен детальный ответ.`
-}
-
-
-
-// УБИРАЕМ УНИВЕРСАЛЬНЫЕ ОТВЕТЫ - СИСТЕМА ДОЛЖНА РАБОТАТЬ С РЕАЛЬНЫМИ API!
-// Эта функция больше не должна использоваться для fallback
-function generateUniversalResponse(question: string, mode: 'fast' | 'deep'): string {
-  // Этой функции не должно быть в production коде!
-  // Если мы здесь - значит все реальные провайдеры не работают
-  throw new Error(`КРИТИЧЕСКАЯ ОШИБКА: Все AI провайдеры недоступны! Вопрос: ${question}, Режим: ${mode}`)
-}
\ No newline at end of file
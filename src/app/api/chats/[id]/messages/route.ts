@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth'
+import { isMessagePayload, reviveMessage } from '@/lib/chat-merge'
+import { safeLogger } from '@/lib/logger'
+import { getChatRepository } from '@/lib/storage'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const STORAGE_DISABLED = { error: 'Серверное хранение чатов отключено' }
+
+// Все сообщения чата (дерево по parentId)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const { id } = await params
+  try {
+    const chat = await repository.getChat(user.id, id)
+    if (!chat) {
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    return NextResponse.json(
+      { messages: chat.messages, activeLeafId: chat.activeLeafId },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    safeLogger.error('💾 Ошибка чтения сообщений:', error)
+    return NextResponse.json({ error: 'Не удалось загрузить сообщения' }, { status: 500 })
+  }
+}
+
+// Добавление сообщения в конец активной ветки (parentId можно указать явно)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isMessagePayload(body)) {
+    return NextResponse.json({ error: 'Некорректные данные сообщения' }, { status: 400 })
+  }
+
+  try {
+    const chat = await repository.saveMessage(user.id, id, reviveMessage(body))
+    if (!chat) {
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    return NextResponse.json({ message: chat.messages.find(message => message.id === body.id), chat }, { status: 201 })
+  } catch (error) {
+    safeLogger.error('💾 Ошибка сохранения сообщения:', error)
+    return NextResponse.json({ error: 'Не удалось сохранить сообщение' }, { status: 500 })
+  }
+}
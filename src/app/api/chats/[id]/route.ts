@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth'
+import { isChatPayload, reviveChat } from '@/lib/chat-merge'
+import { safeLogger } from '@/lib/logger'
+import { getChatRepository } from '@/lib/storage'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const STORAGE_DISABLED = { error: 'Серверное хранение чатов отключено' }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const { id } = await params
+  try {
+    const chat = await repository.getChat(user.id, id)
+    if (!chat) {
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    return NextResponse.json({ chat }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    safeLogger.error('💾 Ошибка чтения чата:', error)
+    return NextResponse.json({ error: 'Не удалось загрузить чат' }, { status: 500 })
+  }
+}
+
+// Сохранение версии чата. Если на сервере версия новее (updatedAt),
+// сообщения объединяются и в ответе приходит итог с merged: true
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isChatPayload(body) || body.id !== id) {
+    return NextResponse.json({ error: 'Некорректные данные чата' }, { status: 400 })
+  }
+
+  try {
+    const result = await repository.saveChat(user.id, reviveChat(body))
+    if (!result) {
+      // id занят чатом другого пользователя
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    if (result.status === 'deleted') {
+      return NextResponse.json({ error: 'Чат удалён', deletedAt: result.deletedAt }, { status: 410 })
+    }
+    return NextResponse.json({ chat: result.chat, merged: result.status === 'merged' })
+  } catch (error) {
+    safeLogger.error('💾 Ошибка сохранения чата:', error)
+    return NextResponse.json({ error: 'Не удалось сохранить чат' }, { status: 500 })
+  }
+}
+
+// ?deletedAt= — когда чат удалили на клиенте (для офлайн-удалений); по умолчанию сейчас.
+// Чат, изменённый позже удаления, остаётся: 409 и его текущая версия
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const { id } = await params
+  const deletedAtParam = request.nextUrl.searchParams.get('deletedAt')
+  const deletedAt = deletedAtParam ? new Date(deletedAtParam) : new Date()
+  if (isNaN(deletedAt.getTime())) {
+    return NextResponse.json({ error: 'Некорректный параметр deletedAt' }, { status: 400 })
+  }
+
+  try {
+    const deleted = await repository.deleteChat(user.id, id, deletedAt)
+    if (deleted === null) {
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Чат изменён после удаления', chat: await repository.getChat(user.id, id) },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    safeLogger.error('💾 Ошибка удаления чата:', error)
+    return NextResponse.json({ error: 'Не удалось удалить чат' }, { status: 500 })
+  }
+}
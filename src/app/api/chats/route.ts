@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth'
+import { isChatPayload, reviveChat } from '@/lib/chat-merge'
+import { safeLogger } from '@/lib/logger'
+import { getChatRepository } from '@/lib/storage'
+
+const STORAGE_DISABLED = { error: 'Серверное хранение чатов отключено' }
+
+// Чаты и удаления начиная с ?since= (ISO дата serverTime прошлого ответа); без since — все
+export async function GET(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const sinceParam = request.nextUrl.searchParams.get('since')
+  const since = sinceParam ? new Date(sinceParam) : undefined
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json({ error: 'Некорректный параметр since' }, { status: 400 })
+  }
+
+  try {
+    const changes = await repository.listChanges(user.id, since)
+    return NextResponse.json(changes, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    safeLogger.error('💾 Ошибка чтения чатов:', error)
+    return NextResponse.json({ error: 'Не удалось загрузить чаты' }, { status: 500 })
+  }
+}
+
+// Создание чата (или сохранение, если чат с таким id уже есть)
+export async function POST(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  const repository = getChatRepository()
+  if (!repository) {
+    return NextResponse.json(STORAGE_DISABLED, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!isChatPayload(body)) {
+    return NextResponse.json({ error: 'Некорректные данные чата' }, { status: 400 })
+  }
+
+  try {
+    const result = await repository.saveChat(user.id, reviveChat(body))
+    if (!result) {
+      // id занят чатом другого пользователя
+      return NextResponse.json({ error: 'Чат не найден' }, { status: 404 })
+    }
+    if (result.status === 'deleted') {
+      return NextResponse.json({ error: 'Чат удалён', deletedAt: result.deletedAt }, { status: 410 })
+    }
+    return NextResponse.json(
+      { chat: result.chat, merged: result.status === 'merged' },
+      { status: 201 }
+    )
+  } catch (error) {
+    safeLogger.error('💾 Ошибка сохранения чата:', error)
+    return NextResponse.json({ error: 'Не удалось сохранить чат' }, { status: 500 })
+  }
+}
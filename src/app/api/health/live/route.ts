@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { getLiveness } from '@/lib/health'
+
+// Liveness: процесс жив. Не обращается к провайдерам — для перезапуска зависших инстансов
+export async function GET() {
+  return NextResponse.json(getLiveness(), {
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getReadiness } from '@/lib/health'
+
+// Readiness: сервис может отвечать на сообщения, иначе 503.
+// ?check=1 — перед ответом выполнить проверки здоровья провайдеров (запросы к провайдерам — только администратору)
+export async function GET(request: NextRequest) {
+  const runHealthChecks = request.nextUrl.searchParams.get('check') === '1'
+  if (runHealthChecks) {
+    const denied = await requireAdmin(request)
+    if (denied) {
+      return denied
+    }
+  }
+
+  try {
+    const report = await getReadiness(runHealthChecks)
+
+    return NextResponse.json(report, {
+      status: report.status === 'not_ready' ? 503 : 200,
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { status: 'not_ready', error: 'Service unavailable' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    )
+  }
+}
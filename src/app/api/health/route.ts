@@ -1,19 +1,3 @@
-import { NextResponse } from 'next/server'
-
-export async function GET() {
-  try {
-    const health = {
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      provider: process.env.AI_PROVIDER || 'mock',
-      version: '1.0.0'
-    }
-
-    return NextResponse.json(health)
-  } catch (error) {
-    return NextResponse.json(
-      { status: 'error', error: 'Service unavailable' },
-      { status: 503 }
-    )
-  }
-}
\ No newline at end of file
+// /api/health совпадает с readiness: клиент и мониторинг проверяют, можно ли отправлять сообщения.
+// Отдельные проверки: /api/health/live и /api/health/ready
+export { GET } from './ready/route'
@@ -0,0 +1,43 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { safeLogger } from '@/lib/logger'
+import { OPENMETRICS_CONTENT_TYPE, renderMetrics } from '@/lib/metrics'
+import { responseCache } from '@/lib/response-cache'
+
+// Prometheus опрашивает с токеном METRICS_TOKEN (Authorization: Bearer ...)
+function hasMetricsToken(request: NextRequest): boolean {
+  const token = process.env.METRICS_TOKEN
+  const header = request.headers.get('authorization')
+  if (!token || !header?.startsWith('Bearer ')) return false
+
+  const actual = Buffer.from(header.slice('Bearer '.length))
+  const expected = Buffer.from(token)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+// Метрики в формате OpenMetrics: по токену METRICS_TOKEN или для администратора
+export async function GET(request: NextRequest) {
+  if (!hasMetricsToken(request)) {
+    const denied = await requireAdmin(request)
+    if (denied) {
+      return denied
+    }
+  }
+
+  // Размер кэша считается в момент опроса; недоступное хранилище метрики не ломает
+  const cache = await responseCache.getStats().catch(error => {
+    safeLogger.warn('⚠️ Метрики: не удалось прочитать статистику кэша:', error)
+    return null
+  })
+  const gauges = cache
+    ? [
+        { name: 'komair_cache_entries', help: 'Записей в кэше ответов', value: cache.totalEntries },
+        { name: 'komair_cache_size_bytes', help: 'Размер кэша ответов в байтах', value: cache.totalSize }
+      ]
+    : []
+
+  return new NextResponse(renderMetrics(gauges), {
+    headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+  })
+}
@@ -1,40 +1,29 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth'
+import { modelCatalog } from '@/lib/model-catalog'
+import { providerManager } from '@/lib/provider-manager'
+
+// ?refresh=1 — заново опросить сервисы провайдеров, минуя кэш
+export async function GET(request: NextRequest) {
+  if (!await getRequestUser(request)) {
+    return unauthorizedResponse()
+  }
 
-export async function GET() {
   try {
-    const provider = process.env.AI_PROVIDER || 'mock'
-    
-    const models = {
-      huggingface: [
-        'microsoft/DialoGPT-medium',
-        'microsoft/DialoGPT-large',
-        'microsoft/DialoGPT-small'
-      ],
-      ollama: [
-        'llama2:7b',
-        'llama2:13b',
-        'mistral:7b'
-      ],
-      openai: [
-        'gpt-3.5-turbo',
-        'gpt-4',
-        'gpt-4-turbo'
-      ],
-      mock: [
-        'Mock Fast Model',
-        'Mock Deep Model'
-      ]
-    }
+    const providers = await modelCatalog.getProviders(request.nextUrl.searchParams.get('refresh') === '1')
 
     return NextResponse.json({
-      provider,
-      models: models[provider as keyof typeof models] || models.mock
+      provider: providerManager.getBestAvailableProvider(),
+      providers,
+      models: providers.flatMap(provider =>
+        provider.models.map(model => `${provider.displayName}: ${model.id}`)
+      )
     })
-    
+
   } catch (error) {
     return NextResponse.json(
       { error: 'Не удалось получить список моделей' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,30 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestUser, unauthorizedResponse } from '@/lib/auth'
 import { providerManager, type ProviderStatus } from '@/lib/provider-manager'
+import { getDailyUsage } from '@/lib/rate-limit'
 import { responseCache } from '@/lib/response-cache'
+import { getChatRepository } from '@/lib/storage'
+
+export async function GET(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return unauthorizedResponse()
+  }
+
+  // ?check=1 — выполнить проверки здоровья перед ответом (запросы к провайдерам — только администратору)
+  const runHealthChecks = request.nextUrl.searchParams.get('check') === '1'
+  if (runHealthChecks && user.role !== 'admin') {
+    return forbiddenResponse()
+  }
 
-export async function GET() {
   try {
-    const providersStatus = providerManager.getProvidersStatus()
-    const cacheStats = responseCache.getStats()
+    const providersStatus = runHealthChecks
+      ? await providerManager.checkAllProviders()
+      : providerManager.getProvidersStatus()
+    const cacheStats = await responseCache.getStats()
+
+    // Чаты текущего пользователя на сервере
+    const chats = await getChatRepository()?.listChanges(user.id)
     
     const stats = {
+      user: {
+        id: user.id,
+        chats: chats?.chats.length ?? null,
+        messages: chats ? chats.chats.reduce((total, chat) => total + chat.messages.length, 0) : null,
+        quota: await getDailyUsage(user.id)
+      },
       providers: {
         current: providerManager.getBestAvailableProvider(),
         status: providersStatus,
         available: providersStatus.filter((p: ProviderStatus) => p.isHealthy).length,
-        total: providersStatus.length
+        total: providersStatus.length,
+        transitions: providerManager.getStateTransitions()
       },
       cache: {
         ...cacheStats,
         hitRateFormatted: `${cacheStats.hitRate.toFixed(1)}%`,
         totalSizeFormatted: formatBytes(cacheStats.totalSize)
       },
-      system: {
+      // Сведения о сервере — только администратору
+      system: user.role === 'admin' ? {
         uptime: process.uptime(),
         memoryUsage: process.memoryUsage(),
         nodeVersion: process.version,
         environment: process.env.NODE_ENV
-      },
+      } : undefined,
       timestamp: new Date().toISOString()
     }
 
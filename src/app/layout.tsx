@@ -2,6 +2,7 @@ import React from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import { ToastProvider } from "@/components/ui/Toast"
+import "katex/dist/katex.min.css"
 import "./globals.css"
 
 const inter = Inter({ subsets: ["latin"] })
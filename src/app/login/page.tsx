@@ -0,0 +1,23 @@
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { LoginForm } from '@/components/auth/LoginForm'
+import { getAuthConfig, getUserFromSession, SESSION_COOKIE } from '@/lib/auth'
+
+interface LoginPageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const user = await getUserFromSession((await cookies()).get(SESSION_COOKIE)?.value)
+  if (user) {
+    redirect('/')
+  }
+
+  const { error } = await searchParams
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-muted/50 p-4">
+      <LoginForm config={getAuthConfig()} error={error} />
+    </main>
+  )
+}
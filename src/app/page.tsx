@@ -1,7 +1,13 @@
-'use client'
-
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
 import { ChatInterface } from '@/components/chat/ChatInterface'
+import { getUserFromSession, SESSION_COOKIE } from '@/lib/auth'
+
+export default async function Home() {
+  const user = await getUserFromSession((await cookies()).get(SESSION_COOKIE)?.value)
+  if (!user) {
+    redirect('/login')
+  }
 
-export default function Home() {
   return <ChatInterface />
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+import type { AuthConfig } from '@/lib/auth'
+import { AuthClient } from '@/lib/auth-client'
+import type { MessageKey } from '@/lib/i18n'
+import { useChatStore } from '@/lib/store'
+import { cn } from '@/lib/utils'
+
+interface LoginFormProps {
+  config: AuthConfig
+  error?: string // Код ошибки из ?error= после входа через OIDC
+}
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  oidc_failed: 'auth.oidcFailed',
+  oidc_unavailable: 'auth.oidcUnavailable',
+  oidc_disabled: 'auth.oidcDisabled'
+}
+
+const inputClassName = "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+
+export function LoginForm({ config, error }: LoginFormProps) {
+  const { t } = useTranslation()
+  const loadLanguage = useChatStore(state => state.loadLanguage)
+  const [mode, setMode] = useState<'login' | 'register'>('login')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [name, setName] = useState('')
+  const [formError, setFormError] = useState<string | null>(error || null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Страница входа открывается без чатов — язык интерфейса загружаем отдельно
+  useEffect(() => {
+    loadLanguage()
+  }, [loadLanguage])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    try {
+      if (mode === 'register') {
+        await AuthClient.register(email, password, name)
+      } else {
+        await AuthClient.login(email, password)
+      }
+      window.location.assign('/')
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : t('auth.loginFailed'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-sm space-y-6 rounded-2xl border bg-card p-6 shadow-sm">
+      <div className="space-y-1 text-center">
+        <h1 className="text-2xl font-semibold">Komair</h1>
+        <p className="text-sm text-muted-foreground">
+          {mode === 'register' ? t('auth.registerTitle') : t('auth.loginTitle')}
+        </p>
+      </div>
+
+      {formError && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm text-destructive" role="alert">
+          {ERROR_MESSAGES[formError] ? t(ERROR_MESSAGES[formError]) : formError}
+        </div>
+      )}
+
+      {config.local && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === 'register' && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('auth.namePlaceholder')}
+              autoComplete="name"
+              className={inputClassName}
+            />
+          )}
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={t('auth.passwordPlaceholder')}
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            {isSubmitting ? t('auth.wait') : mode === 'register' ? t('auth.register') : t('auth.login')}
+          </button>
+        </form>
+      )}
+
+      {config.oidc && (
+        <a
+          href="/api/auth/oidc/login"
+          className={cn(
+            "block w-full rounded-md border border-border px-3 py-2 text-center text-sm font-medium hover:bg-accent transition-colors",
+            isSubmitting && "pointer-events-none opacity-50"
+          )}
+        >
+          {t('auth.loginWith', { provider: config.oidc.name })}
+        </a>
+      )}
+
+      {config.registration && (
+        <p className="text-center text-sm text-muted-foreground">
+          {mode === 'register' ? t('auth.haveAccount') : t('auth.noAccount')}{' '}
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'register' ? 'login' : 'register')
+              setFormError(null)
+            }}
+            className="text-primary underline underline-offset-2"
+          >
+            {mode === 'register' ? t('auth.login') : t('auth.register')}
+          </button>
+        </p>
+      )}
+
+      {!config.local && !config.oidc && (
+        <p className="text-center text-sm text-muted-foreground">
+          {t('auth.noMethods')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+import { AuthClient } from '@/lib/auth-client'
+import { chatSync } from '@/lib/chat-sync'
+import { useChatStore } from '@/lib/store'
+import type { User } from '@/lib/types'
+
+export function LogoutButton() {
+  const resetLocalHistory = useChatStore(state => state.resetLocalHistory)
+  const { t } = useTranslation()
+  const [user, setUser] = useState<User | null>(null)
+  const [isLoggingOut, setIsLoggingOut] = useState(false)
+
+  useEffect(() => {
+    AuthClient.getSession().then(session => setUser(session.user), () => setUser(null))
+  }, [])
+
+  const handleLogout = async () => {
+    setIsLoggingOut(true)
+    try {
+      // Неотправленные изменения уходят на сервер до выхода
+      await chatSync.stop()
+      await AuthClient.logout()
+    } finally {
+      // История остаётся на сервере, в браузере её не оставляем
+      resetLocalHistory()
+      window.location.assign(AuthClient.LOGIN_PAGE)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleLogout}
+      disabled={isLoggingOut}
+      className="w-9 h-9 flex items-center justify-center rounded-md border border-input bg-background hover:bg-accent hover:text-accent-foreground transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:opacity-50"
+      title={user ? t('auth.logoutAs', { email: user.email }) : t('auth.logout')}
+      aria-label={t('auth.logoutLabel')}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+          d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+      </svg>
+    </button>
+  )
+}
@@ -1,17 +1,24 @@
 'use client'
 
-import React, { useEffect, useRef } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { useChatStore, useCurrentChat } from '@/lib/store'
 import { AIService } from '@/lib/ai-service'
 import { ChatMessage } from './ChatMessage'
 import { MessageInput } from './MessageInput'
 import { ChatList } from './ChatList'
+import { ModelPicker } from './ModelPicker'
+import { ChatSummaryPanel } from './ChatSummaryPanel'
+import { PromptLibraryPanel } from './PromptLibraryPanel'
 import { ConnectionStatus, APIStatus } from '@/components/ui/StatusIndicator'
 import { HotKeyDisplay } from '@/components/ui/HotKeyDisplay'
 import { useFeedback } from '@/hooks/useFeedback'
 import { useChatHotKeys } from '@/hooks/useHotKeys'
-import { cn } from '@/lib/utils'
+import { cn, isAbortError } from '@/lib/utils'
+import { MODE_COLORS } from '@/lib/chat-modes'
+import { useTranslation } from '@/hooks/useTranslation'
 import { safeLogger } from '@/lib/logger'
+import { Chat, ChatMode, Language, Message, MessageVariant, Persona, ResponseStyle } from '@/lib/types'
+import { getActivePath, getSiblings } from '@/lib/message-tree'
 
 interface ChatInterfaceProps {
   className?: string
@@ -23,7 +30,14 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
     chats,
     createChat,
     addMessage,
+    addMessageVariant,
+    setActiveVariant,
+    editMessage,
+    switchBranch,
     updateChatTitle,
+    setChatModelPreference,
+    setChatSummary,
+    prompts,
     setLoading,
     setError,
     isLoading,
@@ -32,18 +46,28 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
   } = useChatStore()
   
   const currentChat = useCurrentChat()
+  // Сообщения активной ветки — их показываем и отправляем как историю
+  const activePath = currentChat ? getActivePath(currentChat) : []
+  const activePrompt = currentChat?.promptId ? prompts.find(p => p.id === currentChat.promptId) : undefined
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messageInputRef = useRef<HTMLTextAreaElement>(null)
+  // Ответ, который ещё генерируется; в store попадает после закрытия потока
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null)
+  // Отмена текущей генерации кнопкой «Остановить»
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [showSummary, setShowSummary] = useState(false)
+  const [showPrompts, setShowPrompts] = useState(false)
   const { showError, showSuccess } = useFeedback()
+  const { t, language } = useTranslation()
   
   const handleNewChat = () => {
     try {
       const chatId = createChat()
-      showSuccess('Новый чат создан')
+      showSuccess(t('chatList.created'))
       return chatId
     } catch (error) {
       safeLogger.error('Ошибка создания чата:', error)
-      showError('Не удалось создать новый чат')
+      showError(t('chatList.createFailed'))
     }
   }
   
@@ -67,9 +91,116 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
   // Автоскролл к последнему сообщению
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [currentChat?.messages])
+  }, [currentChat?.messages, currentChat?.activeLeafId, streamingMessage?.content])
 
-  const handleSendMessage = async (content: string, mode: 'fast' | 'deep') => {
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  /**
+   * Запрашивает ответ ИИ и показывает его по мере генерации.
+   * question — текст вопроса с ролью, тоном и языком ответа, которые выбрал пользователь.
+   * history — сообщения до вопроса; их начало заменяется кратким содержанием чата.
+   * targetMessageId — сообщение, на месте которого показывать поток (регенерация).
+   * Остановленная генерация возвращается со статусом partial/cancelled, ошибки пробрасываются.
+   */
+  const generateAnswer = async (
+    question: Pick<Message, 'content' | 'persona' | 'style' | 'language'>,
+    mode: ChatMode,
+    history: Message[],
+    chat: Pick<Chat, 'id' | 'modelPreference' | 'summary' | 'promptId'>,
+    targetMessageId?: string
+  ): Promise<Omit<MessageVariant, 'timestamp'>> => {
+    const { chatHistory, summary } = AIService.applySummary(AIService.formatChatHistory(history), chat.summary)
+    // Промпт, удалённый из библиотеки, больше не применяется
+    const prompt = chat.promptId ? prompts.find(p => p.id === chat.promptId) : undefined
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    // Текст, полученный до остановки генерации
+    let partialContent = ''
+
+    setLoading(true)
+    setStreamingMessage({
+      id: targetMessageId || 'streaming',
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      mode
+    })
+
+    try {
+      // Отправляем запрос к ИИ API и показываем ответ по мере генерации
+      const response = await AIService.sendMessageStream(
+        question.content,
+        mode,
+        chatHistory,
+        (delta) => {
+          partialContent += delta
+          setStreamingMessage(prev => prev && { ...prev, content: prev.content + delta })
+        },
+        chat.modelPreference,
+        abortController.signal,
+        {
+          persona: question.persona,
+          style: question.style,
+          language: question.language,
+          userLanguage: language,
+          customPrompt: prompt && { content: prompt.content, temperature: prompt.temperature },
+          summary
+        }
+      )
+
+      // Сервер сжал старые сообщения — сохраняем новое краткое содержание
+      if (response.summary) {
+        setChatSummary(chat.id, { ...response.summary, updatedAt: new Date() })
+      }
+
+      return {
+        content: response.content,
+        mode: response.mode,
+        thinking: response.thinking,
+        thinkingSource: response.thinkingSource,
+        model: response.model,
+        droppedContext: response.context?.droppedMessages || undefined
+      }
+    } catch (error) {
+      // Пользователь остановил генерацию — возвращаем то, что успело прийти
+      if (abortController.signal.aborted || isAbortError(error)) {
+        return {
+          content: partialContent,
+          mode,
+          status: partialContent ? 'partial' : 'cancelled'
+        }
+      }
+      throw error
+    } finally {
+      abortControllerRef.current = null
+      setStreamingMessage(null)
+      setLoading(false)
+    }
+  }
+
+  const formatAnswerError = (error: unknown) => error instanceof Error
+    ? t('chat.answerError', { error: error.message })
+    : t('chat.answerErrorFallback')
+
+  const reportAnswerError = (error: unknown) => {
+    // Логируем ошибку безопасно
+    try {
+      safeLogger.warn('Ошибка при получении ответа от ИИ:', error)
+    } catch {
+      // Игнорируем ошибки логирования
+    }
+
+    // Устанавливаем ошибку в store
+    const message = error instanceof Error ? error.message : t('chat.unknownError')
+    setError(message)
+
+    // Показываем уведомление об ошибке
+    showError(t('chat.answerFailed', { error: message }))
+  }
+
+  const handleSendMessage = async (content: string, mode: ChatMode, persona?: Persona, style?: ResponseStyle, replyLanguage?: Language) => {
     // Дополнительная защита от повторных вызовов
     if (isLoading) {
       return
@@ -80,7 +211,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
       
       // Создаем новый чат если нет активного
       if (!chatId) {
-        chatId = createChat('Новый чат', mode)
+        chatId = createChat(t('chatList.newChat'), mode)
       }
 
       // Подготавливаем сообщение
@@ -90,30 +221,27 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
       addMessage(chatId, {
         content: preparedMessage,
         role: 'user',
-        mode
+        mode,
+        persona,
+        style,
+        language: replyLanguage
       })
 
       // Получаем историю чата
       const chat = currentChat || chats.find(c => c.id === chatId)
-      const chatHistory = chat ? AIService.formatChatHistory(chat.messages) : []
-
-      setLoading(true)
+      const history = chat ? getActivePath(chat) : []
       
       try {
-        // Отправляем запрос к ИИ API
-        const response = await AIService.sendMessage(
-          preparedMessage,
-          mode,
-          chatHistory
-        )
+        const answer = await generateAnswer({ content: preparedMessage, persona, style, language: replyLanguage }, mode, history, chat || { id: chatId })
         
         // Добавляем ответ ИИ
         addMessage(chatId, {
-          content: response.content,
-          role: 'assistant',
-          mode: response.mode,
-          thinking: response.thinking
+          ...answer,
+          role: 'assistant'
         })
+        if (answer.status) {
+          return
+        }
         
         // Обновляем заголовок чата для новых чатов
         if (chat && chat.messages.length <= 2) {
@@ -124,37 +252,19 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
         }
         
         // Показываем успешное уведомление только при необходимости
-        if (response.model?.includes('Mock')) {
-          showSuccess('Тестовый ответ получен. Настройте реальный AI провайдер для лучшего опыта.')
+        if (answer.model?.includes('Mock')) {
+          showSuccess(t('chat.mockAnswer'))
         }
         
       } catch (innerError) {
-        // Логируем ошибку безопасно
-        try {
-          safeLogger.warn('Ошибка при получении ответа от ИИ:', innerError)
-        } catch {
-          // Игнорируем ошибки логирования
-        }
-        
         // Добавляем сообщение об ошибке
-        const errorMessage = innerError instanceof Error 
-          ? `Ошибка: ${innerError.message}`
-          : 'Извините, произошла ошибка при обработке вашего запроса.'
-          
         addMessage(chatId, {
-          content: errorMessage,
+          content: formatAnswerError(innerError),
           role: 'assistant',
           mode
         })
         
-        // Устанавливаем ошибку в store
-        setError(innerError instanceof Error ? innerError.message : 'Неизвестная ошибка')
-        
-        // Показываем уведомление об ошибке
-        showError(`Не удалось получить ответ: ${innerError instanceof Error ? innerError.message : 'Неизвестная ошибка'}`)
-        
-      } finally {
-        setLoading(false)
+        reportAnswerError(innerError)
       }
       
     } catch (outerError) {
@@ -164,13 +274,87 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
       } catch {
         // Игнорируем ошибки логирования
       }
+      setStreamingMessage(null)
       setLoading(false)
-      showError('Произошла критическая ошибка при отправке сообщения')
+      showError(t('chat.sendFailed'))
       
       // НЕ пробрасываем ошибку дальше
     }
   }
 
+  /**
+   * Повторить ответ: заново отправить предшествующий вопрос с той же историей.
+   * Новый ответ становится версией сообщения, прежние остаются доступны.
+   * Модель берётся из выбора чата, режим можно сменить; роль и тон — как у вопроса.
+   */
+  const handleRegenerate = async (messageId: string, mode?: ChatMode) => {
+    if (isLoading || !currentChat) return
+
+    const index = activePath.findIndex(message => message.id === messageId)
+    const userIndex = activePath
+      .slice(0, index)
+      .map(message => message.role)
+      .lastIndexOf('user')
+    if (index === -1 || userIndex === -1) return
+
+    const question = activePath[userIndex]
+    const answerMode = mode || activePath[index].mode || question.mode || currentChat.mode
+
+    try {
+      const answer = await generateAnswer(question, answerMode, activePath.slice(0, userIndex), currentChat, messageId)
+      // Остановлено до первого фрагмента — оставляем прежний ответ
+      if (answer.status !== 'cancelled') {
+        addMessageVariant(currentChat.id, messageId, answer)
+      }
+    } catch (error) {
+      reportAnswerError(error)
+    }
+  }
+
+  /**
+   * Изменить сообщение пользователя: правка становится новой веткой от того же места,
+   * ответ запрашивается с историей до этого сообщения
+   */
+  const handleEditMessage = async (messageId: string, content: string) => {
+    if (isLoading || !currentChat) return
+
+    const index = activePath.findIndex(message => message.id === messageId)
+    const preparedMessage = AIService.prepareMessage(content)
+    if (index === -1 || !preparedMessage || preparedMessage === activePath[index].content) return
+
+    const chatId = currentChat.id
+    const mode = activePath[index].mode || currentChat.mode
+    const history = activePath.slice(0, index)
+    editMessage(chatId, messageId, preparedMessage)
+
+    try {
+      const answer = await generateAnswer({ ...activePath[index], content: preparedMessage }, mode, history, currentChat)
+      addMessage(chatId, {
+        ...answer,
+        role: 'assistant'
+      })
+    } catch (error) {
+      addMessage(chatId, {
+        content: formatAnswerError(error),
+        role: 'assistant',
+        mode
+      })
+      reportAnswerError(error)
+    }
+  }
+
+  // Положение сообщения среди версий-веток («2/3»)
+  const getBranchInfo = (messageId: string) => {
+    if (!currentChat) return undefined
+    const siblings = getSiblings(currentChat, messageId)
+    if (siblings.length < 2) return undefined
+    return {
+      index: siblings.findIndex(message => message.id === messageId),
+      count: siblings.length,
+      select: (index: number) => switchBranch(currentChat.id, siblings[index].id)
+    }
+  }
+
   const handleChatSelect = (chatId: string) => {
     // Логика выбора чата уже обрабатывается в ChatList
   }
@@ -181,7 +365,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
       <aside 
         className="w-80 border-r hidden lg:block" 
         role="complementary"
-        aria-label="Список чатов"
+        aria-label={t('chatList.list')}
       >
         <ChatList onChatSelect={handleChatSelect} />
       </aside>
@@ -198,35 +382,39 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                     <h1 
                       className="font-semibold text-lg truncate" 
                       id="chat-title"
-                      aria-label={`Чат: ${currentChat.title}`}
+                      aria-label={t('chat.title', { title: currentChat.title })}
                     >
                       {currentChat.title}
                     </h1>
                     <div className="flex items-center space-x-2 text-sm text-muted-foreground flex-wrap">
-                      <span className="hidden sm:inline" aria-label={`Количество сообщений: ${currentChat.messages.length}`}>
-                        {currentChat.messages.length} сообщений
+                      <span className="hidden sm:inline" aria-label={t('chat.messageCountLabel', { count: activePath.length })}>
+                        {t('chat.messageCount', { count: activePath.length })}
                       </span>
                       <span className="hidden sm:inline">•</span>
-                      <div className={cn(
-                        "flex items-center space-x-1",
-                        currentChat.mode === 'fast' && "text-green-600",
-                        currentChat.mode === 'deep' && "text-blue-600"
-                      )}>
+                      <div className={cn("flex items-center space-x-1", MODE_COLORS[currentChat.mode].text)}>
                         <span 
-                          className={cn(
-                            "w-2 h-2 rounded-full",
-                            currentChat.mode === 'fast' && "bg-green-500",
-                            currentChat.mode === 'deep' && "bg-blue-500"
-                          )}
+                          className={cn("w-2 h-2 rounded-full", MODE_COLORS[currentChat.mode].dot)}
                           aria-hidden="true"
                         />
                         <span className="hidden sm:inline">
-                          {currentChat.mode === 'fast' ? 'Быстрый режим' : 'Глубокий анализ'}
+                          {t(`mode.${currentChat.mode}.full` as const)}
                         </span>
                         <span className="sm:hidden">
-                          {currentChat.mode === 'fast' ? 'Быстрый' : 'Глубокий'}
+                          {t(`mode.${currentChat.mode}.short` as const)}
                         </span>
                       </div>
+                      {activePrompt && (
+                        <>
+                          <span className="hidden sm:inline">•</span>
+                          <span className="hidden sm:inline truncate max-w-[12rem]" title={activePrompt.content}>📚 {activePrompt.name}</span>
+                        </>
+                      )}
+                      {currentChat.persona && (
+                        <>
+                          <span className="hidden sm:inline">•</span>
+                          <span className="hidden sm:inline">{t(`persona.${currentChat.persona}` as const)}</span>
+                        </>
+                      )}
                       <span className="hidden sm:inline">•</span>
                       <APIStatus isLoading={isLoading} hasError={!!error} />
                     </div>
@@ -234,10 +422,42 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                   
                   {/* Дополнительные действия */}
                   <div className="flex items-center space-x-2">
+                    <ModelPicker
+                      value={currentChat.modelPreference}
+                      onChange={(preference) => setChatModelPreference(currentChat.id, preference)}
+                      disabled={isLoading}
+                      className="hidden sm:block"
+                    />
+                    <button
+                      onClick={() => setShowPrompts(!showPrompts)}
+                      className={cn(
+                        "p-2 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                        showPrompts && "bg-accent text-foreground"
+                      )}
+                      aria-label={t('prompts.title')}
+                      aria-expanded={showPrompts}
+                      title={t('prompts.title')}
+                    >
+                      📚
+                    </button>
+                    {currentChat.summary && (
+                      <button
+                        onClick={() => setShowSummary(!showSummary)}
+                        className={cn(
+                          "p-2 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                          showSummary && "bg-accent text-foreground"
+                        )}
+                        aria-label={t('summary.title')}
+                        aria-expanded={showSummary}
+                        title={t('summary.title')}
+                      >
+                        📝
+                      </button>
+                    )}
                     {/* Кнопка меню для мобильных устройств */}
                     <button 
                       className="lg:hidden p-2 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                      aria-label="Открыть меню навигации"
+                      aria-label={t('chat.openMenu')}
                       aria-expanded="false"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -246,7 +466,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                     </button>
                     <button 
                       className="p-2 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                      aria-label="Дополнительные опции чата"
+                      aria-label={t('chat.moreOptions')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
@@ -257,41 +477,87 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
               </div>
             </header>
 
+            {showPrompts && (
+              <PromptLibraryPanel
+                chatId={currentChat.id}
+                activePromptId={activePrompt?.id}
+                onClose={() => setShowPrompts(false)}
+                disabled={isLoading}
+              />
+            )}
+
+            {showSummary && currentChat.summary && (
+              <ChatSummaryPanel
+                key={currentChat.id}
+                summary={currentChat.summary}
+                onChange={(summary) => {
+                  setChatSummary(currentChat.id, summary)
+                  if (!summary) setShowSummary(false)
+                }}
+                onClose={() => setShowSummary(false)}
+                disabled={isLoading}
+              />
+            )}
+
             {/* Область сообщений */}
             <main 
               className="flex-1 overflow-y-auto custom-scrollbar"
               role="log"
               aria-live="polite"
-              aria-label="История сообщений чата"
+              aria-label={t('chat.history')}
               aria-describedby="chat-title"
             >
               <div className="px-4 py-6 space-y-6 sm:px-6 max-w-4xl mx-auto">
-                {currentChat.messages.length === 0 ? (
+                {activePath.length === 0 ? (
                   <div className="text-center text-muted-foreground py-12">
                     <div className="mb-4">
                       <svg className="w-12 h-12 mx-auto opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                       </svg>
                     </div>
-                    <h3 className="text-lg font-medium mb-2">Начните новый разговор</h3>
-                    <p className="text-sm">Задайте вопрос или поделитесь своими мыслями</p>
+                    <h3 className="text-lg font-medium mb-2">{t('chat.emptyTitle')}</h3>
+                    <p className="text-sm">{t('chat.emptyHint')}</p>
                   </div>
                 ) : (
-                  currentChat.messages
+                  activePath
                     .filter(message => !message.isLoading) // Фильтруем индикаторы загрузки
                     .map((message, index) => (
-                      <ChatMessage
-                        key={message.id}
-                        message={message}
-                        showThinking={currentChat.mode === 'deep'}
-                        aria-label={`${message.role === 'user' ? 'Ваше' : 'ИИ'} сообщение ${index + 1} из ${currentChat.messages.length}`}
-                      />
+                      // Регенерируемый ответ показываем потоком на его месте
+                      message.id === streamingMessage?.id ? (
+                        <ChatMessage
+                          key={message.id}
+                          message={streamingMessage}
+                          showThinking={false}
+                          isStreaming
+                        />
+                      ) : (
+                        <ChatMessage
+                          key={message.id}
+                          message={message}
+                          showThinking
+                          onRegenerate={isLoading ? undefined : (mode) => handleRegenerate(message.id, mode)}
+                          onSelectVariant={(variant) => setActiveVariant(currentChat.id, message.id, variant)}
+                          onEdit={isLoading ? undefined : (content) => handleEditMessage(message.id, content)}
+                          branch={getBranchInfo(message.id)}
+                          branchSwitchDisabled={isLoading}
+                          aria-label={t(message.role === 'user' ? 'chat.userMessageLabel' : 'chat.assistantMessageLabel', { index: index + 1, count: activePath.length })}
+                        />
+                      )
                     ))
                 )}
                 
+                {/* Ответ, который генерируется в данный момент */}
+                {streamingMessage?.id === 'streaming' && streamingMessage.content && (
+                  <ChatMessage
+                    message={streamingMessage}
+                    showThinking={false}
+                    isStreaming
+                  />
+                )}
+                
                 {/* Индикатор печати */}
-                {isLoading && (
-                  <div className="chat-message assistant" role="status" aria-live="polite" aria-label="ИИ-ассистент печатает ответ">
+                {isLoading && streamingMessage?.id === 'streaming' && !streamingMessage.content && (
+                  <div className="chat-message assistant" role="status" aria-live="polite" aria-label={t('chat.typing')}>
                     <div className="flex items-center space-x-3">
                       <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center text-sm font-medium">
                         AI
@@ -302,7 +568,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                           <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                           <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                         </div>
-                        <span className="text-muted-foreground">Komair думает...</span>
+                        <span className="text-muted-foreground">{t('chat.thinking')}</span>
                       </div>
                     </div>
                   </div>
@@ -315,7 +581,9 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
             {/* Поле ввода */}
             <MessageInput 
               onSendMessage={handleSendMessage}
+              onStop={handleStopGeneration}
               disabled={isLoading}
+              chat={currentChat}
             />
           </>
         ) : (
@@ -328,33 +596,33 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                   </svg>
                 </div>
-                <h2 className="text-xl sm:text-2xl font-bold mb-2">Добро пожаловать в Komair</h2>
+                <h2 className="text-xl sm:text-2xl font-bold mb-2">{t('chat.welcomeTitle')}</h2>
                 <p className="text-muted-foreground mb-6 text-sm sm:text-base">
-                  Умный ИИ-ассистент с возможностями быстрых диалогов и глубокого анализа
+                  {t('chat.welcomeText')}
                 </p>
               </div>
               
               <div className="space-y-3 text-sm text-muted-foreground">
                 <div className="flex items-center justify-center sm:justify-start space-x-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></span>
-                  <span>Быстрый режим для мгновенных ответов</span>
+                  <span>{t('chat.featureFast')}</span>
                 </div>
                 <div className="flex items-center justify-center sm:justify-start space-x-2">
                   <span className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0"></span>
-                  <span>Глубокий анализ для сложных задач</span>
+                  <span>{t('chat.featureDeep')}</span>
                 </div>
                 <div className="flex items-center justify-center sm:justify-start space-x-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full flex-shrink-0"></span>
-                  <span>История и поиск по всем чатам</span>
+                  <span>{t('chat.featureHistory')}</span>
                 </div>
               </div>
               
               <button
                 onClick={handleNewChat}
                 className="mt-6 w-full sm:w-auto px-6 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                aria-label="Создать новый чат для начала разговора"
+                aria-label={t('chat.startLabel')}
               >
-                Начать новый чат
+                {t('chat.start')}
               </button>
             </div>
           </div>
@@ -4,9 +4,15 @@ import React, { useState, useEffect } from 'react'
 import { useChatStore, useChatStats } from '@/lib/store'
 import { ConnectionStatus } from '@/components/ui/StatusIndicator'
 import { useFeedback } from '@/hooks/useFeedback'
+import { useTranslation } from '@/hooks/useTranslation'
 import { cn, formatDate } from '@/lib/utils'
 import { Chat } from '@/lib/types'
+import { getActiveLeafId } from '@/lib/message-tree'
+import { MODE_COLORS } from '@/lib/chat-modes'
+import { LOCALES } from '@/lib/i18n'
 import { ThemeToggle } from '@/components/ui/ThemeToggle'
+import { LanguageToggle } from '@/components/ui/LanguageToggle'
+import { LogoutButton } from '@/components/auth/LogoutButton'
 
 interface ChatListProps {
   onChatSelect?: (chatId: string) => void
@@ -31,6 +37,7 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
   const filteredChats = getFilteredChats()
   const stats = useChatStats()
   const { showSuccess, showError, handleAction } = useFeedback()
+  const { t } = useTranslation()
 
   // Обеспечиваем корректную гидратацию
   useEffect(() => {
@@ -51,8 +58,8 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
         return chatId
       },
       {
-        successMessage: 'Новый чат создан',
-        errorMessage: 'Не удалось создать новый чат'
+        successMessage: t('chatList.created'),
+        errorMessage: t('chatList.createFailed')
       }
     )
   }
@@ -65,11 +72,11 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
           const chat = chats.find(c => c.id === chatId)
           deleteChat(chatId)
           setShowDeleteConfirm(null)
-          return chat?.title || 'Чат'
+          return chat?.title
         },
         {
-          successMessage: 'Чат успешно удалён',
-          errorMessage: 'Не удалось удалить чат'
+          successMessage: t('chatList.deleted'),
+          errorMessage: t('chatList.deleteFailed')
         }
       )
     } else {
@@ -83,18 +90,20 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
   }
 
   return (
-    <div className={cn("flex flex-col h-full bg-muted/50", className)} role="navigation" aria-label="Навигация по чатам">
+    <div className={cn("flex flex-col h-full bg-muted/50", className)} role="navigation" aria-label={t('chatList.navigation')}>
       {/* Заголовок и статистика */}
       <header className="p-3 sm:p-4 border-b">
         <div className="flex items-center justify-between mb-3">
           <h2 className="font-semibold text-lg">Komair</h2>
           <div className="flex items-center space-x-1 sm:space-x-2">
             <ThemeToggle />
+            <LanguageToggle />
+            <LogoutButton />
             <button
               onClick={handleNewChat}
               className="p-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-              title="Новый чат"
-              aria-label="Создать новый чат"
+              title={t('chatList.newChat')}
+              aria-label={t('chatList.createChat')}
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -103,14 +112,14 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
           </div>
         </div>
         
-        <div className="text-xs text-muted-foreground space-y-1 hidden sm:block" aria-label="Статистика">
+        <div className="text-xs text-muted-foreground space-y-1 hidden sm:block" aria-label={t('chatList.stats')}>
           {isHydrated ? (
             <>
-              <div>Чатов: {stats.totalChats}</div>
-              <div>Сообщений: {stats.totalMessages}</div>
+              <div>{t('chatList.chatCount', { count: stats.totalChats })}</div>
+              <div>{t('chatList.messageCount', { count: stats.totalMessages })}</div>
             </>
           ) : (
-            <div>Загрузка...</div>
+            <div>{t('chatList.loading')}</div>
           )}
           <ConnectionStatus className="mt-1" />
         </div>
@@ -119,7 +128,7 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
       {/* Поиск */}
       <div className="p-3 sm:p-4 border-b">
         <div className="relative">
-          <label htmlFor="chat-search" className="sr-only">Поиск по чатам</label>
+          <label htmlFor="chat-search" className="sr-only">{t('chatList.searchLabel')}</label>
           <svg 
             className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground"
             fill="none" 
@@ -132,27 +141,27 @@ export function ChatList({ onChatSelect, className }: ChatListProps) {
           <input
             id="chat-search"
             type="text"
-            placeholder="Поиск чатов..."
+            placeholder={t('chatList.searchPlaceholder')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full pl-10 pr-4 py-2 text-sm border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
             aria-describedby="search-description"
           />
           <div id="search-description" className="sr-only">
-            Введите текст для поиска по названиям чатов и сообщениям
+            {t('chatList.searchDescription')}
           </div>
         </div>
       </div>
 
       {/* Список чатов */}
-      <div className="flex-1 overflow-y-auto custom-scrollbar" role="list" aria-label="Список чатов">
+      <div className="flex-1 overflow-y-auto custom-scrollbar" role="list" aria-label={t('chatList.list')}>
         {!isHydrated ? (
           <div className="p-3 sm:p-4 text-center text-muted-foreground" role="status">
-            Загрузка чатов...
+            {t('chatList.loadingChats')}
           </div>
         ) : filteredChats.length === 0 ? (
           <div className="p-3 sm:p-4 text-center text-muted-foreground" role="status">
-            {searchQuery ? 'Чаты не найдены' : 'Нет чатов'}
+            {searchQuery ? t('chatList.notFound') : t('chatList.empty')}
           </div>
         ) : (
           <div className="space-y-1 p-1 sm:p-2">
@@ -191,7 +200,10 @@ function ChatItem({
   onDelete, 
   onCancelDelete 
 }: ChatItemProps) {
-  const lastMessage = chat.messages[chat.messages.length - 1]
+  // Последнее сообщение активной ветки
+  const activeLeafId = getActiveLeafId(chat)
+  const lastMessage = chat.messages.find(message => message.id === activeLeafId)
+  const { t, language } = useTranslation()
   
   return (
     <div
@@ -209,7 +221,7 @@ function ChatItem({
           "w-full text-left focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-md",
           "focus:ring-offset-background"
         )}
-        aria-label={`Открыть чат: ${chat.title}`}
+        aria-label={t('chatList.open', { title: chat.title })}
         aria-current={isActive ? "page" : undefined}
       >
         <div className="flex items-start justify-between">
@@ -218,19 +230,15 @@ function ChatItem({
             <div className="flex items-center space-x-2 mb-1">
               <h3 className="font-medium text-sm truncate flex-1">{chat.title}</h3>
               <span 
-                className={cn(
-                  "flex-shrink-0 w-2 h-2 rounded-full",
-                  chat.mode === 'fast' && "bg-green-500",
-                  chat.mode === 'deep' && "bg-blue-500"
-                )}
-                aria-label={`Режим: ${chat.mode === 'fast' ? 'быстрый' : 'глубокий'}`}
+                className={cn("flex-shrink-0 w-2 h-2 rounded-full", MODE_COLORS[chat.mode].dot)}
+                aria-label={t('chatList.mode', { mode: t(`mode.${chat.mode}.short` as const).toLowerCase() })}
               />
             </div>
             
             {/* Последнее сообщение */}
             {lastMessage && (
               <p className="text-xs text-muted-foreground truncate">
-                <span className="hidden sm:inline">{lastMessage.role === 'user' ? 'Вы: ' : 'AI: '}</span>
+                <span className="hidden sm:inline">{lastMessage.role === 'user' ? t('chatList.fromUser') : t('chatList.fromAssistant')} </span>
                 {lastMessage.content}
               </p>
             )}
@@ -257,7 +265,7 @@ function ChatItem({
             {/* Время */}
             <div className="text-xs text-muted-foreground mt-1">
               <time dateTime={new Date(chat.updatedAt).toISOString()}>
-                {formatDate(new Date(chat.updatedAt))}
+                {formatDate(new Date(chat.updatedAt), LOCALES[language])}
               </time>
             </div>
           </div>
@@ -271,14 +279,14 @@ function ChatItem({
             <button
               onClick={onDelete}
               className="p-1 text-xs bg-destructive text-destructive-foreground rounded hover:bg-destructive/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-              aria-label="Подтвердить удаление чата"
+              aria-label={t('chatList.confirmDelete')}
             >
               ✓
             </button>
             <button
               onClick={onCancelDelete}
               className="p-1 text-xs bg-muted text-muted-foreground rounded hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-              aria-label="Отменить удаление"
+              aria-label={t('chatList.cancelDelete')}
             >
               ✕
             </button>
@@ -287,7 +295,7 @@ function ChatItem({
           <button
             onClick={onDelete}
             className="opacity-0 group-hover:opacity-100 sm:opacity-0 p-1 text-muted-foreground hover:text-destructive transition-opacity flex-shrink-0 focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded"
-            aria-label={`Удалить чат: ${chat.title}`}
+            aria-label={t('chatList.delete', { title: chat.title })}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
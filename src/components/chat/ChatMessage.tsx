@@ -1,24 +1,80 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Message } from '@/lib/types'
+import { ChatMode, Message } from '@/lib/types'
+import { CHAT_MODES, MODE_COLORS } from '@/lib/chat-modes'
+import { useTranslation } from '@/hooks/useTranslation'
+import { LOCALES } from '@/lib/i18n'
 import { cn, formatDate } from '@/lib/utils'
+import { MarkdownContent } from './MarkdownContent'
 
 interface ChatMessageProps {
   message: Message
   showTimestamp?: boolean
   showThinking?: boolean
+  isStreaming?: boolean // Ответ ещё генерируется
+  onRegenerate?: (mode?: ChatMode) => void // Без режима — в режиме исходного ответа
+  onSelectVariant?: (index: number) => void
+  onEdit?: (content: string) => void // Правка сообщения пользователя (новая ветка)
+  branch?: { index: number; count: number; select: (index: number) => void } // Ветки на этом месте диалога
+  branchSwitchDisabled?: boolean
+}
+
+interface VersionSwitcherProps {
+  index: number
+  count: number
+  onSelect: (index: number) => void
+  disabled?: boolean
+  label: string
+}
+
+// Переключатель версий «‹ 2/3 ›»
+function VersionSwitcher({ index, count, onSelect, disabled = false, label }: VersionSwitcherProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex items-center space-x-1 text-xs text-muted-foreground" role="group" aria-label={label}>
+      <button
+        className="px-1 hover:text-foreground disabled:opacity-40 transition-colors"
+        onClick={() => onSelect(index - 1)}
+        disabled={disabled || index <= 0}
+        aria-label={t('message.previousVersion')}
+      >
+        ‹
+      </button>
+      <span aria-live="polite">{index + 1}/{count}</span>
+      <button
+        className="px-1 hover:text-foreground disabled:opacity-40 transition-colors"
+        onClick={() => onSelect(index + 1)}
+        disabled={disabled || index >= count - 1}
+        aria-label={t('message.nextVersion')}
+      >
+        ›
+      </button>
+    </div>
+  )
 }
 
 export function ChatMessage({ 
   message, 
   showTimestamp = true,
-  showThinking = false 
+  showThinking = false,
+  isStreaming = false,
+  onRegenerate,
+  onSelectVariant,
+  onEdit,
+  branch,
+  branchSwitchDisabled = false
 }: ChatMessageProps) {
+  const { t, language } = useTranslation()
   const [isThinkingExpanded, setIsThinkingExpanded] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
   const isUser = message.role === 'user'
   const isAssistant = message.role === 'assistant'
   const isSystem = message.role === 'system'
+  const variantCount = message.variants?.length || 0
+  const activeVariant = message.activeVariant ?? variantCount - 1
+  const otherModes = CHAT_MODES.filter(mode => mode !== (message.mode || 'fast'))
 
   return (
     <div className={cn(
@@ -35,7 +91,7 @@ export function ChatMessage({
           isAssistant && "bg-muted text-muted-foreground",
           isSystem && "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300"
         )}>
-          {isUser && "Вы"}
+          {isUser && t('message.you')}
           {isAssistant && "AI"}
           {isSystem && "⚙️"}
         </div>
@@ -44,30 +100,33 @@ export function ChatMessage({
           {/* Заголовок сообщения */}
           <div className="flex items-center space-x-2 mb-1">
             <span className="font-medium text-sm">
-              {isUser && "Вы"}
+              {isUser && t('message.you')}
               {isAssistant && "Komair"}
-              {isSystem && "Система"}
+              {isSystem && t('message.system')}
             </span>
             
             {message.mode && (
-              <span className={cn(
-                "px-2 py-0.5 text-xs rounded-full",
-                message.mode === 'fast' && "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
-                message.mode === 'deep' && "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300"
-              )}>
-                {message.mode === 'fast' ? 'Быстрый ответ' : 'Глубокий анализ'}
+              <span className={cn("px-2 py-0.5 text-xs rounded-full", MODE_COLORS[message.mode].badge)}>
+                {t(`mode.${message.mode}.full` as const)}
+              </span>
+            )}
+
+            {isUser && message.persona && (
+              <span className="px-2 py-0.5 text-xs rounded-full bg-muted text-muted-foreground">
+                {t(`persona.${message.persona}` as const)}
+                {message.style === 'formal' && ` • ${t('message.formal')}`}
               </span>
             )}
             
             {showTimestamp && (
               <span className="text-xs text-muted-foreground">
-                {formatDate(message.timestamp)}
+                {formatDate(message.timestamp, LOCALES[language])}
               </span>
             )}
           </div>
 
-          {/* Процесс мышления (для глубокого анализа) */}
-          {message.thinking && showThinking && (
+          {/* Рассуждения модели или план ответа (для глубокого анализа) */}
+          {message.thinking && message.thinkingSource && showThinking && (
             <div className="mb-3">
               <button
                 onClick={() => setIsThinkingExpanded(!isThinkingExpanded)}
@@ -79,7 +138,7 @@ export function ChatMessage({
                 )}>
                   ▶
                 </span>
-                <span>Процесс мышления</span>
+                <span>{t(message.thinkingSource === 'plan' ? 'message.plan' : 'message.reasoning')}</span>
               </button>
               
               {isThinkingExpanded && (
@@ -92,6 +151,13 @@ export function ChatMessage({
             </div>
           )}
 
+          {/* Модель ответила без рассуждений — не подменяем их шаблоном */}
+          {isAssistant && showThinking && message.mode === 'deep' && message.model && !message.thinkingSource && !isStreaming && (
+            <div className="mb-3 text-xs italic text-muted-foreground" role="note">
+              {t('message.noReasoning')}
+            </div>
+          )}
+
           {/* Основное содержимое */}
           <div className="prose prose-sm max-w-none dark:prose-invert">
             {message.isLoading ? (
@@ -101,32 +167,145 @@ export function ChatMessage({
                   <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                   <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                 </div>
-                <span className="text-muted-foreground">Печатает...</span>
+                <span className="text-muted-foreground">{t('message.typing')}</span>
               </div>
+            ) : isEditing && onEdit ? (
+              <form
+                className="not-prose space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  setIsEditing(false)
+                  onEdit(draft)
+                }}
+              >
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setIsEditing(false)
+                  }}
+                  className="w-full min-h-[80px] resize-y rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  aria-label={t('message.editLabel')}
+                  maxLength={2000}
+                  autoFocus
+                />
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="submit"
+                    disabled={!draft.trim() || draft.trim() === message.content}
+                    className="px-3 py-1 text-xs rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    {t('message.send')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(false)}
+                    className="px-3 py-1 text-xs rounded-md border border-border hover:bg-accent"
+                  >
+                    {t('message.cancel')}
+                  </button>
+                </div>
+              </form>
             ) : (
-              <div className="whitespace-pre-wrap break-words">
-                {message.content}
+              <div className={cn("break-words", !isAssistant && "whitespace-pre-wrap")}>
+                {isAssistant ? <MarkdownContent content={message.content} /> : message.content}
+                {isStreaming && (
+                  <span
+                    className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse"
+                    aria-hidden="true"
+                  />
+                )}
               </div>
             )}
           </div>
 
+          {/* Модель, которая дала ответ */}
+          {isAssistant && message.model && !isStreaming && (
+            <div className="mt-1 text-xs text-muted-foreground">
+              {message.model}
+            </div>
+          )}
+
+          {/* Начало разговора не поместилось в окно модели */}
+          {isAssistant && !!message.droppedContext && !isStreaming && (
+            <div className="mt-1 text-xs italic text-muted-foreground" role="note">
+              {t('message.droppedContext', { count: message.droppedContext })}
+            </div>
+          )}
+
+          {/* Генерация остановлена пользователем */}
+          {message.status && (
+            <div className="mt-1 text-xs italic text-muted-foreground" role="note">
+              {t(message.status === 'partial' ? 'message.stoppedPartial' : 'message.stoppedEmpty')}
+            </div>
+          )}
+
           {/* Действия с сообщением */}
-          <div className="opacity-0 group-hover:opacity-100 transition-opacity mt-2">
-            <div className="flex items-center space-x-2">
-              <button
-                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-                onClick={() => navigator.clipboard?.writeText(message.content)}
-              >
-                Копировать
-              </button>
-              
-              {isAssistant && (
-                <button className="text-xs text-muted-foreground hover:text-foreground transition-colors">
-                  Повторить
-                </button>
+          {!isStreaming && !isEditing && (
+            <div className="flex items-center space-x-3 mt-2">
+              {/* Переключение веток диалога */}
+              {branch && (
+                <VersionSwitcher
+                  index={branch.index}
+                  count={branch.count}
+                  onSelect={branch.select}
+                  disabled={branchSwitchDisabled}
+                  label={t('message.branches')}
+                />
               )}
+
+              {/* Переключение версий ответа */}
+              {variantCount > 1 && onSelectVariant && (
+                <VersionSwitcher
+                  index={activeVariant}
+                  count={variantCount}
+                  onSelect={onSelectVariant}
+                  label={t('message.variants')}
+                />
+              )}
+
+              <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  onClick={() => navigator.clipboard?.writeText(message.content)}
+                >
+                  {t('message.copy')}
+                </button>
+
+                {isUser && onEdit && (
+                  <button
+                    className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                    onClick={() => {
+                      setDraft(message.content)
+                      setIsEditing(true)
+                    }}
+                  >
+                    {t('message.edit')}
+                  </button>
+                )}
+              
+                {isAssistant && onRegenerate && (
+                  <>
+                    <button
+                      className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                      onClick={() => onRegenerate()}
+                    >
+                      {t('message.regenerate')}
+                    </button>
+                    {otherModes.map(mode => (
+                      <button
+                        key={mode}
+                        className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                        onClick={() => onRegenerate(mode)}
+                      >
+                        {t(`message.regenerate.${mode}` as const)}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,116 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+import { MAX_SUMMARY_LENGTH } from '@/lib/chat-merge'
+import { LOCALES } from '@/lib/i18n'
+import type { ChatSummary } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface ChatSummaryPanelProps {
+  summary: ChatSummary
+  onChange: (summary: ChatSummary | null) => void // null — удалить краткое содержание
+  onClose: () => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Краткое содержание начала чата: его видит модель вместо ранних сообщений.
+ * Пользователь может поправить текст или удалить его — тогда история уйдёт целиком
+ */
+export function ChatSummaryPanel({ summary, onChange, onClose, disabled = false, className }: ChatSummaryPanelProps) {
+  const { t, language } = useTranslation()
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(summary.content)
+
+  const startEditing = () => {
+    setDraft(summary.content)
+    setIsEditing(true)
+  }
+
+  return (
+    <section
+      className={cn("border-b bg-muted/40 px-4 py-3 sm:px-6", className)}
+      aria-label={t('summary.title')}
+    >
+      <div className="max-w-4xl mx-auto space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium">
+            📝 {t('summary.title')}
+            {summary.edited && <span className="ml-2 text-xs text-muted-foreground">{t('summary.edited')}</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent"
+            aria-label={t('summary.hide')}
+          >
+            ✕
+          </button>
+        </div>
+
+        {isEditing ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setIsEditing(false)
+              onChange({ ...summary, content: draft.trim(), updatedAt: new Date(), edited: true })
+            }}
+          >
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_SUMMARY_LENGTH}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setIsEditing(false)
+              }}
+              className="w-full min-h-[120px] resize-y rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              aria-label={t('summary.editLabel')}
+              autoFocus
+            />
+            <div className="flex items-center space-x-2">
+              <button
+                type="submit"
+                disabled={!draft.trim() || draft.trim() === summary.content}
+                className="px-3 py-1 text-xs rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                {t('summary.save')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 text-xs rounded-md border border-border hover:bg-accent"
+              >
+                {t('summary.cancel')}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <p className="whitespace-pre-wrap text-muted-foreground">{summary.content}</p>
+            <p className="text-xs text-muted-foreground">
+              {t('summary.note', { date: summary.updatedAt.toLocaleString(LOCALES[language]) })}
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={startEditing}
+                disabled={disabled}
+                className="px-3 py-1 text-xs rounded-md border border-border hover:bg-accent disabled:opacity-50"
+              >
+                {t('summary.edit')}
+              </button>
+              <button
+                onClick={() => onChange(null)}
+                disabled={disabled}
+                className="px-3 py-1 text-xs rounded-md border border-border hover:bg-accent disabled:opacity-50"
+              >
+                {t('summary.delete')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import React, { useState } from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import { useTranslation } from '@/hooks/useTranslation'
+import { cn } from '@/lib/utils'
+
+interface MarkdownContentProps {
+  content: string
+  className?: string
+}
+
+// Узел HAST — только то, что нужно для разбора блока кода
+interface HastNode {
+  type: string
+  value?: string
+  properties?: { className?: unknown }
+  children?: HastNode[]
+}
+
+// Сырой HTML из ответа отбрасывается (rehype-raw не подключаем), а атрибуты
+// ограничены схемой GitHub; дополнительно разрешаем классы языка и формул
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code || []),
+      ['className', /^language-./, 'math-inline', 'math-display']
+    ]
+  }
+}
+
+// Порядок важен: сначала чистим разметку модели, затем добавляем
+// собственную разметку KaTeX и подсветки
+const remarkPlugins = [remarkGfm, remarkMath]
+const rehypePlugins = [
+  [rehypeSanitize, sanitizeSchema],
+  rehypeKatex,
+  [rehypeHighlight, { detect: false }]
+] as NonNullable<React.ComponentProps<typeof ReactMarkdown>['rehypePlugins']>
+
+function getText(node?: HastNode): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value || ''
+  return (node.children || []).map(getText).join('')
+}
+
+function getLanguage(node?: HastNode): string | undefined {
+  const code = node?.children?.find(child => child.type === 'element')
+  const classes = Array.isArray(code?.properties?.className) ? code.properties.className : []
+  const language = classes.find(
+    (name): name is string => typeof name === 'string' && name.startsWith('language-')
+  )
+  return language?.slice('language-'.length)
+}
+
+// Блок кода с подписью языка и кнопкой копирования
+function CodeBlock({ node, children }: { node?: HastNode; children?: React.ReactNode }) {
+  const { t } = useTranslation()
+  const [copied, setCopied] = useState(false)
+  const language = getLanguage(node)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getText(node).replace(/\n$/, ''))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Буфер обмена недоступен (нет HTTPS или разрешения)
+    }
+  }
+
+  return (
+    <div className="markdown-code">
+      <div className="markdown-code-header">
+        <span>{language || t('code.language')}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="hover:text-foreground transition-colors"
+          aria-label={t('code.copyLabel')}
+        >
+          {t(copied ? 'code.copied' : 'code.copy')}
+        </button>
+      </div>
+      <pre>{children}</pre>
+    </div>
+  )
+}
+
+const components: Components = {
+  pre: ({ node, children }) => <CodeBlock node={node as HastNode | undefined}>{children}</CodeBlock>,
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node: _node, ...props }) => (
+    <div className="markdown-table">
+      <table {...props} />
+    </div>
+  )
+}
+
+/**
+ * Markdown ответа: GFM (таблицы, списки задач), подсветка кода и формулы KaTeX.
+ * Подходит и для частичного текста при потоковой генерации —
+ * незакрытый блок кода или формула просто дорисуются со следующими токенами.
+ */
+export const MarkdownContent = React.memo(function MarkdownContent({ content, className }: MarkdownContentProps) {
+  return (
+    <div className={cn('markdown', className)}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+})
@@ -2,25 +2,55 @@
 
 import React, { useState, useRef, useEffect } from 'react'
 import { useChatStore } from '@/lib/store'
+import { CHAT_MODES, MODE_COLORS, PERSONAS, RESPONSE_STYLES } from '@/lib/chat-modes'
+import { LANGUAGE_NAMES, LANGUAGES } from '@/lib/i18n'
+import type { Chat, ChatMode, Language, Persona, ResponseStyle } from '@/lib/types'
+import { useTranslation } from '@/hooks/useTranslation'
 import { cn } from '@/lib/utils'
 
 interface MessageInputProps {
-  onSendMessage?: (content: string, mode: 'fast' | 'deep') => void
+  onSendMessage?: (content: string, mode: ChatMode, persona?: Persona, style?: ResponseStyle, language?: Language) => void
+  onStop?: () => void // Остановить генерацию ответа
   disabled?: boolean
-  placeholder?: string
+  placeholder?: string // По умолчанию — подсказка на языке интерфейса
+  chat?: Pick<Chat, 'id' | 'mode' | 'persona' | 'style' | 'language' | 'promptId'> // Открытый чат: с его режимом, ролью, тоном и языком начинается ввод
 }
 
+const MAX_LENGTH = 2000
+
+const selectClassName = cn(
+  "h-8 rounded-full border border-border bg-background px-3 text-sm",
+  "disabled:opacity-50 disabled:cursor-not-allowed",
+  "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+)
+
 export function MessageInput({ 
   onSendMessage,
+  onStop,
   disabled = false,
-  placeholder = "Напишите сообщение..."
+  placeholder,
+  chat
 }: MessageInputProps) {
+  const { t } = useTranslation()
   const [message, setMessage] = useState('')
-  const [mode, setMode] = useState<'fast' | 'deep'>('fast')
+  const [mode, setMode] = useState<ChatMode>('fast')
+  const [persona, setPersona] = useState<Persona | undefined>()
+  const [style, setStyle] = useState<ResponseStyle>('casual')
+  const [language, setLanguage] = useState<Language | undefined>() // Не задан — язык вопроса
   const [isFocused, setIsFocused] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const { isLoading } = useChatStore()
 
+  // При переходе в другой чат — его режим, роль, тон и язык; при подключении промпта — режим промпта
+  useEffect(() => {
+    if (chat) {
+      setMode(chat.mode)
+      setPersona(chat.persona)
+      setStyle(chat.style || 'casual')
+      setLanguage(chat.language)
+    }
+  }, [chat?.id, chat?.promptId])
+
   // Автоматическое изменение высоты текстового поля
   useEffect(() => {
     const textarea = textareaRef.current
@@ -35,7 +65,8 @@ export function MessageInput({
     
     if (!message.trim() || disabled || isLoading) return
     
-    onSendMessage?.(message.trim(), mode)
+    // Неформальный тон — по умолчанию, его не передаём
+    onSendMessage?.(message.trim(), mode, persona, style === 'formal' ? style : undefined, language)
     setMessage('')
     
     // Сброс высоты после отправки
@@ -52,7 +83,7 @@ export function MessageInput({
   }
 
   const handleModeToggle = () => {
-    setMode(mode === 'fast' ? 'deep' : 'fast')
+    setMode(CHAT_MODES[(CHAT_MODES.indexOf(mode) + 1) % CHAT_MODES.length])
   }
 
   const isDisabled = disabled || isLoading
@@ -61,9 +92,9 @@ export function MessageInput({
     <div className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="px-4 py-4 sm:px-6">
         <form onSubmit={handleSubmit} className="space-y-3">
-          {/* Переключатель режимов */}
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-muted-foreground hidden sm:inline" id="mode-label">Режим:</span>
+          {/* Переключатель режимов, роль и тон */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground hidden sm:inline" id="mode-label">{t('input.modeLabel')}</span>
             <button
               type="button"
               onClick={handleModeToggle}
@@ -73,33 +104,66 @@ export function MessageInput({
                 "border border-border hover:bg-accent hover:text-accent-foreground",
                 "disabled:opacity-50 disabled:cursor-not-allowed",
                 "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
-                mode === 'fast' && "bg-green-100 text-green-700 border-green-300 dark:bg-green-900 dark:text-green-300 dark:border-green-700",
-                mode === 'deep' && "bg-blue-100 text-blue-700 border-blue-300 dark:bg-blue-900 dark:text-blue-300 dark:border-blue-700"
+                MODE_COLORS[mode].badge
               )}
               aria-describedby="mode-label mode-description"
-              aria-label={`Текущий режим: ${mode === 'fast' ? 'быстрый ответ' : 'глубокий анализ'}. Нажмите для смены`}
+              aria-label={t('input.currentMode', { mode: t(`mode.${mode}.full` as const).toLowerCase() })}
             >
               <span 
-                className={cn(
-                  "w-2 h-2 rounded-full",
-                  mode === 'fast' && "bg-green-500",
-                  mode === 'deep' && "bg-blue-500"
-                )}
+                className={cn("w-2 h-2 rounded-full", MODE_COLORS[mode].dot)}
                 aria-hidden="true"
               />
               <span className="hidden sm:inline">
-                {mode === 'fast' ? 'Быстрый ответ' : 'Глубокий анализ'}
+                {t(`mode.${mode}.full` as const)}
               </span>
               <span className="sm:hidden">
-                {mode === 'fast' ? 'Быстрый' : 'Глубокий'}
+                {t(`mode.${mode}.short` as const)}
               </span>
             </button>
             <div id="mode-description" className="sr-only">
-              {mode === 'fast' 
-                ? 'Быстрый режим для мгновенных ответов'
-                : 'Режим глубокого анализа для сложных задач'
-              }
+              {t(`mode.${mode}.description` as const)}
             </div>
+
+            <select
+              value={persona || ''}
+              onChange={(e) => setPersona((e.target.value || undefined) as Persona | undefined)}
+              disabled={isDisabled}
+              className={selectClassName}
+              aria-label={t('input.persona')}
+              title={t('input.persona')}
+            >
+              <option value="">{t('persona.none')}</option>
+              {PERSONAS.map(value => (
+                <option key={value} value={value}>{t(`persona.${value}` as const)}</option>
+              ))}
+            </select>
+
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as ResponseStyle)}
+              disabled={isDisabled}
+              className={selectClassName}
+              aria-label={t('input.style')}
+              title={t('input.style')}
+            >
+              {RESPONSE_STYLES.map(value => (
+                <option key={value} value={value}>{t(`style.${value}` as const)}</option>
+              ))}
+            </select>
+
+            <select
+              value={language || ''}
+              onChange={(e) => setLanguage((e.target.value || undefined) as Language | undefined)}
+              disabled={isDisabled}
+              className={selectClassName}
+              aria-label={t('language.reply')}
+              title={t('language.reply')}
+            >
+              <option value="">{t('language.replyAuto')}</option>
+              {LANGUAGES.map(value => (
+                <option key={value} value={value}>{LANGUAGE_NAMES[value]}</option>
+              ))}
+            </select>
           </div>
 
           {/* Поле ввода */}
@@ -109,7 +173,7 @@ export function MessageInput({
             isDisabled && "opacity-50"
           )}>
             <label htmlFor="message-input" className="sr-only">
-              Напишите ваше сообщение
+              {t('input.label')}
             </label>
             <textarea
               id="message-input"
@@ -120,7 +184,7 @@ export function MessageInput({
               onFocus={() => setIsFocused(true)}
               onBlur={() => setIsFocused(false)}
               disabled={isDisabled}
-              placeholder={placeholder}
+              placeholder={placeholder || t('input.placeholder')}
               rows={1}
               className={cn(
                 "w-full resize-none border-0 bg-transparent px-4 py-3",
@@ -129,44 +193,63 @@ export function MessageInput({
                 "disabled:cursor-not-allowed"
               )}
               style={{ minHeight: '52px', maxHeight: '200px' }}
-              aria-label="Поле ввода сообщения"
+              aria-label={t('input.field')}
               aria-describedby="input-description character-count"
-              maxLength={2000}
+              maxLength={MAX_LENGTH}
             />
 
-            {/* Кнопка отправки */}
+            {/* Кнопка отправки или остановки генерации */}
             <div className="absolute right-2 bottom-2">
-              <button
-                type="submit"
-                disabled={!message.trim() || isDisabled}
-                className={cn(
-                  "p-2 rounded-md transition-colors",
-                  "bg-primary text-primary-foreground",
-                  "hover:bg-primary/90",
-                  "disabled:opacity-50 disabled:cursor-not-allowed",
-                  "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                )}
-                aria-label={isLoading ? 'Отправка сообщения...' : 'Отправить сообщение'}
-              >
-                {isLoading ? (
-                  <div className="w-4 h-4 animate-spin rounded-full border-2 border-current border-t-transparent" aria-hidden="true" />
-                ) : (
-                  <svg 
-                    className="w-4 h-4" 
-                    fill="none" 
-                    stroke="currentColor" 
-                    viewBox="0 0 24 24"
-                    aria-hidden="true"
-                  >
-                    <path 
-                      strokeLinecap="round" 
-                      strokeLinejoin="round" 
-                      strokeWidth={2} 
-                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" 
-                    />
+              {isLoading && onStop ? (
+                <button
+                  type="button"
+                  onClick={onStop}
+                  className={cn(
+                    "p-2 rounded-md transition-colors",
+                    "bg-destructive text-destructive-foreground",
+                    "hover:bg-destructive/90",
+                    "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  )}
+                  aria-label={t('input.stop')}
+                  title={t('input.stop')}
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <rect x="6" y="6" width="12" height="12" rx="1" />
                   </svg>
-                )}
-              </button>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!message.trim() || isDisabled}
+                  className={cn(
+                    "p-2 rounded-md transition-colors",
+                    "bg-primary text-primary-foreground",
+                    "hover:bg-primary/90",
+                    "disabled:opacity-50 disabled:cursor-not-allowed",
+                    "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  )}
+                  aria-label={isLoading ? t('input.sending') : t('input.send')}
+                >
+                  {isLoading ? (
+                    <div className="w-4 h-4 animate-spin rounded-full border-2 border-current border-t-transparent" aria-hidden="true" />
+                  ) : (
+                    <svg 
+                      className="w-4 h-4" 
+                      fill="none" 
+                      stroke="currentColor" 
+                      viewBox="0 0 24 24"
+                      aria-hidden="true"
+                    >
+                      <path 
+                        strokeLinecap="round" 
+                        strokeLinejoin="round" 
+                        strokeWidth={2} 
+                        d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" 
+                      />
+                    </svg>
+                  )}
+                </button>
+              )}
             </div>
           </div>
 
@@ -174,25 +257,30 @@ export function MessageInput({
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between text-xs text-muted-foreground space-y-2 sm:space-y-0">
             <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 space-y-1 sm:space-y-0">
               <div id="input-description">
-                <span className="hidden sm:inline">Enter для отправки, Shift+Enter для новой строки</span>
-                <span className="sm:hidden">Enter - отправить, Shift+Enter - новая строка</span>
+                <span className="hidden sm:inline">{t('input.hint')}</span>
+                <span className="sm:hidden">{t('input.hintShort')}</span>
               </div>
               {mode === 'deep' && (
                 <div className="text-blue-600 dark:text-blue-400" role="status">
-                  🧠 Режим глубокого анализа включен
+                  {t('input.deepEnabled')}
+                </div>
+              )}
+              {mode === 'creative' && (
+                <div className="text-purple-600 dark:text-purple-400" role="status">
+                  {t('input.creativeEnabled')}
                 </div>
               )}
             </div>
             
             <div className="flex items-center justify-between sm:justify-end space-x-2">
               <div id="character-count" aria-live="polite">
-                <span aria-label={`Количество символов: ${message.length} из 2000`}>
-                  {message.length}/2000
+                <span aria-label={t('input.charCount', { count: message.length, max: MAX_LENGTH })}>
+                  {message.length}/{MAX_LENGTH}
                 </span>
               </div>
-              {message.length > 1800 && (
+              {message.length > MAX_LENGTH * 0.9 && (
                 <div className="text-yellow-600 dark:text-yellow-400" role="alert">
-                  ⚠️ Близко к лимиту
+                  {t('input.nearLimit')}
                 </div>
               )}
             </div>
@@ -0,0 +1,99 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+import { AIService } from '@/lib/ai-service'
+import type { ProviderModelsInfo } from '@/lib/providers/types'
+import type { ModelPreference } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface ModelPickerProps {
+  value?: ModelPreference
+  onChange: (preference: ModelPreference | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Значение option: "провайдер/модель"; пустая модель — модель режима
+const SEPARATOR = '/'
+
+function toOptionValue(preference?: ModelPreference): string {
+  return preference ? `${preference.provider}${SEPARATOR}${preference.model || ''}` : ''
+}
+
+function fromOptionValue(value: string): ModelPreference | null {
+  if (!value) return null
+  const index = value.indexOf(SEPARATOR)
+  const provider = value.slice(0, index)
+  const model = value.slice(index + 1)
+  return model ? { provider, model } : { provider }
+}
+
+function formatContextWindow(tokens?: number): string {
+  if (!tokens) return ''
+  return tokens >= 1024 ? ` · ${Math.round(tokens / 1024)}K` : ` · ${tokens}`
+}
+
+export function ModelPicker({ value, onChange, disabled = false, className }: ModelPickerProps) {
+  const { t } = useTranslation()
+  const [providers, setProviders] = useState<ProviderModelsInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    AIService.getAvailableModels().then(result => {
+      if (!cancelled) {
+        setProviders(result)
+        setIsLoading(false)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const selected = toOptionValue(value)
+  // Сохранённый выбор, которого больше нет на сервере, всё равно показываем
+  const isKnown = !value || providers.some(provider =>
+    provider.name === value.provider &&
+    (!value.model || provider.models.some(model => model.id === value.model))
+  )
+
+  return (
+    <select
+      value={selected}
+      onChange={(e) => onChange(fromOptionValue(e.target.value))}
+      disabled={disabled || isLoading}
+      className={cn(
+        "max-w-[14rem] truncate rounded-md border border-border bg-background px-2 py-1.5 text-sm",
+        "hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+        "disabled:opacity-50 disabled:cursor-not-allowed",
+        className
+      )}
+      aria-label={t('model.label')}
+      title={t('model.title')}
+    >
+      <option value="">{t(isLoading ? 'model.loading' : 'model.auto')}</option>
+      {!isKnown && value && (
+        <option value={selected}>
+          {t('model.unavailableModel', { model: value.model ? `${value.provider}: ${value.model}` : value.provider })}
+        </option>
+      )}
+      {providers.map(provider => (
+        <optgroup
+          key={provider.name}
+          label={provider.available ? provider.displayName : t('model.unavailableProvider', { provider: provider.displayName })}
+        >
+          <option value={toOptionValue({ provider: provider.name })}>
+            {t('model.byMode', { provider: provider.displayName, fast: provider.modes.fast, deep: provider.modes.deep })}
+          </option>
+          {provider.models.map(model => (
+            <option key={model.id} value={toOptionValue({ provider: provider.name, model: model.id })}>
+              {model.id}{formatContextWindow(model.contextWindow)}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { useChatStore } from '@/lib/store'
+import { useFeedback } from '@/hooks/useFeedback'
+import { CHAT_MODES, MODE_COLORS } from '@/lib/chat-modes'
+import { useTranslation } from '@/hooks/useTranslation'
+import { MAX_PROMPT_LENGTH, MAX_PROMPT_NAME_LENGTH, TEMPERATURE_RANGE } from '@/lib/prompt-library'
+import type { ChatMode, CustomPrompt } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface PromptLibraryPanelProps {
+  chatId: string
+  activePromptId?: string
+  onClose: () => void
+  disabled?: boolean
+  className?: string
+}
+
+// Черновик формы: температура — строка поля ввода, пусто — температура режима
+interface PromptDraft {
+  id?: string
+  name: string
+  content: string
+  mode: ChatMode
+  temperature: string
+}
+
+const EMPTY_DRAFT: PromptDraft = { name: '', content: '', mode: 'fast', temperature: '' }
+
+const inputClassName = "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+const buttonClassName = "px-3 py-1 text-xs rounded-md border border-border hover:bg-accent disabled:opacity-50"
+
+function toDraft(prompt: CustomPrompt): PromptDraft {
+  return {
+    id: prompt.id,
+    name: prompt.name,
+    content: prompt.content,
+    mode: prompt.mode,
+    temperature: prompt.temperature !== undefined ? String(prompt.temperature) : ''
+  }
+}
+
+/**
+ * Библиотека системных промптов: свои роли ассистента (ревьюер кода, переводчик и т.п.).
+ * Подключённый к чату промпт заменяет встроенный системный промпт режима
+ */
+export function PromptLibraryPanel({ chatId, activePromptId, onClose, disabled = false, className }: PromptLibraryPanelProps) {
+  const { prompts, savePrompt, deletePrompt, exportPrompts, importPrompts, setChatPrompt } = useChatStore()
+  const { showError, showSuccess, downloadFile } = useFeedback()
+  const { t } = useTranslation()
+  const [draft, setDraft] = useState<PromptDraft | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const temperature = draft?.temperature.trim() ? Number(draft.temperature) : undefined
+  const isTemperatureValid = temperature === undefined ||
+    (!isNaN(temperature) && temperature >= TEMPERATURE_RANGE.min && temperature <= TEMPERATURE_RANGE.max)
+  const canSave = !!draft && !!draft.name.trim() && !!draft.content.trim() && isTemperatureValid
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft || !canSave) return
+
+    const id = savePrompt({ id: draft.id, name: draft.name, content: draft.content, mode: draft.mode, temperature })
+    setDraft(null)
+    showSuccess(t(draft.id ? 'prompts.updated' : 'prompts.saved'))
+    // Изменённый промпт подключённого чата применяется сразу; режим — его новый режим по умолчанию
+    if (id === activePromptId) setChatPrompt(chatId, id)
+  }
+
+  // Удаление со второго нажатия
+  const handleDelete = (prompt: CustomPrompt) => {
+    if (confirmDeleteId !== prompt.id) {
+      setConfirmDeleteId(prompt.id)
+      return
+    }
+    setConfirmDeleteId(null)
+    deletePrompt(prompt.id)
+    if (prompt.id === activePromptId) setChatPrompt(chatId, null)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const count = importPrompts(await file.text())
+      showSuccess(t('prompts.imported', { count }))
+    } catch (error) {
+      showError(t('prompts.importFailed', { error: error instanceof Error ? error.message : t('prompts.unknownError') }))
+    }
+  }
+
+  return (
+    <section
+      className={cn("border-b bg-muted/40 px-4 py-3 sm:px-6", className)}
+      aria-label={t('prompts.title')}
+    >
+      <div className="max-w-4xl mx-auto space-y-3 text-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium">📚 {t('prompts.title')}</h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setDraft(EMPTY_DRAFT)} className={buttonClassName}>
+              {t('prompts.new')}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+              {t('prompts.import')}
+            </button>
+            <button
+              onClick={() => downloadFile(new Blob([exportPrompts()], { type: 'application/json' }), 'komair-prompts.json')}
+              disabled={prompts.length === 0}
+              className={buttonClassName}
+            >
+              {t('prompts.export')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+              aria-hidden="true"
+            />
+            <button
+              onClick={onClose}
+              className="p-1 text-muted-foreground hover:text-foreground rounded-md hover:bg-accent"
+              aria-label={t('prompts.hide')}
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <form className="space-y-2 rounded-md border border-border bg-background p-3" onSubmit={handleSave}>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              maxLength={MAX_PROMPT_NAME_LENGTH}
+              placeholder={t('prompts.namePlaceholder')}
+              className={inputClassName}
+              aria-label={t('prompts.nameLabel')}
+              autoFocus
+            />
+            <textarea
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              maxLength={MAX_PROMPT_LENGTH}
+              placeholder={t('prompts.contentPlaceholder')}
+              className={cn(inputClassName, "min-h-[120px] resize-y")}
+              aria-label={t('prompts.contentLabel')}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={draft.mode}
+                onChange={(e) => setDraft({ ...draft, mode: e.target.value as ChatMode })}
+                className={cn(inputClassName, "w-auto")}
+                aria-label={t('prompts.modeLabel')}
+              >
+                {CHAT_MODES.map(mode => (
+                  <option key={mode} value={mode}>{t(`mode.${mode}.full` as const)}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={draft.temperature}
+                onChange={(e) => setDraft({ ...draft, temperature: e.target.value })}
+                min={TEMPERATURE_RANGE.min}
+                max={TEMPERATURE_RANGE.max}
+                step={0.1}
+                placeholder={t('prompts.temperaturePlaceholder')}
+                className={cn(inputClassName, "w-44", !isTemperatureValid && "border-destructive")}
+                aria-label={t('prompts.temperatureLabel', TEMPERATURE_RANGE)}
+              />
+              <button
+                type="submit"
+                disabled={!canSave}
+                className="px-3 py-1 text-xs rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                {t('prompts.save')}
+              </button>
+              <button type="button" onClick={() => setDraft(null)} className={buttonClassName}>
+                {t('prompts.cancel')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {prompts.length === 0 && !draft ? (
+          <p className="text-muted-foreground">
+            {t('prompts.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {prompts.map(prompt => {
+              const isActive = prompt.id === activePromptId
+              return (
+                <li
+                  key={prompt.id}
+                  className={cn(
+                    "flex items-start justify-between gap-3 rounded-md border border-border bg-background p-2",
+                    isActive && "ring-2 ring-primary"
+                  )}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium truncate">{prompt.name}</span>
+                      <span className={cn("px-2 py-0.5 text-xs rounded-full", MODE_COLORS[prompt.mode].badge)}>
+                        {t(`mode.${prompt.mode}.short` as const)}
+                      </span>
+                      {prompt.temperature !== undefined && (
+                        <span className="text-xs text-muted-foreground">t={prompt.temperature}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{prompt.content}</p>
+                  </div>
+                  <div className="flex flex-shrink-0 items-center space-x-2">
+                    <button
+                      onClick={() => setChatPrompt(chatId, isActive ? null : prompt.id)}
+                      disabled={disabled}
+                      className={buttonClassName}
+                    >
+                      {t(isActive ? 'prompts.disconnect' : 'prompts.connect')}
+                    </button>
+                    <button onClick={() => setDraft(toDraft(prompt))} className={buttonClassName}>
+                      {t('prompts.edit')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(prompt)}
+                      onBlur={() => setConfirmDeleteId(null)}
+                      className={cn(buttonClassName, confirmDeleteId === prompt.id && "text-destructive border-destructive")}
+                      aria-label={t(confirmDeleteId === prompt.id ? 'prompts.confirmDeleteLabel' : 'prompts.deleteLabel', { name: prompt.name })}
+                    >
+                      {t(confirmDeleteId === prompt.id ? 'prompts.confirmDelete' : 'prompts.delete')}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {activePromptId && (
+          <p className="text-xs text-muted-foreground">
+            {t('prompts.activeNote')}
+          </p>
+        )}
+      </div>
+    </section>
+  )
+}
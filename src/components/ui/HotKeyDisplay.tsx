@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
 import { cn } from '@/lib/utils'
 
 interface HotKeyDisplayProps {
@@ -9,15 +10,16 @@ interface HotKeyDisplayProps {
 
 export function HotKeyDisplay({ className }: HotKeyDisplayProps) {
   const [isVisible, setIsVisible] = useState(false)
+  const { t } = useTranslation()
 
   const hotKeys = [
-    { keys: ['Ctrl', 'N'], description: 'Создать новый чат' },
-    { keys: ['Ctrl', 'K'], description: 'Перейти к полю ввода' },
-    { keys: ['Ctrl', 'Shift', 'L'], description: 'Переключить тему' },
-    { keys: ['Enter'], description: 'Отправить сообщение' },
-    { keys: ['Shift', 'Enter'], description: 'Новая строка' },
-    { keys: ['Esc'], description: 'Отмена' },
-    { keys: ['?'], description: 'Показать горячие клавиши' }
+    { keys: ['Ctrl', 'N'], description: t('hotkeys.newChat') },
+    { keys: ['Ctrl', 'K'], description: t('hotkeys.focusInput') },
+    { keys: ['Ctrl', 'Shift', 'L'], description: t('hotkeys.toggleTheme') },
+    { keys: ['Enter'], description: t('hotkeys.send') },
+    { keys: ['Shift', 'Enter'], description: t('hotkeys.newLine') },
+    { keys: ['Esc'], description: t('hotkeys.cancel') },
+    { keys: ['?'], description: t('hotkeys.show') }
   ]
 
   if (!isVisible) {
@@ -31,8 +33,8 @@ export function HotKeyDisplay({ className }: HotKeyDisplayProps) {
           "hidden lg:block",
           className
         )}
-        title="Горячие клавиши (нажмите ? для показа)"
-        aria-label="Показать горячие клавиши"
+        title={t('hotkeys.buttonTitle')}
+        aria-label={t('hotkeys.show')}
       >
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -51,11 +53,11 @@ export function HotKeyDisplay({ className }: HotKeyDisplayProps) {
         aria-modal="true"
       >
         <div className="flex items-center justify-between mb-4">
-          <h2 id="hotkeys-title" className="text-lg font-semibold">Горячие клавиши</h2>
+          <h2 id="hotkeys-title" className="text-lg font-semibold">{t('hotkeys.title')}</h2>
           <button
             onClick={() => setIsVisible(false)}
             className="p-1 rounded-md text-muted-foreground hover:text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-            aria-label="Закрыть"
+            aria-label={t('hotkeys.close')}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -82,7 +84,7 @@ export function HotKeyDisplay({ className }: HotKeyDisplayProps) {
         </div>
         
         <div className="mt-4 pt-4 border-t text-xs text-muted-foreground">
-          Нажмите <kbd className="px-1 py-0.5 bg-muted rounded">?</kbd> чтобы показать/скрыть это окно
+          {t('hotkeys.footerBefore')} <kbd className="px-1 py-0.5 bg-muted rounded">?</kbd> {t('hotkeys.footerAfter')}
         </div>
       </div>
     </div>
@@ -0,0 +1,35 @@
+'use client'
+
+import React from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+import { LANGUAGE_NAMES, LANGUAGES } from '@/lib/i18n'
+import { useChatStore } from '@/lib/store'
+import { cn } from '@/lib/utils'
+
+/**
+ * Переключатель языка интерфейса: по кругу ru → en
+ */
+export function LanguageToggle() {
+  const setLanguage = useChatStore(state => state.setLanguage)
+  const { t, language } = useTranslation()
+
+  const toggleLanguage = () => {
+    setLanguage(LANGUAGES[(LANGUAGES.indexOf(language) + 1) % LANGUAGES.length])
+  }
+
+  return (
+    <button
+      onClick={toggleLanguage}
+      className={cn(
+        "w-9 h-9 rounded-md border border-input bg-background text-xs font-medium uppercase",
+        "hover:bg-accent hover:text-accent-foreground",
+        "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+        "flex items-center justify-center"
+      )}
+      title={t('language.interface', { language: LANGUAGE_NAMES[language] })}
+      aria-label={t('language.interface', { language: LANGUAGE_NAMES[language] })}
+    >
+      {language}
+    </button>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
 import { cn } from '@/lib/utils'
 
 export type ConnectionStatus = 'online' | 'offline' | 'connecting' | 'error'
@@ -11,6 +12,7 @@ interface ConnectionStatusProps {
 }
 
 export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
+  const { t } = useTranslation()
   const [currentStatus, setCurrentStatus] = useState<ConnectionStatus>('online')
 
   useEffect(() => {
@@ -44,7 +46,7 @@ export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
             </svg>
           ),
           color: 'bg-green-500',
-          text: 'Подключено',
+          text: t('status.online'),
           textColor: 'text-green-600 dark:text-green-400'
         }
       case 'offline':
@@ -55,7 +57,7 @@ export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
             </svg>
           ),
           color: 'bg-red-500',
-          text: 'Не подключено',
+          text: t('status.offline'),
           textColor: 'text-red-600 dark:text-red-400'
         }
       case 'connecting':
@@ -64,7 +66,7 @@ export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
             <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
           ),
           color: 'bg-yellow-500',
-          text: 'Подключение...',
+          text: t('status.connecting'),
           textColor: 'text-yellow-600 dark:text-yellow-400'
         }
       case 'error':
@@ -75,7 +77,7 @@ export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
             </svg>
           ),
           color: 'bg-red-500',
-          text: 'Ошибка подключения',
+          text: t('status.error'),
           textColor: 'text-red-600 dark:text-red-400'
         }
     }
@@ -87,7 +89,7 @@ export function ConnectionStatus({ status, className }: ConnectionStatusProps) {
     <div 
       className={cn("flex items-center space-x-2", className)}
       role="status"
-      aria-label={`Статус подключения: ${config.text}`}
+      aria-label={t('status.connectionLabel', { status: config.text })}
     >
       <div className="relative">
         <div className={cn("w-2 h-2 rounded-full", config.color)} />
@@ -113,6 +115,8 @@ interface APIStatusProps {
 }
 
 export function APIStatus({ isLoading = false, hasError = false, className }: APIStatusProps) {
+  const { t } = useTranslation()
+
   const getStatus = (): ConnectionStatus => {
     if (hasError) return 'error'
     if (isLoading) return 'connecting'
@@ -120,9 +124,9 @@ export function APIStatus({ isLoading = false, hasError = false, className }: AP
   }
 
   const getStatusText = () => {
-    if (hasError) return 'Ошибка API'
-    if (isLoading) return 'Обработка запроса...'
-    return 'API готов'
+    if (hasError) return t('status.apiError')
+    if (isLoading) return t('status.apiBusy')
+    return t('status.apiReady')
   }
 
   const status = getStatus()
@@ -133,7 +137,7 @@ export function APIStatus({ isLoading = false, hasError = false, className }: AP
       className={cn("flex items-center space-x-2", className)}
       role="status"
       aria-live="polite"
-      aria-label={`Статус API: ${getStatusText()}`}
+      aria-label={t('status.apiLabel', { status: getStatusText() })}
     >
       <div className="relative">
         <div className={cn("w-2 h-2 rounded-full", config.color)} />
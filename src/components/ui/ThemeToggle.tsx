@@ -1,11 +1,13 @@
 'use client'
 
 import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
 import { useChatStore } from '@/lib/store'
 import { cn } from '@/lib/utils'
 
 export function ThemeToggle() {
   const { theme, setTheme } = useChatStore()
+  const { t } = useTranslation()
   const [mounted, setMounted] = useState(false)
 
   // Избегаем гидратации на сервере
@@ -47,10 +49,10 @@ export function ThemeToggle() {
 
   const getThemeLabel = () => {
     switch (theme) {
-      case 'light': return 'Светлая'
-      case 'dark': return 'Темная'
-      case 'system': return 'Системная'
-      default: return 'Системная'
+      case 'light': return t('theme.light')
+      case 'dark': return t('theme.dark')
+      case 'system': return t('theme.system')
+      default: return t('theme.system')
     }
   }
 
@@ -70,7 +72,7 @@ export function ThemeToggle() {
         "transition-all duration-200 ease-in-out",
         "flex items-center justify-center"
       )}
-      title={`Сменить тему (текущая: ${getThemeLabel()})`}
+      title={t('theme.toggle', { theme: getThemeLabel() })}
     >
       <div className="transition-transform duration-200 ease-in-out hover:scale-110">
         {getThemeIcon()}
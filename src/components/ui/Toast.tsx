@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useEffect, useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
 import { cn } from '@/lib/utils'
 
 export interface ToastProps {
@@ -62,13 +63,15 @@ export function useToast() {
 }
 
 function ToastContainer({ toasts, onClose }: { toasts: ToastProps[], onClose: (id: string) => void }) {
+  const { t } = useTranslation()
+
   if (toasts.length === 0) return null
 
   return (
     <div 
       className="fixed top-4 right-4 z-50 space-y-2 max-w-sm w-full"
       role="region"
-      aria-label="Уведомления"
+      aria-label={t('toast.region')}
     >
       {toasts.map(toast => (
         <Toast key={toast.id} {...toast} onClose={onClose} />
@@ -78,6 +81,7 @@ function ToastContainer({ toasts, onClose }: { toasts: ToastProps[], onClose: (i
 }
 
 function Toast({ id, title, description, type = 'info', onClose }: ToastProps) {
+  const { t } = useTranslation()
   const [isVisible, setIsVisible] = useState(false)
 
   useEffect(() => {
@@ -171,7 +175,7 @@ function Toast({ id, title, description, type = 'info', onClose }: ToastProps) {
         <button
           onClick={handleClose}
           className="flex-shrink-0 p-1 rounded-md text-muted-foreground hover:text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-          aria-label="Закрыть уведомление"
+          aria-label={t('toast.close')}
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
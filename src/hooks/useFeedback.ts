@@ -2,6 +2,7 @@
 
 import { useCallback } from 'react'
 import { useToast } from '@/components/ui/Toast'
+import { useTranslation } from './useTranslation'
 
 export interface FeedbackOptions {
   showSuccess?: boolean
@@ -13,42 +14,43 @@ export interface FeedbackOptions {
 
 export function useFeedback() {
   const { addToast } = useToast()
+  const { t } = useTranslation()
 
   const showSuccess = useCallback((message: string, duration?: number) => {
     addToast({
       type: 'success',
-      title: 'Успешно',
+      title: t('toast.success'),
       description: message,
       duration: duration || 3000
     })
-  }, [addToast])
+  }, [addToast, t])
 
   const showError = useCallback((message: string, duration?: number) => {
     addToast({
       type: 'error',
-      title: 'Ошибка',
+      title: t('toast.error'),
       description: message,
       duration: duration || 5000
     })
-  }, [addToast])
+  }, [addToast, t])
 
   const showWarning = useCallback((message: string, duration?: number) => {
     addToast({
       type: 'warning',
-      title: 'Предупреждение',
+      title: t('toast.warning'),
       description: message,
       duration: duration || 4000
     })
-  }, [addToast])
+  }, [addToast, t])
 
   const showInfo = useCallback((message: string, duration?: number) => {
     addToast({
       type: 'info',
-      title: 'Информация',
+      title: t('toast.info'),
       description: message,
       duration: duration || 4000
     })
-  }, [addToast])
+  }, [addToast, t])
 
   const handleAction = useCallback(async <T>(
     action: () => Promise<T>,
@@ -57,8 +59,8 @@ export function useFeedback() {
     const {
       showSuccess: shouldShowSuccess = true,
       showError: shouldShowError = true,
-      successMessage = 'Операция выполнена успешно',
-      errorMessage = 'Произошла ошибка при выполнении операции',
+      successMessage = t('feedback.actionSuccess'),
+      errorMessage = t('feedback.actionError'),
       duration
     } = options
 
@@ -78,7 +80,7 @@ export function useFeedback() {
       
       return null
     }
-  }, [showSuccess, showError])
+  }, [showSuccess, showError, t])
 
   const copyToClipboard = useCallback(async (text: string) => {
     return handleAction(
@@ -87,11 +89,11 @@ export function useFeedback() {
         return true
       },
       {
-        successMessage: 'Текст скопирован в буфер обмена',
-        errorMessage: 'Не удалось скопировать текст'
+        successMessage: t('feedback.copied'),
+        errorMessage: t('feedback.copyFailed')
       }
     )
-  }, [handleAction])
+  }, [handleAction, t])
 
   const downloadFile = useCallback(async (blob: Blob, filename: string) => {
     return handleAction(
@@ -107,11 +109,11 @@ export function useFeedback() {
         return true
       },
       {
-        successMessage: `Файл "${filename}" загружен`,
-        errorMessage: 'Не удалось загрузить файл'
+        successMessage: t('feedback.downloaded', { filename }),
+        errorMessage: t('feedback.downloadFailed')
       }
     )
-  }, [handleAction])
+  }, [handleAction, t])
 
   return {
     showSuccess,
@@ -127,6 +129,7 @@ export function useFeedback() {
 // Hook для обработки состояния загрузки с обратной связью
 export function useLoadingFeedback() {
   const { showError, showInfo } = useFeedback()
+  const { t } = useTranslation()
 
   const withLoading = useCallback(async <T>(
     action: () => Promise<T>,
@@ -141,9 +144,9 @@ export function useLoadingFeedback() {
     } = {}
   ): Promise<T | null> => {
     const {
-      loadingMessage = 'Загрузка...',
+      loadingMessage = t('feedback.loading'),
       successMessage,
-      errorMessage = 'Произошла ошибка',
+      errorMessage = t('feedback.error'),
       onStart,
       onSuccess,
       onError,
@@ -175,7 +178,7 @@ export function useLoadingFeedback() {
     } finally {
       onFinally?.()
     }
-  }, [showError, showInfo])
+  }, [showError, showInfo, t])
 
   return { withLoading }
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useChatStore } from '@/lib/store'
+import { translate, type MessageKey } from '@/lib/i18n'
+
+/**
+ * Строки интерфейса на языке пользователя
+ */
+export function useTranslation() {
+  const language = useChatStore(state => state.language)
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params),
+    [language]
+  )
+
+  return { t, language }
+}
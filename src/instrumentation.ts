@@ -0,0 +1,7 @@
+// Выполняется один раз при старте сервера Next.js
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { registerLogSinks } = await import('./lib/log-sinks')
+    registerLogSinks()
+  }
+}
@@ -1,5 +1,15 @@
-import { ChatRequest, ChatResponse } from '@/app/api/chat/route'
+import type { ChatRequest, ChatResponse } from './providers'
+import { AuthClient } from './auth-client'
 import { safeLogger } from './logger'
+import { ChatStreamEvent, readLines } from './streaming'
+import { isAbortError, sleep } from './utils'
+import type { ProviderModelsInfo } from './providers/types'
+import type { ChatMode, ChatSummary, ModelPreference } from './types'
+
+type ChatHistory = NonNullable<ChatRequest['chatHistory']>
+
+// Роль, тон, язык, промпт из библиотеки и краткое содержание начала разговора для системного промпта
+type PromptOptions = Pick<ChatRequest, 'persona' | 'style' | 'language' | 'userLanguage' | 'customPrompt' | 'summary'>
 
 export class AIService {
   private static readonly API_ENDPOINT = '/api/chat'
@@ -11,16 +21,106 @@ export class AIService {
    */
   static async sendMessage(
     message: string,
-    mode: 'fast' | 'deep',
-    chatHistory: Array<{ role: 'user' | 'assistant', content: string }> = []
+    mode: ChatMode,
+    chatHistory: ChatHistory = [],
+    preference?: ModelPreference,
+    signal?: AbortSignal,
+    prompt: PromptOptions = {}
   ): Promise<ChatResponse> {
     const request: ChatRequest = {
+      ...prompt,
       message: message.trim(),
       mode,
-      chatHistory: chatHistory.slice(-10) // Ограничиваем историю последними 10 сообщениями
+      chatHistory, // Под окно контекста модели историю подгоняет сервер
+      provider: preference?.provider,
+      model: preference?.model
     }
 
-    return this.makeRequestWithRetry(request)
+    return this.makeRequestWithRetry(request, 1, signal)
+  }
+
+  /**
+   * Отправляет сообщение в ИИ и получает ответ по частям.
+   * onDelta вызывается для каждого нового фрагмента текста, промис
+   * разрешается итоговым ответом после закрытия потока.
+   * preference — выбранные для чата провайдер и модель,
+   * signal — отмена генерации (промис отклоняется с AbortError),
+   * prompt — роль, тон, язык ответа, промпт из библиотеки и краткое содержание сообщений до chatHistory.
+   */
+  static async sendMessageStream(
+    message: string,
+    mode: ChatMode,
+    chatHistory: ChatHistory = [],
+    onDelta: (delta: string) => void,
+    preference?: ModelPreference,
+    signal?: AbortSignal,
+    prompt: PromptOptions = {}
+  ): Promise<ChatResponse> {
+    const request: ChatRequest = {
+      ...prompt,
+      message: message.trim(),
+      mode,
+      chatHistory,
+      stream: true,
+      provider: preference?.provider,
+      model: preference?.model
+    }
+
+    const response = await fetch(this.API_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal
+    })
+
+    if (!response.ok) {
+      AuthClient.handleUnauthorized(response)
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`
+      )
+    }
+
+    if (!response.body) {
+      throw new Error('Сервер не поддерживает потоковую передачу')
+    }
+
+    // Значения присваиваются внутри колбэка, поэтому явно расширяем тип
+    let result = null as ChatResponse | null
+    let streamError = null as string | null
+
+    await readLines(response.body, (line) => {
+      let event: ChatStreamEvent
+      try {
+        event = JSON.parse(line)
+      } catch {
+        safeLogger.warn('Некорректный фрагмент потока:', line)
+        return
+      }
+
+      switch (event.type) {
+        case 'delta':
+          onDelta(event.content)
+          break
+        case 'done':
+          result = event.response
+          break
+        case 'error':
+          streamError = event.error
+          break
+      }
+    })
+
+    if (streamError) {
+      throw new Error(streamError)
+    }
+    if (!result) {
+      throw new Error('Поток ответа прервался до завершения')
+    }
+
+    return result
   }
 
   /**
@@ -28,7 +128,8 @@ export class AIService {
    */
   private static async makeRequestWithRetry(
     request: ChatRequest,
-    attempt: number = 1
+    attempt: number = 1,
+    signal?: AbortSignal
   ): Promise<ChatResponse> {
     try {
       const response = await fetch(this.API_ENDPOINT, {
@@ -37,9 +138,11 @@ export class AIService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(request),
+        signal
       })
 
       if (!response.ok) {
+        AuthClient.handleUnauthorized(response)
         const errorData = await response.json().catch(() => ({}))
         throw new Error(
           errorData.error || `HTTP ${response.status}: ${response.statusText}`
@@ -50,6 +153,11 @@ export class AIService {
       return result
 
     } catch (error) {
+      // Отменённый пользователем запрос не повторяем
+      if (isAbortError(error)) {
+        throw error
+      }
+
       safeLogger.error(`Попытка ${attempt} не удалась:`, error)
 
       // Если это последняя попытка или ошибка не сетевая, пробрасываем её
@@ -59,9 +167,9 @@ export class AIService {
 
       // Ждём перед повторной попыткой с экспоненциальной задержкой
       const delay = this.RETRY_DELAY * Math.pow(2, attempt - 1)
-      await new Promise(resolve => setTimeout(resolve, delay))
+      await sleep(delay, signal)
 
-      return this.makeRequestWithRetry(request, attempt + 1)
+      return this.makeRequestWithRetry(request, attempt + 1, signal)
     }
   }
 
@@ -99,9 +207,9 @@ export class AIService {
   }
 
   /**
-   * Получает информацию о доступных моделях
+   * Получает модели включённых провайдеров (пустой список, если сервер недоступен)
    */
-  static async getAvailableModels(): Promise<string[]> {
+  static async getAvailableModels(): Promise<ProviderModelsInfo[]> {
     try {
       const response = await fetch('/api/models', {
         method: 'GET',
@@ -109,30 +217,51 @@ export class AIService {
       
       if (response.ok) {
         const data = await response.json()
-        return data.models || []
+        return data.providers || []
       }
+      AuthClient.handleUnauthorized(response)
     } catch (error) {
       safeLogger.error('Ошибка получения списка моделей:', error)
     }
     
-    return ['Mock API'] // Fallback
+    return []
   }
 
   /**
    * Форматирует историю чата для API
    */
   static formatChatHistory(messages: Array<{
+    id?: string
     role: 'user' | 'assistant' | 'system'
     content: string
-  }>): Array<{ role: 'user' | 'assistant', content: string }> {
+  }>): ChatHistory {
     return messages
       .filter(msg => msg.role !== 'system') // Исключаем системные сообщения
+      .filter(msg => msg.content.trim()) // И пустые ответы остановленной генерации
       .map(msg => ({
+        id: msg.id,
         role: msg.role as 'user' | 'assistant',
         content: msg.content
       }))
   }
 
+  /**
+   * Заменяет начало истории кратким содержанием чата. Если сообщения,
+   * которым оно заканчивается, нет в истории (другая ветка), история уходит целиком
+   */
+  static applySummary(
+    chatHistory: ChatHistory,
+    summary?: ChatSummary
+  ): { chatHistory: ChatHistory, summary?: string } {
+    const index = summary
+      ? chatHistory.findIndex(message => message.id === summary.coveredMessageId)
+      : -1
+    if (!summary || index === -1) {
+      return { chatHistory }
+    }
+    return { chatHistory: chatHistory.slice(index + 1), summary: summary.content }
+  }
+
   /**
    * Оценивает сложность запроса для выбора оптимального режима
    */
@@ -0,0 +1,61 @@
+import type { AuthConfig } from './auth'
+import type { User } from './types'
+
+// Ответ /api/auth/session
+export interface SessionInfo {
+  user: User | null
+  providers: AuthConfig
+}
+
+/**
+ * Вход, регистрация и выход на стороне браузера
+ */
+export class AuthClient {
+  static readonly LOGIN_PAGE = '/login'
+
+  static async getSession(): Promise<SessionInfo> {
+    const response = await fetch('/api/auth/session', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  static login(email: string, password: string): Promise<User> {
+    return this.submit('/api/auth/login', { email, password })
+  }
+
+  static register(email: string, password: string, name?: string): Promise<User> {
+    return this.submit('/api/auth/register', { email, password, name })
+  }
+
+  static async logout(): Promise<void> {
+    await fetch('/api/auth/logout', { method: 'POST' })
+  }
+
+  /**
+   * Сессия истекла или её нет — отправляем на страницу входа.
+   * true — ответ 401 и переход начат
+   */
+  static handleUnauthorized(response: Response): boolean {
+    if (response.status !== 401) return false
+    if (typeof window !== 'undefined' && window.location.pathname !== this.LOGIN_PAGE) {
+      window.location.assign(this.LOGIN_PAGE)
+    }
+    return true
+  }
+
+  private static async submit(url: string, body: object): Promise<User> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    return data.user
+  }
+}
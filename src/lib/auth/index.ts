@@ -0,0 +1,176 @@
+/**
+ * Аутентификация: локальные учётные записи (email и пароль) и OIDC.
+ * Способы входа задаются через AUTH_PROVIDERS (local,oidc);
+ * без AUTH_PROVIDERS — local, плюс oidc, если настроен OIDC_ISSUER.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserRepository, type AuthProviderName, type StoredUser } from '../storage'
+import type { User } from '../types'
+import { generateId } from '../utils'
+import { getOidcDisplayName, isOidcConfigured, type OidcIdentity } from './oidc'
+import { hashPassword, verifyPassword } from './password'
+import { createSessionToken, getCookieOptions, getSessionTTL, readSessionToken, SESSION_COOKIE } from './session'
+
+export { SESSION_COOKIE } from './session'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+// Что показать на странице входа
+export interface AuthConfig {
+  local: boolean
+  registration: boolean
+  oidc: { name: string } | null
+}
+
+function getEnabledProviders(): AuthProviderName[] {
+  if (!process.env.AUTH_PROVIDERS) {
+    return isOidcConfigured() ? ['local', 'oidc'] : ['local']
+  }
+  return process.env.AUTH_PROVIDERS
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is AuthProviderName => name === 'local' || name === 'oidc')
+}
+
+export function getAuthConfig(): AuthConfig {
+  const providers = getEnabledProviders()
+  const local = providers.includes('local')
+  return {
+    local,
+    registration: local && process.env.AUTH_ALLOW_REGISTRATION !== 'false',
+    oidc: providers.includes('oidc') && isOidcConfigured() ? { name: getOidcDisplayName() } : null
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Администраторы перечислены в AUTH_ADMIN_EMAILS через запятую
+function isAdminEmail(email: string): boolean {
+  return (process.env.AUTH_ADMIN_EMAILS || '')
+    .split(',')
+    .map(normalizeEmail)
+    .includes(normalizeEmail(email))
+}
+
+/**
+ * Администратор — роль, назначенная явно (pnpm auth:set-role), или вход через OIDC
+ * с подтверждённым провайдером email из AUTH_ADMIN_EMAILS. Email локальной учётной
+ * записи никто не проверял: совпадение с AUTH_ADMIN_EMAILS прав не даёт
+ */
+function isAdmin(user: StoredUser): boolean {
+  if (user.role === 'admin') return true
+  return user.provider === 'oidc' && !!user.emailVerified && isAdminEmail(user.email)
+}
+
+export function toPublicUser(user: StoredUser): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: isAdmin(user) ? 'admin' : 'user'
+  }
+}
+
+/**
+ * Регистрация по email и паролю; null — email уже занят
+ */
+export async function registerLocalUser(email: string, password: string, name?: string): Promise<User | null> {
+  const user = await getUserRepository().createUser({
+    id: generateId(),
+    provider: 'local',
+    subject: normalizeEmail(email),
+    email: email.trim(),
+    name: name?.trim() || undefined,
+    passwordHash: await hashPassword(password),
+    createdAt: new Date()
+  })
+  return user ? toPublicUser(user) : null
+}
+
+/**
+ * Вход по email и паролю; null — неверные данные
+ */
+export async function authenticateLocalUser(email: string, password: string): Promise<User | null> {
+  const user = await getUserRepository().findByIdentity('local', normalizeEmail(email))
+  if (!user?.passwordHash) return null
+  return await verifyPassword(password, user.passwordHash) ? toPublicUser(user) : null
+}
+
+/**
+ * Пользователь OIDC: при первом входе учётная запись создаётся,
+ * при следующих — обновляются email и его подтверждение из id_token
+ */
+export async function findOrCreateOidcUser(identity: OidcIdentity): Promise<User> {
+  const users = getUserRepository()
+  const existing = await users.findByIdentity('oidc', identity.subject)
+  if (existing) {
+    const changed = existing.email !== identity.email
+      || !!existing.emailVerified !== identity.emailVerified
+      || (identity.name !== undefined && existing.name !== identity.name)
+    if (!changed) return toPublicUser(existing)
+
+    const updated = await users.updateUser(existing.id, {
+      email: identity.email,
+      emailVerified: identity.emailVerified,
+      name: identity.name ?? existing.name
+    })
+    return toPublicUser(updated || existing)
+  }
+
+  const created = await users.createUser({
+    id: generateId(),
+    provider: 'oidc',
+    subject: identity.subject,
+    email: identity.email,
+    emailVerified: identity.emailVerified,
+    name: identity.name,
+    createdAt: new Date()
+  })
+  // Параллельный первый вход уже создал запись
+  return toPublicUser(created || await users.findByIdentity('oidc', identity.subject) as StoredUser)
+}
+
+/**
+ * Пользователь по значению cookie сессии
+ */
+export async function getUserFromSession(token?: string): Promise<User | null> {
+  const userId = readSessionToken(token)
+  if (!userId) return null
+  const user = await getUserRepository().findById(userId)
+  return user ? toPublicUser(user) : null
+}
+
+/**
+ * Текущий пользователь запроса; null — запрос анонимный
+ */
+export function getRequestUser(request: NextRequest): Promise<User | null> {
+  return getUserFromSession(request.cookies.get(SESSION_COOKIE)?.value)
+}
+
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({ error: 'Требуется вход' }, { status: 401 })
+}
+
+export function forbiddenResponse(): NextResponse {
+  return NextResponse.json({ error: 'Недостаточно прав' }, { status: 403 })
+}
+
+/**
+ * Доступ только администратору: ответ 401/403 или null, если доступ есть
+ */
+export async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const user = await getRequestUser(request)
+  if (!user) return unauthorizedResponse()
+  return user.role === 'admin' ? null : forbiddenResponse()
+}
+
+export function setSessionCookie(response: NextResponse, user: User) {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user.id), getCookieOptions(getSessionTTL()))
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', getCookieOptions(0))
+}
@@ -0,0 +1,208 @@
+/**
+ * Вход через OpenID Connect: authorization code flow с PKCE.
+ * Настройки: OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET
+ * (для проверки локально — mock-oidc-server.js)
+ */
+
+import crypto from 'crypto'
+import { safeLogger } from '../logger'
+import { sign, unsign } from './session'
+
+export const OIDC_STATE_COOKIE = 'komair_oidc'
+export const OIDC_STATE_TTL = 10 * 60 * 1000 // На вход у провайдера — 10 минут
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+interface OidcState {
+  state: string
+  nonce: string
+  verifier: string
+}
+
+// Данные пользователя из проверенного id_token
+export interface OidcIdentity {
+  subject: string
+  email: string
+  emailVerified: boolean // Провайдер подтвердил владение email (claim email_verified)
+  name?: string
+}
+
+let discovery: { issuer: string; document: DiscoveryDocument } | undefined
+
+export function isOidcConfigured(): boolean {
+  return !!(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID)
+}
+
+export function getOidcDisplayName(): string {
+  return process.env.OIDC_NAME || 'SSO'
+}
+
+function getIssuer(): string {
+  return (process.env.OIDC_ISSUER || '').replace(/\/$/, '')
+}
+
+function getRedirectUri(origin: string): string {
+  return process.env.OIDC_REDIRECT_URI || `${origin}/api/auth/oidc/callback`
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+async function getDiscovery(): Promise<DiscoveryDocument> {
+  const issuer = getIssuer()
+  if (discovery?.issuer === issuer) return discovery.document
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+    signal: AbortSignal.timeout(10000)
+  })
+  if (!response.ok) {
+    throw new Error(`OIDC discovery: HTTP ${response.status}`)
+  }
+
+  const document = await response.json() as DiscoveryDocument
+  discovery = { issuer, document }
+  return document
+}
+
+/**
+ * Адрес входа у провайдера и подписанное состояние для cookie
+ */
+export async function createAuthorizationRequest(origin: string): Promise<{ url: string; stateCookie: string }> {
+  const document = await getDiscovery()
+  const state: OidcState = { state: randomToken(), nonce: randomToken(), verifier: randomToken() }
+
+  const url = new URL(document.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: process.env.OIDC_CLIENT_ID || '',
+    redirect_uri: getRedirectUri(origin),
+    scope: process.env.OIDC_SCOPES || 'openid email profile',
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: crypto.createHash('sha256').update(state.verifier).digest('base64url'),
+    code_challenge_method: 'S256'
+  }).toString()
+
+  return { url: url.toString(), stateCookie: sign({ ...state, exp: Date.now() + OIDC_STATE_TTL }) }
+}
+
+/**
+ * Обменивает code на токены и проверяет id_token
+ */
+export async function completeAuthorization(
+  params: URLSearchParams,
+  stateCookie: string | undefined,
+  origin: string
+): Promise<OidcIdentity> {
+  const saved = stateCookie ? unsign<OidcState & { exp: number }>(stateCookie) : null
+  if (!saved || saved.exp < Date.now() || params.get('state') !== saved.state) {
+    throw new Error('Некорректное или устаревшее состояние входа')
+  }
+
+  const providerError = params.get('error')
+  if (providerError) {
+    throw new Error(`Провайдер отказал во входе: ${providerError}`)
+  }
+
+  const code = params.get('code')
+  if (!code) {
+    throw new Error('Провайдер не вернул код авторизации')
+  }
+
+  const document = await getDiscovery()
+  const response = await fetch(document.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(origin),
+      client_id: process.env.OIDC_CLIENT_ID || '',
+      client_secret: process.env.OIDC_CLIENT_SECRET || '',
+      code_verifier: saved.verifier
+    }).toString(),
+    signal: AbortSignal.timeout(10000)
+  })
+  if (!response.ok) {
+    throw new Error(`Обмен кода на токен: HTTP ${response.status}`)
+  }
+
+  const tokens = await response.json()
+  if (typeof tokens.id_token !== 'string') {
+    throw new Error('Провайдер не вернул id_token')
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, document)
+  if (claims.nonce !== saved.nonce) {
+    throw new Error('nonce в id_token не совпадает')
+  }
+  if (typeof claims.email !== 'string') {
+    throw new Error('В id_token нет email (нужен scope email)')
+  }
+
+  return {
+    subject: String(claims.sub),
+    email: claims.email,
+    emailVerified: claims.email_verified === true,
+    name: claims.name
+  }
+}
+
+/**
+ * Проверка подписи (RS256, ключи из jwks_uri) и основных claims id_token
+ */
+async function verifyIdToken(token: string, document: DiscoveryDocument): Promise<Record<string, any>> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.')
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('Некорректный id_token')
+  }
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'))
+  if (header.alg !== 'RS256') {
+    throw new Error(`Неподдерживаемый алгоритм подписи id_token: ${header.alg}`)
+  }
+
+  const jwksResponse = await fetch(document.jwks_uri, { signal: AbortSignal.timeout(10000) })
+  if (!jwksResponse.ok) {
+    throw new Error(`Загрузка ключей OIDC: HTTP ${jwksResponse.status}`)
+  }
+  const { keys = [] } = await jwksResponse.json()
+  const jwk = keys.find((key: { kid?: string; kty?: string }) =>
+    key.kty === 'RSA' && (!header.kid || key.kid === header.kid)
+  )
+  if (!jwk) {
+    throw new Error('Ключ подписи id_token не найден')
+  }
+
+  const valid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(encodedSignature, 'base64url')
+  )
+  if (!valid) {
+    throw new Error('Неверная подпись id_token')
+  }
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+
+  if (claims.iss !== document.issuer) {
+    throw new Error('id_token выдан другим провайдером')
+  }
+  if (!audience.includes(process.env.OIDC_CLIENT_ID)) {
+    throw new Error('id_token выдан другому клиенту')
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    throw new Error('id_token истёк')
+  }
+
+  safeLogger.info(`🔐 OIDC вход: ${claims.sub}`)
+  return claims
+}
@@ -0,0 +1,35 @@
+/**
+ * Хэширование паролей (scrypt из node:crypto)
+ */
+
+import crypto from 'crypto'
+
+const KEY_LENGTH = 64
+const SCRYPT_COST = 16384
+
+function scrypt(password: string, salt: Buffer, cost: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { N: cost }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+/**
+ * Хэш в формате scrypt$N$соль$ключ — параметры хранятся рядом с хэшем
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16)
+  const key = await scrypt(password, salt, SCRYPT_COST)
+  return `scrypt$${SCRYPT_COST}$${salt.toString('base64')}$${key.toString('base64')}`
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [algorithm, cost, salt, key] = hash.split('$')
+  if (algorithm !== 'scrypt' || !cost || !salt || !key) return false
+
+  const expected = Buffer.from(key, 'base64')
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), Number(cost))
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
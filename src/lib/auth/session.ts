@@ -0,0 +1,87 @@
+/**
+ * Сессии в подписанных cookie: id пользователя и срок действия,
+ * подпись HMAC-SHA256 секретом AUTH_SECRET
+ */
+
+import crypto from 'crypto'
+import { safeLogger } from '../logger'
+
+export const SESSION_COOKIE = 'komair_session'
+
+const DEFAULT_TTL_HOURS = 24 * 7
+
+// Секрет без AUTH_SECRET общий для всех маршрутов процесса (см. storage)
+const globalSecret = globalThis as typeof globalThis & { komairAuthSecret?: string }
+
+function getSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET
+
+  if (!globalSecret.komairAuthSecret) {
+    safeLogger.warn('⚠️ AUTH_SECRET не задан: сессии сбросятся при перезапуске сервера')
+    globalSecret.komairAuthSecret = crypto.randomBytes(32).toString('hex')
+  }
+  return globalSecret.komairAuthSecret
+}
+
+export function getSessionTTL(): number {
+  const hours = Number(process.env.AUTH_SESSION_TTL_HOURS)
+  return (process.env.AUTH_SESSION_TTL_HOURS && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000
+}
+
+function signature(payload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Подписывает данные: base64url(JSON).подпись
+ */
+export function sign(data: object): string {
+  const payload = Buffer.from(JSON.stringify(data)).toString('base64url')
+  return `${payload}.${signature(payload)}`
+}
+
+/**
+ * Проверяет подпись; null — значение подделано или повреждено
+ */
+export function unsign<T>(value: string): T | null {
+  const [payload, provided] = value.split('.')
+  if (!payload || !provided) return null
+
+  const expected = Buffer.from(signature(payload))
+  const actual = Buffer.from(provided)
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+interface SessionPayload {
+  uid: string
+  exp: number
+}
+
+export function createSessionToken(userId: string): string {
+  return sign({ uid: userId, exp: Date.now() + getSessionTTL() })
+}
+
+/**
+ * id пользователя из cookie сессии; null — сессии нет или она истекла
+ */
+export function readSessionToken(token?: string): string | null {
+  if (!token) return null
+  const session = unsign<SessionPayload>(token)
+  return session && typeof session.uid === 'string' && session.exp > Date.now() ? session.uid : null
+}
+
+export function getCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: Math.floor(maxAge / 1000)
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Общие для клиента и сервера правила хранения чатов:
+ * восстановление чата из JSON и разрешение конфликтов по updatedAt
+ */
+
+import { isChatMode, isPersona, isResponseStyle } from './chat-modes'
+import { isLanguage } from './i18n'
+import { Chat, ChatSummary, Message, MessageVariant, ModelPreference } from './types'
+import { getActiveLeafId, normalizeMessageTree } from './message-tree'
+import { isRecord } from './utils'
+
+// Итог сохранения чата поверх уже сохранённой версии
+export type ChatSaveResult =
+  | { status: 'saved'; chat: Chat }
+  | { status: 'merged'; chat: Chat } // Объединено с сохранённой версией, клиенту нужен итог
+  | { status: 'deleted'; deletedAt: Date } // Чат удалён позже, чем изменён
+
+const ROLES: Message['role'][] = ['user', 'assistant', 'system']
+const THINKING_SOURCES: NonNullable<Message['thinkingSource']>[] = ['model', 'plan']
+const STATUSES: NonNullable<Message['status']>[] = ['partial', 'cancelled']
+
+// Краткое содержание уходит в системный промпт каждого запроса
+export const MAX_SUMMARY_LENGTH = 4000
+
+function toDate(value: unknown): Date {
+  const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date
+    ? new Date(value)
+    : new Date()
+  return isNaN(date.getTime()) ? new Date() : date
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function optionalCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined
+}
+
+function oneOf<T extends string>(values: readonly T[], value: unknown): T | undefined {
+  return values.find(item => item === value)
+}
+
+/**
+ * Проверяет, что JSON похож на чат: без этого в хранилище не пишем
+ */
+export function isChatPayload(raw: unknown): boolean {
+  return isRecord(raw) &&
+    typeof raw.id === 'string' && raw.id.length > 0 &&
+    typeof raw.title === 'string' &&
+    Array.isArray(raw.messages) &&
+    raw.messages.every(isMessagePayload)
+}
+
+export function isMessagePayload(raw: unknown): boolean {
+  return isRecord(raw) &&
+    typeof raw.id === 'string' && raw.id.length > 0 &&
+    typeof raw.content === 'string' &&
+    ROLES.includes(raw.role as Message['role']) &&
+    (raw.parentId === undefined || raw.parentId === null || typeof raw.parentId === 'string') &&
+    (raw.variants === undefined || Array.isArray(raw.variants))
+}
+
+/**
+ * Версия ответа из JSON; без текста не используется
+ */
+function reviveVariant(raw: unknown): MessageVariant | null {
+  if (!isRecord(raw) || typeof raw.content !== 'string') return null
+  return {
+    content: raw.content,
+    timestamp: toDate(raw.timestamp),
+    mode: isChatMode(raw.mode) ? raw.mode : undefined,
+    thinking: optionalString(raw.thinking),
+    thinkingSource: oneOf(THINKING_SOURCES, raw.thinkingSource),
+    status: oneOf(STATUSES, raw.status),
+    model: optionalString(raw.model),
+    droppedContext: optionalCount(raw.droppedContext)
+  }
+}
+
+/**
+ * Сообщение из JSON: строки дат становятся Date, неизвестные поля отбрасываются.
+ * Вызывается после isMessagePayload
+ */
+export function reviveMessage(raw: unknown): Message {
+  const data = isRecord(raw) ? raw : {}
+  const variants = Array.isArray(data.variants)
+    ? data.variants.map(reviveVariant).filter((variant): variant is MessageVariant => variant !== null)
+    : []
+  const activeVariant = optionalCount(data.activeVariant)
+
+  return {
+    id: optionalString(data.id) ?? '',
+    content: optionalString(data.content) ?? '',
+    role: oneOf(ROLES, data.role) ?? 'user',
+    timestamp: toDate(data.timestamp),
+    parentId: typeof data.parentId === 'string' || data.parentId === null ? data.parentId : undefined,
+    mode: isChatMode(data.mode) ? data.mode : undefined,
+    persona: isPersona(data.persona) ? data.persona : undefined,
+    style: isResponseStyle(data.style) ? data.style : undefined,
+    language: isLanguage(data.language) ? data.language : undefined,
+    thinking: optionalString(data.thinking),
+    thinkingSource: oneOf(THINKING_SOURCES, data.thinkingSource),
+    isLoading: data.isLoading === true ? true : undefined,
+    status: oneOf(STATUSES, data.status),
+    model: optionalString(data.model),
+    droppedContext: optionalCount(data.droppedContext),
+    variants: variants.length > 0 ? variants : undefined,
+    activeVariant: activeVariant !== undefined && activeVariant < variants.length ? activeVariant : undefined
+  }
+}
+
+/**
+ * Краткое содержание чата из JSON; без текста или границы не используется
+ */
+export function reviveSummary(raw: unknown): ChatSummary | undefined {
+  if (!isRecord(raw) || typeof raw.content !== 'string' || typeof raw.coveredMessageId !== 'string') return undefined
+  return {
+    content: raw.content.slice(0, MAX_SUMMARY_LENGTH),
+    coveredMessageId: raw.coveredMessageId,
+    updatedAt: toDate(raw.updatedAt),
+    edited: raw.edited === true ? true : undefined
+  }
+}
+
+function reviveModelPreference(raw: unknown): ModelPreference | undefined {
+  if (!isRecord(raw) || typeof raw.provider !== 'string') return undefined
+  return { provider: raw.provider, model: optionalString(raw.model) }
+}
+
+/**
+ * Сообщение без parentId продолжает активную ветку чата
+ */
+export function withParent(chat: Chat, message: Message): Message {
+  return message.parentId !== undefined ? message : { ...message, parentId: getActiveLeafId(chat) }
+}
+
+/**
+ * Чат из JSON (localStorage или ответ API): даты, дерево сообщений и только известные поля.
+ * На сервере вызывается после isChatPayload
+ */
+export function reviveChat(raw: unknown): Chat {
+  const data = isRecord(raw) ? raw : {}
+  return {
+    id: optionalString(data.id) ?? '',
+    title: optionalString(data.title) ?? '',
+    tags: Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    mode: isChatMode(data.mode) ? data.mode : 'fast',
+    persona: isPersona(data.persona) ? data.persona : undefined,
+    style: isResponseStyle(data.style) ? data.style : undefined,
+    language: isLanguage(data.language) ? data.language : undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+    modelPreference: reviveModelPreference(data.modelPreference),
+    summary: data.summary ? reviveSummary(data.summary) : undefined,
+    promptId: optionalString(data.promptId),
+    activeLeafId: optionalString(data.activeLeafId),
+    messages: normalizeMessageTree(
+      (Array.isArray(data.messages) ? data.messages : []).filter(isMessagePayload).map(reviveMessage)
+    )
+  }
+}
+
+/**
+ * Слияние двух версий одного чата. Поля чата берутся из более новой
+ * по updatedAt; сообщения объединяются — дерево только растёт, поэтому
+ * ветки, созданные на разных устройствах, сохраняются. Если сообщение
+ * есть в обеих версиях (например, с новыми вариантами ответа), побеждает более новая.
+ */
+export function mergeChats(a: Chat, b: Chat): Chat {
+  const [older, newer] = a.updatedAt.getTime() > b.updatedAt.getTime() ? [b, a] : [a, b]
+  const newerIds = new Set(newer.messages.map(message => message.id))
+
+  return {
+    ...newer,
+    messages: [
+      ...newer.messages,
+      ...older.messages.filter(message => !newerIds.has(message.id))
+    ]
+  }
+}
+
+/**
+ * Что сохранить, когда пришла версия чата: existing — сохранённая версия,
+ * deletedAt — когда чат был удалён (если был)
+ */
+export function resolveChatSave(existing: Chat | null, deletedAt: Date | null, incoming: Chat): ChatSaveResult {
+  if (deletedAt && deletedAt.getTime() >= incoming.updatedAt.getTime()) {
+    return { status: 'deleted', deletedAt }
+  }
+  if (!existing) {
+    return { status: 'saved', chat: incoming }
+  }
+
+  // Клиенту нужно вернуть итог, если в нём есть что-то кроме присланного
+  const incomingIds = new Set(incoming.messages.map(message => message.id))
+  const changed = existing.updatedAt.getTime() > incoming.updatedAt.getTime() ||
+    existing.messages.some(message => !incomingIds.has(message.id))
+
+  const chat = mergeChats(existing, incoming)
+  return changed ? { status: 'merged', chat } : { status: 'saved', chat }
+}
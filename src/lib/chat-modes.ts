@@ -0,0 +1,42 @@
+/**
+ * Режимы ответа, роли и тон ассистента: списки для проверки запросов
+ * и цвета режимов в интерфейсе. Общие для клиента и сервера.
+ * Подписи — в словарях i18n (mode.*, persona.*, style.*)
+ */
+
+import type { ChatMode, Persona, ResponseStyle } from './types'
+
+export const CHAT_MODES: ChatMode[] = ['fast', 'deep', 'creative']
+export const PERSONAS: Persona[] = ['technical', 'educational', 'creative', 'analytical']
+export const RESPONSE_STYLES: ResponseStyle[] = ['casual', 'formal']
+
+// Классы Tailwind для значка режима
+export const MODE_COLORS: Record<ChatMode, { badge: string, dot: string, text: string }> = {
+  fast: {
+    badge: 'bg-green-100 text-green-700 border-green-300 dark:bg-green-900 dark:text-green-300 dark:border-green-700',
+    dot: 'bg-green-500',
+    text: 'text-green-600'
+  },
+  deep: {
+    badge: 'bg-blue-100 text-blue-700 border-blue-300 dark:bg-blue-900 dark:text-blue-300 dark:border-blue-700',
+    dot: 'bg-blue-500',
+    text: 'text-blue-600'
+  },
+  creative: {
+    badge: 'bg-purple-100 text-purple-700 border-purple-300 dark:bg-purple-900 dark:text-purple-300 dark:border-purple-700',
+    dot: 'bg-purple-500',
+    text: 'text-purple-600'
+  }
+}
+
+export function isChatMode(value: unknown): value is ChatMode {
+  return CHAT_MODES.includes(value as ChatMode)
+}
+
+export function isPersona(value: unknown): value is Persona {
+  return PERSONAS.includes(value as Persona)
+}
+
+export function isResponseStyle(value: unknown): value is ResponseStyle {
+  return RESPONSE_STYLES.includes(value as ResponseStyle)
+}
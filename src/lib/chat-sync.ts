@@ -0,0 +1,306 @@
+/**
+ * Синхронизация чатов с сервером (/api/chats) по принципу offline-first:
+ * изменения сразу сохраняются в localStorage, а id изменённых и удалённых
+ * чатов встают в очередь, которая отправляется, когда сеть доступна.
+ * Конфликты решаются по updatedAt, сообщения обеих версий объединяются.
+ */
+
+import { AuthClient } from './auth-client'
+import { mergeChats, reviveChat } from './chat-merge'
+import { safeLogger } from './logger'
+import type { Chat } from './types'
+
+const QUEUE_KEY = 'komair-sync'
+const API_ENDPOINT = '/api/chats'
+const FLUSH_DELAY = 1000 // Пачка быстрых изменений уходит одним запросом
+const SYNC_INTERVAL = 60 * 1000
+
+interface SyncQueue {
+  dirty: string[] // Чаты с неотправленными изменениями
+  deleted: Array<{ id: string; deletedAt: string }>
+  lastPullAt: string | null // serverTime последнего получения изменений
+  userId: string | null // Чья история лежит в браузере
+}
+
+// Доступ синхронизации к чатам стора
+export interface SyncHandlers {
+  getChats: () => Chat[]
+  applyRemote: (chats: Chat[], deletedIds: string[]) => void // Заменить/добавить и удалить чаты
+}
+
+// Сервер ответил 503: хранение на сервере отключено
+class StorageDisabledError extends Error {}
+
+// Сервер ответил 401: сессии нет, идёт переход на страницу входа
+class UnauthorizedError extends Error {}
+
+function createQueue(): SyncQueue {
+  return { dirty: [], deleted: [], lastPullAt: null, userId: null }
+}
+
+class ChatSync {
+  private handlers: SyncHandlers | null = null
+  private queue: SyncQueue = createQueue()
+  private userChecked = false
+  private flushTimer?: ReturnType<typeof setTimeout>
+  private running: Promise<void> | null = null
+  private pendingRun = false
+  private disabled = false
+
+  /**
+   * Запускает синхронизацию (повторные вызовы игнорируются)
+   */
+  start(handlers: SyncHandlers) {
+    if (this.handlers || typeof window === 'undefined') return
+    this.handlers = handlers
+
+    const stored = localStorage.getItem(QUEUE_KEY)
+    if (stored) {
+      try {
+        this.queue = { ...this.queue, ...JSON.parse(stored) }
+      } catch {
+        // Повреждённая очередь — начинаем заново
+      }
+    } else {
+      // Первая синхронизация на этом устройстве: отправляем всю локальную историю
+      this.queue.dirty = handlers.getChats().map(chat => chat.id)
+      this.saveQueue()
+    }
+
+    window.addEventListener('online', () => this.sync())
+    setInterval(() => this.sync(), SYNC_INTERVAL)
+    this.sync()
+  }
+
+  markDirty(chatId: string) {
+    if (typeof window === 'undefined') return
+    if (!this.queue.dirty.includes(chatId)) {
+      this.queue.dirty.push(chatId)
+      this.saveQueue()
+    }
+    this.scheduleFlush()
+  }
+
+  markDeleted(chatId: string) {
+    if (typeof window === 'undefined') return
+    this.queue.dirty = this.queue.dirty.filter(id => id !== chatId)
+    this.queue.deleted.push({ id: chatId, deletedAt: new Date().toISOString() })
+    this.saveQueue()
+    this.scheduleFlush()
+  }
+
+  /**
+   * Выход: отправляет накопленные изменения и забывает очередь
+   */
+  async stop() {
+    await this.sync()
+    clearTimeout(this.flushTimer)
+    this.disabled = true
+    localStorage.removeItem(QUEUE_KEY)
+  }
+
+  /**
+   * Отправляет очередь и забирает изменения с сервера.
+   * Вызов во время синхронизации запускает ещё один проход после неё
+   */
+  sync(): Promise<void> {
+    if (!this.handlers || this.disabled) return Promise.resolve()
+
+    if (this.running) {
+      this.pendingRun = true
+      return this.running
+    }
+
+    this.running = this.run().then(() => {
+      this.running = null
+      if (this.pendingRun) {
+        this.pendingRun = false
+        this.sync()
+      }
+    })
+    return this.running
+  }
+
+  private scheduleFlush() {
+    if (!this.handlers || this.disabled) return
+    clearTimeout(this.flushTimer)
+    this.flushTimer = setTimeout(() => this.sync(), FLUSH_DELAY)
+  }
+
+  private async run() {
+    // Офлайн: очередь дождётся события online
+    if (!navigator.onLine) return
+
+    try {
+      if (!this.userChecked) {
+        await this.checkUser()
+      }
+      await this.pushDeletions()
+      await this.pushChats()
+      await this.pull()
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        this.disabled = true
+      } else if (error instanceof StorageDisabledError) {
+        this.disabled = true
+        safeLogger.info('💾 Серверное хранение чатов отключено, история остаётся в браузере')
+      } else {
+        safeLogger.warn('📴 Синхронизация чатов отложена:', error instanceof Error ? error.message : error)
+      }
+    }
+  }
+
+  /**
+   * История в браузере принадлежит вошедшему пользователю; если вошёл другой,
+   * локальные чаты прежнего пользователя убираются, а не уходят в чужой аккаунт.
+   * Локальная история без владельца (до появления входа) переходит текущему.
+   */
+  private async checkUser() {
+    const { user } = await AuthClient.getSession()
+    if (!user) {
+      window.location.assign(AuthClient.LOGIN_PAGE)
+      throw new UnauthorizedError()
+    }
+
+    if (this.queue.userId && this.queue.userId !== user.id) {
+      const handlers = this.handlers as SyncHandlers
+      handlers.applyRemote([], handlers.getChats().map(chat => chat.id))
+      this.queue = createQueue()
+    }
+
+    this.queue.userId = user.id
+    this.saveQueue()
+    this.userChecked = true
+  }
+
+  private async pushDeletions() {
+    const handlers = this.handlers as SyncHandlers
+
+    for (const item of [...this.queue.deleted]) {
+      const response = await this.request(
+        `${API_ENDPOINT}/${encodeURIComponent(item.id)}?deletedAt=${encodeURIComponent(item.deletedAt)}`,
+        { method: 'DELETE' }
+      )
+
+      if (response.status === 409) {
+        // На другом устройстве чат изменили позже удаления — возвращаем его
+        const data = await response.json()
+        if (data.chat) handlers.applyRemote([reviveChat(data.chat)], [])
+      } else if (!response.ok && response.status !== 404) {
+        throw new Error(`Удаление чата: HTTP ${response.status}`)
+      }
+
+      this.queue.deleted = this.queue.deleted.filter(deleted => deleted !== item)
+      this.saveQueue()
+    }
+  }
+
+  private async pushChats() {
+    const handlers = this.handlers as SyncHandlers
+
+    for (const chatId of [...this.queue.dirty]) {
+      const chat = handlers.getChats().find(item => item.id === chatId)
+      if (!chat) {
+        this.removeDirty(chatId)
+        continue
+      }
+
+      const response = await this.request(`${API_ENDPOINT}/${encodeURIComponent(chatId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(chat)
+      })
+
+      if (response.status === 410) {
+        // Чат удалён на другом устройстве позже, чем изменён здесь
+        handlers.applyRemote([], [chatId])
+        this.removeDirty(chatId)
+        continue
+      }
+      if (response.status === 404) {
+        // id занят чатом другого пользователя — чат остаётся только в браузере
+        this.removeDirty(chatId)
+        continue
+      }
+      if (!response.ok) {
+        throw new Error(`Сохранение чата: HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      const current = handlers.getChats().find(item => item.id === chatId)
+      // Пока шёл запрос, чат могли изменить — тогда он остаётся в очереди
+      const unchanged = current === chat
+
+      if (data.merged) {
+        const remote = reviveChat(data.chat)
+        handlers.applyRemote([current && !unchanged ? mergeChats(current, remote) : remote], [])
+      }
+      if (unchanged) {
+        this.removeDirty(chatId)
+      }
+    }
+  }
+
+  private async pull() {
+    const handlers = this.handlers as SyncHandlers
+    const since = this.queue.lastPullAt ? `?since=${encodeURIComponent(this.queue.lastPullAt)}` : ''
+
+    const response = await this.request(`${API_ENDPOINT}${since}`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Получение чатов: HTTP ${response.status}`)
+    }
+
+    const data = await response.json()
+    const localChats = handlers.getChats()
+    const findLocal = (id: string) => localChats.find(chat => chat.id === id)
+
+    // Неотправленные локальные изменения не теряем: объединяем с версией сервера
+    const chats = (data.chats || []).map((raw: unknown) => {
+      const remote = reviveChat(raw)
+      const local = findLocal(remote.id)
+      return local && this.queue.dirty.includes(remote.id) ? mergeChats(local, remote) : remote
+    })
+
+    const deletedIds = (data.deleted || [])
+      .filter((item: { id: string; deletedAt: string }) => {
+        const local = findLocal(item.id)
+        return !local || !this.queue.dirty.includes(item.id) ||
+          local.updatedAt.getTime() <= new Date(item.deletedAt).getTime()
+      })
+      .map((item: { id: string }) => item.id)
+
+    if (chats.length > 0 || deletedIds.length > 0) {
+      handlers.applyRemote(chats, deletedIds)
+    }
+
+    this.queue.lastPullAt = data.serverTime
+    this.saveQueue()
+  }
+
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(url, init)
+    if (AuthClient.handleUnauthorized(response)) {
+      throw new UnauthorizedError()
+    }
+    if (response.status === 503) {
+      throw new StorageDisabledError()
+    }
+    return response
+  }
+
+  private removeDirty(chatId: string) {
+    this.queue.dirty = this.queue.dirty.filter(id => id !== chatId)
+    this.saveQueue()
+  }
+
+  private saveQueue() {
+    try {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue))
+    } catch (error) {
+      safeLogger.warn('Не удалось сохранить очередь синхронизации:', error)
+    }
+  }
+}
+
+// Создаём глобальный экземпляр
+export const chatSync = new ChatSync()
@@ -0,0 +1,208 @@
+/**
+ * Circuit breaker для AI провайдеров: closed → open → half-open → closed.
+ * В half-open одновременно идут не больше successThreshold пробных запросов,
+ * остальные получают отказ, пока проба не завершится
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number // Ошибок подряд до размыкания цепи
+  resetTimeout: number // Первое время в состоянии open, мс
+  maxResetTimeout: number // Верхняя граница backoff, мс
+  backoffMultiplier: number // Во сколько раз растёт время open после неудачной пробы
+  successThreshold: number // Успехов в half-open до замыкания цепи; столько же проб одновременно
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  consecutiveSuccesses: number
+  openedAt?: Date
+  nextAttemptAt?: Date
+  currentResetTimeout: number
+}
+
+export interface CircuitStateChange {
+  from: CircuitState
+  to: CircuitState
+  at: Date
+  reason: string
+}
+
+/**
+ * Настройки цепи из окружения (CIRCUIT_*).
+ * CIRCUIT_FAILURE_THRESHOLD, если задан, переопределяет порог провайдера.
+ */
+export function getCircuitConfig(defaultFailureThreshold: number): CircuitBreakerConfig {
+  const number = (name: string, fallback: number) => {
+    const value = Number(process.env[name])
+    return process.env[name] && !isNaN(value) && value > 0 ? value : fallback
+  }
+
+  return {
+    failureThreshold: number('CIRCUIT_FAILURE_THRESHOLD', defaultFailureThreshold),
+    resetTimeout: number('CIRCUIT_RESET_TIMEOUT_MS', 30 * 1000),
+    maxResetTimeout: number('CIRCUIT_MAX_RESET_TIMEOUT_MS', 10 * 60 * 1000),
+    backoffMultiplier: number('CIRCUIT_BACKOFF_MULTIPLIER', 2),
+    successThreshold: number('CIRCUIT_SUCCESS_THRESHOLD', 1)
+  }
+}
+
+// Освобождает место пробного запроса; повторный вызов ничего не делает
+export type CircuitRelease = () => void
+
+export class CircuitOpenError extends Error {
+  constructor(provider: string) {
+    super(`Провайдер ${provider} временно недоступен: цепь разомкнута или пробный запрос уже выполняется`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private consecutiveSuccesses = 0
+  private openedAt?: number
+  private nextAttemptAt?: number
+  private currentResetTimeout: number
+  private probesInFlight = 0
+  private period = 0 // Номер периода состояния: места проб прошлого half-open не освобождают новые
+
+  constructor(
+    private readonly config: CircuitBreakerConfig,
+    private readonly onStateChange?: (change: CircuitStateChange) => void
+  ) {
+    this.currentResetTimeout = config.resetTimeout
+  }
+
+  getState(): CircuitState {
+    return this.state
+  }
+
+  /**
+   * Можно ли отправить запрос. Истёкший open переходит в half-open.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.nextAttemptAt !== undefined && Date.now() >= this.nextAttemptAt) {
+      this.transition('half-open', 'истёк таймаут open')
+    }
+    if (this.state === 'half-open') {
+      return this.probesInFlight < this.config.successThreshold
+    }
+    return this.state !== 'open'
+  }
+
+  /**
+   * Занять место для запроса; null — запрос сейчас нельзя отправлять.
+   * В half-open место пробы держится до вызова release
+   */
+  tryAcquire(): CircuitRelease | null {
+    if (!this.canRequest()) return null
+    if (this.state !== 'half-open') return () => {}
+
+    this.probesInFlight++
+    const period = this.period
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      if (period === this.period) {
+        this.probesInFlight--
+      }
+    }
+  }
+
+  /**
+   * Время, когда цепь разрешит пробный запрос
+   */
+  getNextAttemptAt(): number | undefined {
+    return this.state === 'open' ? this.nextAttemptAt : undefined
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0
+
+    if (this.state === 'half-open') {
+      this.consecutiveSuccesses++
+      if (this.consecutiveSuccesses >= this.config.successThreshold) {
+        this.currentResetTimeout = this.config.resetTimeout
+        this.transition('closed', 'пробный запрос успешен')
+      }
+    } else if (this.state === 'open') {
+      // Успех вне очереди (например, проверка здоровья) — даём пробный трафик
+      this.transition('half-open', 'проверка здоровья успешна')
+    }
+  }
+
+  recordFailure(reason: string) {
+    this.consecutiveSuccesses = 0
+    this.consecutiveFailures++
+
+    if (this.state === 'half-open') {
+      // Проба не удалась — увеличиваем время ожидания
+      this.currentResetTimeout = Math.min(
+        this.currentResetTimeout * this.config.backoffMultiplier,
+        this.config.maxResetTimeout
+      )
+      this.open(`пробный запрос не удался: ${reason}`)
+    } else if (this.state === 'open') {
+      this.currentResetTimeout = Math.min(
+        this.currentResetTimeout * this.config.backoffMultiplier,
+        this.config.maxResetTimeout
+      )
+      this.open(`проверка не удалась: ${reason}`)
+    } else if (this.consecutiveFailures >= this.config.failureThreshold) {
+      this.open(`${this.consecutiveFailures} ошибок подряд: ${reason}`)
+    }
+  }
+
+  /**
+   * Принудительно замкнуть цепь (ручной сброс)
+   */
+  reset() {
+    this.consecutiveFailures = 0
+    this.consecutiveSuccesses = 0
+    this.currentResetTimeout = this.config.resetTimeout
+    if (this.state !== 'closed') {
+      this.transition('closed', 'ручной сброс')
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      consecutiveSuccesses: this.consecutiveSuccesses,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+      nextAttemptAt: this.state === 'open' && this.nextAttemptAt !== undefined
+        ? new Date(this.nextAttemptAt)
+        : undefined,
+      currentResetTimeout: this.currentResetTimeout
+    }
+  }
+
+  private open(reason: string) {
+    this.openedAt = Date.now()
+    this.nextAttemptAt = this.openedAt + this.currentResetTimeout
+    this.transition('open', reason)
+  }
+
+  private transition(to: CircuitState, reason: string) {
+    const from = this.state
+    this.state = to
+    if (to !== 'open') {
+      this.nextAttemptAt = undefined
+    }
+    if (to === 'half-open') {
+      this.consecutiveSuccesses = 0
+    }
+    if (from !== to) {
+      this.period++
+      this.probesInFlight = 0
+    }
+    if (from !== to || to === 'open') {
+      this.onStateChange?.({ from, to, at: new Date(), reason })
+    }
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Сборка контекста запроса к модели: системный промпт, история и вопрос
+ * должны поместиться в окно контекста вместе с бюджетом на ответ.
+ * Старые сообщения истории, которые не поместились, отбрасываются — об этом сообщает отчёт
+ */
+
+import { safeLogger } from './logger'
+import type { ChatHistory } from './providers/types'
+import { countMessageTokens } from './tokenizer'
+
+// Окно контекста модели, размер которой неизвестен
+export const DEFAULT_CONTEXT_WINDOW = 4096
+
+const REPLY_PRIMING = 3 // Токены начала ответа ассистента в шаблоне чата
+
+export interface ContextBuildOptions {
+  systemPrompt?: string // Пусто — провайдер не принимает системный промпт
+  history: ChatHistory
+  message: string
+  contextWindow?: number
+  maxOutputTokens: number // Резерв под ответ модели
+  model?: string
+  historyLimit?: number // Дополнительное ограничение числа сообщений истории
+}
+
+// Что вошло в контекст и что пришлось отбросить
+export interface ContextReport {
+  contextWindow: number
+  promptTokens: number // Системный промпт, история и вопрос
+  outputBudget: number
+  historyMessages: number
+  droppedMessages: number // Старые сообщения, не поместившиеся в окно
+  droppedTokens: number
+}
+
+export interface BuiltContext {
+  history: ChatHistory
+  report: ContextReport
+}
+
+/**
+ * Вопрос с системным промптом не помещается в окно модели даже без истории
+ */
+export class ContextOverflowError extends Error {
+  constructor(
+    readonly requiredTokens: number,
+    readonly availableTokens: number,
+    model?: string
+  ) {
+    super(`Запрос не помещается в контекст${model ? ` модели ${model}` : ''}: ${requiredTokens} токенов при доступных ${availableTokens}`)
+    this.name = 'ContextOverflowError'
+  }
+}
+
+/**
+ * Оставляет самые свежие сообщения истории, которые помещаются в окно.
+ * Первое оставленное сообщение — вопрос пользователя, а не ответ без вопроса
+ */
+export function buildContext({
+  systemPrompt,
+  history,
+  message,
+  contextWindow = DEFAULT_CONTEXT_WINDOW,
+  maxOutputTokens,
+  model,
+  historyLimit
+}: ContextBuildOptions): BuiltContext {
+  const available = contextWindow - maxOutputTokens - REPLY_PRIMING
+  const fixedTokens = (systemPrompt ? countMessageTokens(systemPrompt, model) : 0) + countMessageTokens(message, model)
+  if (fixedTokens > available) {
+    throw new ContextOverflowError(fixedTokens, Math.max(0, available), model)
+  }
+
+  const tokens = history.map(item => countMessageTokens(item.content, model))
+  const earliest = historyLimit !== undefined ? Math.max(0, history.length - historyLimit) : 0
+  let start = history.length
+  let used = fixedTokens
+
+  while (start > earliest && used + tokens[start - 1] <= available) {
+    start--
+    used += tokens[start]
+  }
+  while (start < history.length && history[start].role === 'assistant') {
+    used -= tokens[start]
+    start++
+  }
+
+  const droppedTokens = tokens.slice(0, start).reduce((total, count) => total + count, 0)
+  const report: ContextReport = {
+    contextWindow,
+    promptTokens: used,
+    outputBudget: maxOutputTokens,
+    historyMessages: history.length - start,
+    droppedMessages: start,
+    droppedTokens
+  }
+
+  if (start > 0) {
+    safeLogger.info(`✂️ Контекст${model ? ` ${model}` : ''}: отброшено ${start} старых сообщений (${droppedTokens} токенов), осталось ${report.historyMessages}`)
+  }
+
+  return { history: history.slice(start), report }
+}
@@ -0,0 +1,33 @@
+/**
+ * CORS для API. Разрешены только источники из CORS_ALLOWED_ORIGINS (через запятую);
+ * без настройки браузер пускает к API только сам сайт
+ */
+
+function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+}
+
+/**
+ * CORS заголовки для источника запроса; пустой объект — источник не разрешён
+ */
+export function getCorsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers.get('origin')
+  if (!origin || !getAllowedOrigins().includes(origin)) return {}
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true', // Сессия передаётся в cookie
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, X-Request-Id',
+    'Access-Control-Expose-Headers': 'Retry-After, X-Request-Id',
+    'Vary': 'Origin'
+  }
+}
+
+export function applyCorsHeaders<T extends Response>(response: T, request: Request): T {
+  Object.entries(getCorsHeaders(request)).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
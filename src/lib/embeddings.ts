@@ -0,0 +1,77 @@
+/**
+ * Локальные векторы текста для семантического кэша ответов.
+ * По умолчанию — хэширование признаков: слова и триграммы букв раскладываются
+ * по фиксированному числу измерений. Без модели и сети, но перефразы с теми же
+ * словами и формами слов оказываются рядом. Функцию можно заменить своей
+ */
+
+// Вектор текста; сравнивается косинусным сходством
+export type EmbeddingFunction = (text: string) => number[]
+
+export const HASHING_DIMENSIONS = 512
+
+// Триграммы весят меньше слов: они ловят формы слова, но не должны перевешивать смысл
+const TRIGRAM_WEIGHT = 0.5
+
+/**
+ * Текст без регистра, пунктуации и лишних пробелов; ё не отличается от е
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^a-zа-я0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// FNV-1a: быстрый 32-битный хэш строки
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Вектор по хэшам слов и триграмм букв, нормированный к единичной длине.
+ * Знак измерения берётся из старшего бита хэша — случайные совпадения взаимно гасятся
+ */
+export function hashingEmbedding(text: string, dimensions: number = HASHING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const add = (feature: string, weight: number) => {
+    const hash = hashString(feature)
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight
+  }
+
+  for (const word of normalizeText(text).split(' ')) {
+    if (!word) continue
+    add(`w:${word}`, 1)
+    const padded = ` ${word} `
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT)
+    }
+  }
+
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length > 0 ? vector.map(value => value / length) : vector
+}
+
+/**
+ * Косинусное сходство от -1 до 1; для пустых и разноразмерных векторов — 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
@@ -0,0 +1,93 @@
+/**
+ * Проверки живости (liveness) и готовности (readiness) сервиса
+ */
+
+import packageJson from '../../package.json'
+import { providerManager } from './provider-manager'
+import { getProviderConfigErrors } from './providers'
+import { responseCache } from './response-cache'
+
+export type ReadinessStatus = 'ready' | 'degraded' | 'not_ready'
+
+export interface ReadinessCheck {
+  ok: boolean
+  message?: string
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus
+  timestamp: string
+  version: string
+  checks: {
+    providers: ReadinessCheck & { available: string[]; enabled: number }
+    cache: ReadinessCheck
+    config: ReadinessCheck & { errors: string[] }
+  }
+}
+
+export interface LivenessReport {
+  status: 'ok'
+  timestamp: string
+  version: string
+  uptime: number
+}
+
+/**
+ * Процесс жив и отвечает на запросы — без обращения к внешним сервисам
+ */
+export function getLiveness(): LivenessReport {
+  return {
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    version: packageJson.version,
+    uptime: process.uptime()
+  }
+}
+
+/**
+ * Может ли сервис отвечать на сообщения чата.
+ * not_ready — нет ни одного доступного провайдера или недоступен кэш,
+ * degraded — работает, но в конфигурации провайдеров есть ошибки.
+ * С runHealthChecks перед ответом выполняются проверки здоровья провайдеров.
+ */
+export async function getReadiness(runHealthChecks = false): Promise<ReadinessReport> {
+  const statuses = runHealthChecks
+    ? await providerManager.checkAllProviders()
+    : providerManager.getProvidersStatus()
+
+  const enabled = statuses.filter(status => providerManager.getProviderConfig(status.name)?.enabled)
+  const available = enabled.filter(status => status.isHealthy).map(status => status.name)
+
+  const providers = {
+    ok: available.length > 0,
+    available,
+    enabled: enabled.length,
+    message: enabled.length === 0
+      ? 'Нет включённых провайдеров. Проверьте настройки API ключей.'
+      : available.length === 0 ? 'Все провайдеры недоступны' : undefined
+  }
+
+  const cacheOk = await responseCache.ping()
+  const cache = {
+    ok: cacheOk,
+    message: cacheOk ? undefined : 'Кэш ответов недоступен'
+  }
+
+  const errors = getProviderConfigErrors()
+  const config = {
+    ok: errors.length === 0,
+    errors,
+    message: errors.length > 0 ? 'Ошибки в конфигурации провайдеров' : undefined
+  }
+
+  const status: ReadinessStatus = !providers.ok || !cache.ok
+    ? 'not_ready'
+    : config.ok ? 'ready' : 'degraded'
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    version: packageJson.version,
+    checks: { providers, cache, config }
+  }
+}
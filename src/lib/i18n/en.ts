@@ -0,0 +1,248 @@
+/**
+ * Строки интерфейса на английском
+ */
+
+import type { MessageKey } from './ru'
+
+export const en: Record<MessageKey, string> = {
+  // Уведомления
+  'toast.success': 'Success',
+  'toast.error': 'Error',
+  'toast.warning': 'Warning',
+  'toast.info': 'Info',
+  'toast.region': 'Notifications',
+  'toast.close': 'Close notification',
+  'feedback.actionSuccess': 'Done',
+  'feedback.actionError': 'Something went wrong',
+  'feedback.copied': 'Text copied to clipboard',
+  'feedback.copyFailed': 'Could not copy text',
+  'feedback.downloaded': 'File "{filename}" downloaded',
+  'feedback.downloadFailed': 'Could not download file',
+  'feedback.loading': 'Loading...',
+  'feedback.error': 'Something went wrong',
+
+  // Режимы, роли и тон
+  'mode.fast.full': 'Quick answer',
+  'mode.fast.short': 'Quick',
+  'mode.fast.description': 'Quick mode for instant answers',
+  'mode.deep.full': 'Deep analysis',
+  'mode.deep.short': 'Deep',
+  'mode.deep.description': 'Deep analysis mode for complex tasks',
+  'mode.creative.full': 'Creative mode',
+  'mode.creative.short': 'Creative',
+  'mode.creative.description': 'Creative mode for stories, ideas and poems',
+  'persona.none': 'General assistant',
+  'persona.technical': 'Technical expert',
+  'persona.educational': 'Teacher',
+  'persona.creative': 'Creative partner',
+  'persona.analytical': 'Analyst',
+  'style.casual': 'Casual',
+  'style.formal': 'Formal',
+
+  // Язык
+  'language.interface': 'Interface language: {language}',
+  'language.reply': 'Reply language',
+  'language.replyAuto': 'Same as question',
+
+  // Список чатов
+  'chatList.navigation': 'Chat navigation',
+  'chatList.newChat': 'New chat',
+  'chatList.createChat': 'Create a new chat',
+  'chatList.created': 'New chat created',
+  'chatList.createFailed': 'Could not create a new chat',
+  'chatList.deleted': 'Chat deleted',
+  'chatList.deleteFailed': 'Could not delete the chat',
+  'chatList.stats': 'Statistics',
+  'chatList.chatCount': 'Chats: {count}',
+  'chatList.messageCount': 'Messages: {count}',
+  'chatList.loading': 'Loading...',
+  'chatList.searchLabel': 'Search chats',
+  'chatList.searchPlaceholder': 'Search chats...',
+  'chatList.searchDescription': 'Type to search chat titles and messages',
+  'chatList.list': 'Chat list',
+  'chatList.loadingChats': 'Loading chats...',
+  'chatList.notFound': 'No chats found',
+  'chatList.empty': 'No chats yet',
+  'chatList.open': 'Open chat: {title}',
+  'chatList.mode': 'Mode: {mode}',
+  'chatList.fromUser': 'You:',
+  'chatList.fromAssistant': 'AI:',
+  'chatList.confirmDelete': 'Confirm chat deletion',
+  'chatList.cancelDelete': 'Cancel deletion',
+  'chatList.delete': 'Delete chat: {title}',
+
+  // Поле ввода
+  'input.placeholder': 'Type a message...',
+  'input.modeLabel': 'Mode:',
+  'input.currentMode': 'Current mode: {mode}. Click to change',
+  'input.persona': 'Assistant role',
+  'input.style': 'Reply tone',
+  'input.label': 'Type your message',
+  'input.field': 'Message input',
+  'input.stop': 'Stop generating',
+  'input.sending': 'Sending message...',
+  'input.send': 'Send message',
+  'input.hint': 'Enter to send, Shift+Enter for a new line',
+  'input.hintShort': 'Enter - send, Shift+Enter - new line',
+  'input.deepEnabled': '🧠 Deep analysis mode is on',
+  'input.creativeEnabled': '🎨 Creative mode is on',
+  'input.charCount': 'Characters: {count} of {max}',
+  'input.nearLimit': '⚠️ Close to the limit',
+
+  // Горячие клавиши
+  'hotkeys.newChat': 'New chat',
+  'hotkeys.focusInput': 'Focus the message input',
+  'hotkeys.toggleTheme': 'Toggle theme',
+  'hotkeys.send': 'Send message',
+  'hotkeys.newLine': 'New line',
+  'hotkeys.cancel': 'Cancel',
+  'hotkeys.show': 'Show keyboard shortcuts',
+  'hotkeys.buttonTitle': 'Keyboard shortcuts (press ? to show)',
+  'hotkeys.title': 'Keyboard shortcuts',
+  'hotkeys.close': 'Close',
+  'hotkeys.footerBefore': 'Press',
+  'hotkeys.footerAfter': 'to show/hide this window',
+
+  // Сообщение
+  'message.you': 'You',
+  'message.system': 'System',
+  'message.formal': 'formal',
+  'message.plan': 'Answer plan',
+  'message.reasoning': 'Model reasoning',
+  'message.noReasoning': 'The model did not reveal its reasoning',
+  'message.typing': 'Typing...',
+  'message.editLabel': 'Edit message',
+  'message.send': 'Send',
+  'message.cancel': 'Cancel',
+  'message.droppedContext': '✂️ The start of the conversation did not fit into the model context (messages skipped: {count})',
+  'message.stoppedPartial': '⏹ Generation stopped, the answer is incomplete',
+  'message.stoppedEmpty': '⏹ Generation stopped before the answer started',
+  'message.branches': 'Message versions',
+  'message.variants': 'Answer versions',
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.copy': 'Copy',
+  'message.edit': 'Edit',
+  'message.regenerate': 'Regenerate',
+  'message.regenerate.fast': 'Regenerate quickly',
+  'message.regenerate.deep': 'Regenerate with deep analysis',
+  'message.regenerate.creative': 'Regenerate creatively',
+
+  // Блок кода
+  'code.language': 'code',
+  'code.copyLabel': 'Copy code',
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+
+  // Краткое содержание
+  'summary.title': 'Summary of the earlier conversation',
+  'summary.edited': '(edited manually)',
+  'summary.hide': 'Hide summary',
+  'summary.editLabel': 'Edit summary',
+  'summary.note': 'The model sees this summary instead of the earlier messages. Updated {date}',
+  'summary.save': 'Save',
+  'summary.cancel': 'Cancel',
+  'summary.edit': 'Edit',
+  'summary.delete': 'Delete',
+
+  // Выбор модели
+  'model.label': 'Model for this chat',
+  'model.title': 'Model for this chat. If it fails, the next available provider answers',
+  'model.loading': 'Loading models...',
+  'model.auto': 'Auto (best available)',
+  'model.unavailableModel': '{model} (unavailable)',
+  'model.unavailableProvider': '{provider} (unavailable)',
+  'model.byMode': '{provider}: by mode ({fast} / {deep})',
+
+  // Библиотека промптов
+  'prompts.title': 'Prompt library',
+  'prompts.new': 'New prompt',
+  'prompts.import': 'Import',
+  'prompts.export': 'Export',
+  'prompts.hide': 'Hide prompt library',
+  'prompts.saved': 'Prompt saved',
+  'prompts.updated': 'Prompt updated',
+  'prompts.imported': 'Prompts imported: {count}',
+  'prompts.importFailed': 'Failed to import prompts: {error}',
+  'prompts.unknownError': 'unknown error',
+  'prompts.namePlaceholder': 'Name, e.g. “Code reviewer”',
+  'prompts.nameLabel': 'Prompt name',
+  'prompts.contentPlaceholder': 'System prompt: who the assistant is, how and in which language it answers',
+  'prompts.contentLabel': 'Prompt text',
+  'prompts.modeLabel': 'Default mode',
+  'prompts.temperaturePlaceholder': 'Mode temperature',
+  'prompts.temperatureLabel': 'Temperature from {min} to {max}; empty — mode temperature',
+  'prompts.save': 'Save',
+  'prompts.cancel': 'Cancel',
+  'prompts.empty': 'Save your own system prompts — a code reviewer or a translator, for example — and attach them to chats.',
+  'prompts.connect': 'Attach',
+  'prompts.disconnect': 'Detach',
+  'prompts.edit': 'Edit',
+  'prompts.delete': 'Delete',
+  'prompts.deleteLabel': 'Delete prompt {name}',
+  'prompts.confirmDelete': 'Delete for sure?',
+  'prompts.confirmDeleteLabel': 'Confirm deleting prompt {name}',
+  'prompts.activeNote': 'An attached prompt replaces the built-in system prompt, and its answers are not added to the shared response cache.',
+
+  // Окно чата
+  'chat.title': 'Chat: {title}',
+  'chat.messageCount': '{count} messages',
+  'chat.messageCountLabel': 'Number of messages: {count}',
+  'chat.openMenu': 'Open navigation menu',
+  'chat.moreOptions': 'More chat options',
+  'chat.history': 'Chat message history',
+  'chat.emptyTitle': 'Start a new conversation',
+  'chat.emptyHint': 'Ask a question or share your thoughts',
+  'chat.userMessageLabel': 'Your message {index} of {count}',
+  'chat.assistantMessageLabel': 'AI message {index} of {count}',
+  'chat.typing': 'The AI assistant is typing an answer',
+  'chat.thinking': 'Komair is thinking...',
+  'chat.welcomeTitle': 'Welcome to Komair',
+  'chat.welcomeText': 'A smart AI assistant for quick conversations and deep analysis',
+  'chat.featureFast': 'Fast mode for instant answers',
+  'chat.featureDeep': 'Deep analysis for complex tasks',
+  'chat.featureHistory': 'History and search across all chats',
+  'chat.startLabel': 'Create a new chat to start a conversation',
+  'chat.start': 'Start a new chat',
+  'chat.answerError': 'Error: {error}',
+  'chat.answerErrorFallback': 'Sorry, something went wrong while processing your request.',
+  'chat.answerFailed': 'Failed to get an answer: {error}',
+  'chat.unknownError': 'Unknown error',
+  'chat.mockAnswer': 'Test answer received. Set up a real AI provider for a better experience.',
+  'chat.sendFailed': 'A critical error occurred while sending the message',
+
+  // Статус подключения и тема
+  'status.online': 'Connected',
+  'status.offline': 'Offline',
+  'status.connecting': 'Connecting...',
+  'status.error': 'Connection error',
+  'status.connectionLabel': 'Connection status: {status}',
+  'status.apiReady': 'API ready',
+  'status.apiBusy': 'Processing request...',
+  'status.apiError': 'API error',
+  'status.apiLabel': 'API status: {status}',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'theme.toggle': 'Change theme (current: {theme})',
+
+  // Вход и выход
+  'auth.loginTitle': 'Sign in to continue',
+  'auth.registerTitle': 'Create an account',
+  'auth.namePlaceholder': 'Name (optional)',
+  'auth.passwordPlaceholder': 'Password',
+  'auth.wait': 'Please wait...',
+  'auth.login': 'Sign in',
+  'auth.register': 'Sign up',
+  'auth.loginWith': 'Sign in with {provider}',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.noAccount': 'No account yet?',
+  'auth.noMethods': 'No sign-in methods are configured. Contact your administrator.',
+  'auth.loginFailed': 'Sign-in failed',
+  'auth.oidcFailed': 'Sign-in with the external service failed. Please try again.',
+  'auth.oidcUnavailable': 'The sign-in service is unavailable right now.',
+  'auth.oidcDisabled': 'Sign-in with an external service is disabled.',
+  'auth.logout': 'Sign out',
+  'auth.logoutAs': 'Sign out ({email})',
+  'auth.logoutLabel': 'Sign out of your account'
+}
@@ -0,0 +1,65 @@
+/**
+ * Локализация: словари интерфейса и определение языка текста.
+ * Общая для клиента и сервера — сервер по тем же правилам выбирает язык ответа
+ */
+
+import type { Language } from '../types'
+import { en } from './en'
+import { ru, type MessageKey } from './ru'
+
+export type { Language, MessageKey }
+
+export const LANGUAGES: Language[] = ['ru', 'en']
+export const DEFAULT_LANGUAGE: Language = 'ru'
+
+// Название языка на нём самом — одинаково в любом интерфейсе
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ru: 'Русский',
+  en: 'English'
+}
+
+// Локаль для дат и чисел
+export const LOCALES: Record<Language, string> = {
+  ru: 'ru-RU',
+  en: 'en-US'
+}
+
+const DICTIONARIES: Record<Language, Record<MessageKey, string>> = { ru, en }
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language)
+}
+
+/**
+ * Строка словаря с подстановкой параметров вида {name}
+ */
+export function translate(language: Language, key: MessageKey, params?: Record<string, string | number>): string {
+  const text = DICTIONARIES[language][key] ?? ru[key]
+  if (!params) return text
+  return text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match)
+}
+
+/**
+ * Язык текста по словам: кириллица — русский, латиница — английский.
+ * Код и ссылки не считаются, при равенстве — русский. null — слов в тексте нет
+ */
+export function detectLanguage(text: string): Language | null {
+  const prose = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+
+  const cyrillicWords = (prose.match(/[а-яё]{2,}/gi) || []).length
+  const latinWords = (prose.match(/\b[a-z]{2,}\b/gi) || []).length
+  if (cyrillicWords === 0 && latinWords === 0) return null
+  return cyrillicWords >= latinWords ? 'ru' : 'en'
+}
+
+/**
+ * Язык браузера, если для него есть словарь
+ */
+export function getBrowserLanguage(): Language | null {
+  if (typeof navigator === 'undefined') return null
+  const code = navigator.language?.slice(0, 2).toLowerCase()
+  return isLanguage(code) ? code : null
+}
@@ -0,0 +1,248 @@
+/**
+ * Строки интерфейса на русском — основной словарь: по его ключам проверяются остальные
+ */
+
+export const ru = {
+  // Уведомления
+  'toast.success': 'Успешно',
+  'toast.error': 'Ошибка',
+  'toast.warning': 'Предупреждение',
+  'toast.info': 'Информация',
+  'toast.region': 'Уведомления',
+  'toast.close': 'Закрыть уведомление',
+  'feedback.actionSuccess': 'Операция выполнена успешно',
+  'feedback.actionError': 'Произошла ошибка при выполнении операции',
+  'feedback.copied': 'Текст скопирован в буфер обмена',
+  'feedback.copyFailed': 'Не удалось скопировать текст',
+  'feedback.downloaded': 'Файл "{filename}" загружен',
+  'feedback.downloadFailed': 'Не удалось загрузить файл',
+  'feedback.loading': 'Загрузка...',
+  'feedback.error': 'Произошла ошибка',
+
+  // Режимы, роли и тон
+  'mode.fast.full': 'Быстрый ответ',
+  'mode.fast.short': 'Быстрый',
+  'mode.fast.description': 'Быстрый режим для мгновенных ответов',
+  'mode.deep.full': 'Глубокий анализ',
+  'mode.deep.short': 'Глубокий',
+  'mode.deep.description': 'Режим глубокого анализа для сложных задач',
+  'mode.creative.full': 'Творческий режим',
+  'mode.creative.short': 'Творческий',
+  'mode.creative.description': 'Творческий режим для историй, идей и стихов',
+  'persona.none': 'Универсальный ассистент',
+  'persona.technical': 'Технический эксперт',
+  'persona.educational': 'Преподаватель',
+  'persona.creative': 'Творческий помощник',
+  'persona.analytical': 'Аналитик',
+  'style.casual': 'Неформально',
+  'style.formal': 'Официально',
+
+  // Язык
+  'language.interface': 'Язык интерфейса: {language}',
+  'language.reply': 'Язык ответа',
+  'language.replyAuto': 'Язык вопроса',
+
+  // Список чатов
+  'chatList.navigation': 'Навигация по чатам',
+  'chatList.newChat': 'Новый чат',
+  'chatList.createChat': 'Создать новый чат',
+  'chatList.created': 'Новый чат создан',
+  'chatList.createFailed': 'Не удалось создать новый чат',
+  'chatList.deleted': 'Чат успешно удалён',
+  'chatList.deleteFailed': 'Не удалось удалить чат',
+  'chatList.stats': 'Статистика',
+  'chatList.chatCount': 'Чатов: {count}',
+  'chatList.messageCount': 'Сообщений: {count}',
+  'chatList.loading': 'Загрузка...',
+  'chatList.searchLabel': 'Поиск по чатам',
+  'chatList.searchPlaceholder': 'Поиск чатов...',
+  'chatList.searchDescription': 'Введите текст для поиска по названиям чатов и сообщениям',
+  'chatList.list': 'Список чатов',
+  'chatList.loadingChats': 'Загрузка чатов...',
+  'chatList.notFound': 'Чаты не найдены',
+  'chatList.empty': 'Нет чатов',
+  'chatList.open': 'Открыть чат: {title}',
+  'chatList.mode': 'Режим: {mode}',
+  'chatList.fromUser': 'Вы:',
+  'chatList.fromAssistant': 'AI:',
+  'chatList.confirmDelete': 'Подтвердить удаление чата',
+  'chatList.cancelDelete': 'Отменить удаление',
+  'chatList.delete': 'Удалить чат: {title}',
+
+  // Поле ввода
+  'input.placeholder': 'Напишите сообщение...',
+  'input.modeLabel': 'Режим:',
+  'input.currentMode': 'Текущий режим: {mode}. Нажмите для смены',
+  'input.persona': 'Роль ассистента',
+  'input.style': 'Тон ответа',
+  'input.label': 'Напишите ваше сообщение',
+  'input.field': 'Поле ввода сообщения',
+  'input.stop': 'Остановить генерацию',
+  'input.sending': 'Отправка сообщения...',
+  'input.send': 'Отправить сообщение',
+  'input.hint': 'Enter для отправки, Shift+Enter для новой строки',
+  'input.hintShort': 'Enter - отправить, Shift+Enter - новая строка',
+  'input.deepEnabled': '🧠 Режим глубокого анализа включен',
+  'input.creativeEnabled': '🎨 Творческий режим включен',
+  'input.charCount': 'Количество символов: {count} из {max}',
+  'input.nearLimit': '⚠️ Близко к лимиту',
+
+  // Горячие клавиши
+  'hotkeys.newChat': 'Создать новый чат',
+  'hotkeys.focusInput': 'Перейти к полю ввода',
+  'hotkeys.toggleTheme': 'Переключить тему',
+  'hotkeys.send': 'Отправить сообщение',
+  'hotkeys.newLine': 'Новая строка',
+  'hotkeys.cancel': 'Отмена',
+  'hotkeys.show': 'Показать горячие клавиши',
+  'hotkeys.buttonTitle': 'Горячие клавиши (нажмите ? для показа)',
+  'hotkeys.title': 'Горячие клавиши',
+  'hotkeys.close': 'Закрыть',
+  'hotkeys.footerBefore': 'Нажмите',
+  'hotkeys.footerAfter': 'чтобы показать/скрыть это окно',
+
+  // Сообщение
+  'message.you': 'Вы',
+  'message.system': 'Система',
+  'message.formal': 'официально',
+  'message.plan': 'План ответа',
+  'message.reasoning': 'Рассуждения модели',
+  'message.noReasoning': 'Модель не раскрыла ход рассуждений',
+  'message.typing': 'Печатает...',
+  'message.editLabel': 'Изменить сообщение',
+  'message.send': 'Отправить',
+  'message.cancel': 'Отмена',
+  'message.droppedContext': '✂️ Начало разговора не вошло в контекст модели (пропущено сообщений: {count})',
+  'message.stoppedPartial': '⏹ Генерация остановлена, ответ неполный',
+  'message.stoppedEmpty': '⏹ Генерация остановлена до начала ответа',
+  'message.branches': 'Версии сообщения',
+  'message.variants': 'Версии ответа',
+  'message.previousVersion': 'Предыдущая версия',
+  'message.nextVersion': 'Следующая версия',
+  'message.copy': 'Копировать',
+  'message.edit': 'Изменить',
+  'message.regenerate': 'Повторить',
+  'message.regenerate.fast': 'Повторить быстро',
+  'message.regenerate.deep': 'Повторить с глубоким анализом',
+  'message.regenerate.creative': 'Повторить творчески',
+
+  // Блок кода
+  'code.language': 'код',
+  'code.copyLabel': 'Копировать код',
+  'code.copy': 'Копировать',
+  'code.copied': 'Скопировано',
+
+  // Краткое содержание
+  'summary.title': 'Краткое содержание начала разговора',
+  'summary.edited': '(изменено вручную)',
+  'summary.hide': 'Скрыть краткое содержание',
+  'summary.editLabel': 'Изменить краткое содержание',
+  'summary.note': 'Модель видит это краткое содержание вместо ранних сообщений. Обновлено {date}',
+  'summary.save': 'Сохранить',
+  'summary.cancel': 'Отмена',
+  'summary.edit': 'Изменить',
+  'summary.delete': 'Удалить',
+
+  // Выбор модели
+  'model.label': 'Модель для этого чата',
+  'model.title': 'Модель для этого чата. При ошибке ответит следующий доступный провайдер',
+  'model.loading': 'Загрузка моделей...',
+  'model.auto': 'Авто (лучший доступный)',
+  'model.unavailableModel': '{model} (недоступна)',
+  'model.unavailableProvider': '{provider} (недоступен)',
+  'model.byMode': '{provider}: по режиму ({fast} / {deep})',
+
+  // Библиотека промптов
+  'prompts.title': 'Библиотека промптов',
+  'prompts.new': 'Новый промпт',
+  'prompts.import': 'Импорт',
+  'prompts.export': 'Экспорт',
+  'prompts.hide': 'Скрыть библиотеку промптов',
+  'prompts.saved': 'Промпт сохранён',
+  'prompts.updated': 'Промпт обновлён',
+  'prompts.imported': 'Импортировано промптов: {count}',
+  'prompts.importFailed': 'Не удалось импортировать промпты: {error}',
+  'prompts.unknownError': 'неизвестная ошибка',
+  'prompts.namePlaceholder': 'Название, например «Ревьюер кода»',
+  'prompts.nameLabel': 'Название промпта',
+  'prompts.contentPlaceholder': 'Системный промпт: кто ассистент, как и на каком языке он отвечает',
+  'prompts.contentLabel': 'Текст промпта',
+  'prompts.modeLabel': 'Режим по умолчанию',
+  'prompts.temperaturePlaceholder': 'Температура режима',
+  'prompts.temperatureLabel': 'Температура от {min} до {max}; пусто — температура режима',
+  'prompts.save': 'Сохранить',
+  'prompts.cancel': 'Отмена',
+  'prompts.empty': 'Сохраните свои системные промпты — например, ревьюер кода или переводчик — и подключайте их к чатам.',
+  'prompts.connect': 'Подключить',
+  'prompts.disconnect': 'Отключить',
+  'prompts.edit': 'Изменить',
+  'prompts.delete': 'Удалить',
+  'prompts.deleteLabel': 'Удалить промпт {name}',
+  'prompts.confirmDelete': 'Точно удалить?',
+  'prompts.confirmDeleteLabel': 'Подтвердить удаление промпта {name}',
+  'prompts.activeNote': 'Подключённый промпт заменяет встроенный системный промпт и в общий кэш ответов не попадает.',
+
+  // Окно чата
+  'chat.title': 'Чат: {title}',
+  'chat.messageCount': '{count} сообщений',
+  'chat.messageCountLabel': 'Количество сообщений: {count}',
+  'chat.openMenu': 'Открыть меню навигации',
+  'chat.moreOptions': 'Дополнительные опции чата',
+  'chat.history': 'История сообщений чата',
+  'chat.emptyTitle': 'Начните новый разговор',
+  'chat.emptyHint': 'Задайте вопрос или поделитесь своими мыслями',
+  'chat.userMessageLabel': 'Ваше сообщение {index} из {count}',
+  'chat.assistantMessageLabel': 'ИИ сообщение {index} из {count}',
+  'chat.typing': 'ИИ-ассистент печатает ответ',
+  'chat.thinking': 'Komair думает...',
+  'chat.welcomeTitle': 'Добро пожаловать в Komair',
+  'chat.welcomeText': 'Умный ИИ-ассистент с возможностями быстрых диалогов и глубокого анализа',
+  'chat.featureFast': 'Быстрый режим для мгновенных ответов',
+  'chat.featureDeep': 'Глубокий анализ для сложных задач',
+  'chat.featureHistory': 'История и поиск по всем чатам',
+  'chat.startLabel': 'Создать новый чат для начала разговора',
+  'chat.start': 'Начать новый чат',
+  'chat.answerError': 'Ошибка: {error}',
+  'chat.answerErrorFallback': 'Извините, произошла ошибка при обработке вашего запроса.',
+  'chat.answerFailed': 'Не удалось получить ответ: {error}',
+  'chat.unknownError': 'Неизвестная ошибка',
+  'chat.mockAnswer': 'Тестовый ответ получен. Настройте реальный AI провайдер для лучшего опыта.',
+  'chat.sendFailed': 'Произошла критическая ошибка при отправке сообщения',
+
+  // Статус подключения и тема
+  'status.online': 'Подключено',
+  'status.offline': 'Не подключено',
+  'status.connecting': 'Подключение...',
+  'status.error': 'Ошибка подключения',
+  'status.connectionLabel': 'Статус подключения: {status}',
+  'status.apiReady': 'API готов',
+  'status.apiBusy': 'Обработка запроса...',
+  'status.apiError': 'Ошибка API',
+  'status.apiLabel': 'Статус API: {status}',
+  'theme.light': 'Светлая',
+  'theme.dark': 'Темная',
+  'theme.system': 'Системная',
+  'theme.toggle': 'Сменить тему (текущая: {theme})',
+
+  // Вход и выход
+  'auth.loginTitle': 'Войдите, чтобы продолжить',
+  'auth.registerTitle': 'Создайте учётную запись',
+  'auth.namePlaceholder': 'Имя (необязательно)',
+  'auth.passwordPlaceholder': 'Пароль',
+  'auth.wait': 'Подождите...',
+  'auth.login': 'Войти',
+  'auth.register': 'Зарегистрироваться',
+  'auth.loginWith': 'Войти через {provider}',
+  'auth.haveAccount': 'Уже есть учётная запись?',
+  'auth.noAccount': 'Нет учётной записи?',
+  'auth.noMethods': 'Способы входа не настроены. Обратитесь к администратору.',
+  'auth.loginFailed': 'Не удалось выполнить вход',
+  'auth.oidcFailed': 'Не удалось войти через внешний сервис. Попробуйте ещё раз.',
+  'auth.oidcUnavailable': 'Сервис входа сейчас недоступен.',
+  'auth.oidcDisabled': 'Вход через внешний сервис отключён.',
+  'auth.logout': 'Выйти',
+  'auth.logoutAs': 'Выйти ({email})',
+  'auth.logoutLabel': 'Выйти из учётной записи'
+}
+
+export type MessageKey = keyof typeof ru
@@ -0,0 +1,112 @@
+/**
+ * Приёмники логов сервера помимо консоли: файл JSON Lines и HTTP сборщик
+ * (Vector, Fluent Bit, Logstash, Loki через JSON-приёмник). Выбираются в LOG_SINKS
+ * и подключаются один раз при старте сервера (src/instrumentation.ts)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { addLogSink, safeLogger, type LogRecord, type LogSink } from './logger'
+
+const DEFAULT_LOG_FILE = 'logs/komair.log'
+const HTTP_BATCH_SIZE = 50
+const HTTP_FLUSH_INTERVAL = 1000
+const HTTP_TIMEOUT = 5000
+const HTTP_MAX_BUFFER = 1000
+
+function getSinkNames(): string[] {
+  return (process.env.LOG_SINKS || 'console').split(',').map(name => name.trim()).filter(Boolean)
+}
+
+/**
+ * Дописывает записи в файл, по одной строке JSON
+ */
+function createFileSink(filename: string): LogSink {
+  fs.mkdirSync(path.dirname(filename), { recursive: true })
+  const stream = fs.createWriteStream(filename, { flags: 'a' })
+  stream.on('error', error => {
+    // Не через safeLogger: запись об ошибке снова попала бы в этот приёмник
+    console.error('[ERROR] Ошибка записи лога в файл:', error.message)
+  })
+  return record => {
+    stream.write(`${JSON.stringify(record)}\n`)
+  }
+}
+
+/**
+ * Отправляет записи пачками: NDJSON методом POST, не чаще раза в секунду.
+ * Пока сборщик недоступен, хранит не больше HTTP_MAX_BUFFER последних записей
+ */
+function createHttpSink(url: string, token?: string): LogSink {
+  let buffer: LogRecord[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let sending = false
+
+  const flush = async () => {
+    timer = null
+    if (sending || buffer.length === 0) return
+    sending = true
+    const batch = buffer
+    buffer = []
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        body: batch.map(record => JSON.stringify(record)).join('\n'),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT)
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+    } catch (error) {
+      // Тоже мимо safeLogger: иначе каждая неудача добавляла бы запись в очередь
+      console.error('[ERROR] Сборщик логов недоступен:', error instanceof Error ? error.message : error)
+      buffer = [...batch, ...buffer].slice(-HTTP_MAX_BUFFER)
+    } finally {
+      sending = false
+    }
+    schedule()
+  }
+
+  const schedule = () => {
+    if (timer || buffer.length === 0) return
+    timer = setTimeout(flush, buffer.length >= HTTP_BATCH_SIZE ? 0 : HTTP_FLUSH_INTERVAL)
+    // Незаконченная отправка не держит процесс
+    timer.unref?.()
+  }
+
+  return record => {
+    buffer.push(record)
+    if (buffer.length > HTTP_MAX_BUFFER) {
+      buffer = buffer.slice(-HTTP_MAX_BUFFER)
+    }
+    if (buffer.length >= HTTP_BATCH_SIZE && timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    schedule()
+  }
+}
+
+/**
+ * Подключить приёмники из LOG_SINKS; консоль выводит сам safeLogger
+ */
+export function registerLogSinks() {
+  for (const name of getSinkNames()) {
+    if (name === 'console') continue
+
+    if (name === 'file') {
+      addLogSink(createFileSink(path.resolve(process.cwd(), process.env.LOG_FILE || DEFAULT_LOG_FILE)))
+    } else if (name === 'http' && process.env.LOG_HTTP_URL) {
+      addLogSink(createHttpSink(process.env.LOG_HTTP_URL, process.env.LOG_HTTP_TOKEN))
+    } else if (name === 'http') {
+      safeLogger.warn('⚠️ LOG_SINKS=http: не задан LOG_HTTP_URL, логи не отправляются')
+    } else {
+      safeLogger.warn(`⚠️ Неизвестный приёмник логов в LOG_SINKS: ${name}`)
+    }
+  }
+}
@@ -1,63 +1,228 @@
 /**
- * Безопасная утилита для логирования в SSR/клиентской среде
+ * Безопасная утилита для логирования в SSR/клиентской среде.
+ * На сервере каждая запись — объект с уровнем, временем и ID запроса: в dev выводится
+ * читаемой строкой, в production — строкой JSON (LOG_FORMAT). Ключи API, токены и пароли
+ * вырезаются из сообщений до вывода, текст пользователей — по LOG_REDACT_CONTENT
  */
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogRecord {
+  time: string // ISO 8601
+  level: LogLevel
+  msg: string
+  requestId?: string
+  args?: unknown[] // Дополнительные аргументы вызова, ошибки — { name, message, stack }
+}
+
+export type LogSink = (record: LogRecord) => void
+
+export interface RequestContext {
+  requestId: string
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+const REDACTED = '[REDACTED]'
+const MAX_DEPTH = 5
+const CONTENT_PREVIEW_LENGTH = 50
+
+// Имена полей с секретами: apiKey, password, clientSecret, accessToken, Authorization...
+const SECRET_KEY_PATTERN = /(password|secret|api[-_]?key|authorization|cookie|token)$/i
+// Имена переменных окружения (GROQ_API_KEY) — не поля с секретом: значения секретов
+// вырезаются по самому значению, а статус «ключ настроен» остаётся в логе
+const ENV_NAME_PATTERN = /^[A-Z0-9_]+$/
+// Поля с текстом пользователей и моделей — скрываются при LOG_REDACT_CONTENT
+const CONTENT_KEY_PATTERN = /^(content|prompt|thinking|summary|preview)$/i
+// Переменные окружения, значения которых нельзя выводить
+const SECRET_ENV_PATTERN = /(KEY|TOKEN|SECRET|PASSWORD)$/
+const MIN_SECRET_LENGTH = 6
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[\w.~+/=-]+/gi, `$1 ${REDACTED}`],
+  // Ключи OpenAI, Groq, Hugging Face, xAI
+  [/\b(sk|gsk|hf|xai)[-_][A-Za-z0-9_-]{12,}/g, REDACTED],
+  [/([?&](?:api[-_]?key|key|token|access_token)=)[^&\s"']+/gi, `$1${REDACTED}`]
+]
+
+// Общие для всех маршрутов (в dev каждый собирается отдельно): подключённые приёмники
+// и контекст запроса (AsyncLocalStorage из request-context.ts, только на сервере)
+const globalLogging = globalThis as typeof globalThis & {
+  komairLogSinks?: LogSink[]
+  komairRequestContext?: { getStore(): RequestContext | undefined }
+}
+
+const isServer = typeof window === 'undefined'
+
+let secretValues: string[] | null = null
+
+function getSecretValues(): string[] {
+  if (!secretValues) {
+    secretValues = isServer
+      ? Object.entries(process.env)
+        .filter(([name, value]) => SECRET_ENV_PATTERN.test(name) && !!value && value.length >= MIN_SECRET_LENGTH)
+        .map(([, value]) => value as string)
+        // Длинные первыми: значение может содержать другое
+        .sort((a, b) => b.length - a.length)
+      : []
+  }
+  return secretValues
+}
+
+function getMinLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  if (level && LOG_LEVELS.includes(level)) return level
+  return process.env.NODE_ENV === 'development' ? 'debug' : 'info'
+}
+
+function isContentRedacted(): boolean {
+  return process.env.LOG_REDACT_CONTENT === 'true'
+}
+
+function isConsoleEnabled(): boolean {
+  // На клиенте консоль — единственный вывод
+  if (!isServer || !process.env.LOG_SINKS) return true
+  return process.env.LOG_SINKS.split(',').some(sink => sink.trim() === 'console')
+}
+
+function isJsonFormat(): boolean {
+  const format = process.env.LOG_FORMAT
+  if (format === 'json' || format === 'pretty') return format === 'json'
+  return process.env.NODE_ENV === 'production'
+}
+
+/**
+ * Строка без ключей API, токенов и значений секретных переменных окружения
+ */
+export function redactSecrets(text: string): string {
+  let result = text
+  for (const value of getSecretValues()) {
+    result = result.split(value).join(REDACTED)
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    result = result.replace(pattern, replacement)
+  }
+  return result
+}
+
+/**
+ * Текст пользователя или модели для сообщения лога: начало текста
+ * или только его длина, если включён LOG_REDACT_CONTENT
+ */
+export function logContent(text: string): string {
+  if (isContentRedacted()) return `[${text.length} симв.]`
+  return text.length > CONTENT_PREVIEW_LENGTH ? `${text.substring(0, CONTENT_PREVIEW_LENGTH)}...` : text
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return redactSecrets(value)
+  if (!value || typeof value !== 'object') return value
+  if (seen.has(value) || depth >= MAX_DEPTH) return '[...]'
+  seen.add(value)
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactSecrets(value.message), stack: value.stack && redactSecrets(value.stack) }
+  }
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(item => redactValue(item, depth + 1, seen))
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key) && !ENV_NAME_PATTERN.test(key) && typeof item === 'string') {
+      result[key] = REDACTED
+    } else if (isContentRedacted() && CONTENT_KEY_PATTERN.test(key) && typeof item === 'string') {
+      result[key] = `[${item.length} симв.]`
+    } else {
+      result[key] = redactValue(item, depth + 1, seen)
+    }
+  }
+  return result
+}
+
+/**
+ * Подключить приёмник логов (файл, HTTP сборщик); вызывается при старте сервера
+ */
+export function addLogSink(sink: LogSink) {
+  if (!globalLogging.komairLogSinks) {
+    globalLogging.komairLogSinks = []
+  }
+  globalLogging.komairLogSinks.push(sink)
+}
+
+/**
+ * ID текущего запроса, если код выполняется внутри withRequestContext
+ */
+export function getRequestId(): string | undefined {
+  return globalLogging.komairRequestContext?.getStore()?.requestId
+}
+
+function formatPretty(record: LogRecord): string {
+  const requestId = record.requestId ? ` [${record.requestId}]` : ''
+  return `[${record.level.toUpperCase()}]${requestId} ${record.msg}`
+}
+
+function writeConsole(record: LogRecord, rawArgs: unknown[]) {
+  if (!isServer) {
+    // На клиенте используем console.warn для ошибок, чтобы избежать конфликтов
+    const write = record.level === 'debug' || record.level === 'info' ? console.log : console.warn
+    write(formatPretty(record), ...rawArgs)
+    return
+  }
+
+  const write = record.level === 'error' ? console.error : record.level === 'warn' ? console.warn : console.log
+  if (isJsonFormat()) {
+    write(JSON.stringify(record))
+  } else {
+    write(formatPretty(record), ...(record.args ?? []))
+  }
+}
+
+function log(level: LogLevel, message: string, args: unknown[]) {
+  try {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getMinLevel())) return
+
+    const seen = new WeakSet<object>()
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      msg: redactSecrets(message)
+    }
+    const requestId = getRequestId()
+    if (requestId) record.requestId = requestId
+    if (args.length > 0) record.args = args.map(arg => redactValue(arg, 0, seen))
+
+    if (isConsoleEnabled()) {
+      writeConsole(record, args)
+    }
+    globalLogging.komairLogSinks?.forEach(sink => {
+      try {
+        sink(record)
+      } catch {
+        // Сбой приёмника не должен ломать запрос
+      }
+    })
+  } catch {
+    // Игнорируем ошибки логирования
+  }
+}
+
 export const safeLogger = {
   /**
    * Безопасное логирование ошибок
    */
-  error: (message: string, ...args: unknown[]) => {
-    try {
-      if (typeof window !== 'undefined') {
-        // На клиенте используем console.warn чтобы избежать конфликтов
-        console.warn(`[ERROR] ${message}`, ...args)
-      } else {
-        // На сервере можем использовать console.error
-        console.error(`[ERROR] ${message}`, ...args)
-      }
-    } catch {
-      // Игнорируем ошибки логирования
-    }
-  },
+  error: (message: string, ...args: unknown[]) => log('error', message, args),
 
   /**
    * Безопасное логирование предупреждений
    */
-  warn: (message: string, ...args: unknown[]) => {
-    try {
-      if (typeof window !== 'undefined' || typeof console !== 'undefined') {
-        console.warn(`[WARN] ${message}`, ...args)
-      }
-    } catch {
-      // Игнорируем ошибки логирования
-    }
-  },
+  warn: (message: string, ...args: unknown[]) => log('warn', message, args),
 
   /**
    * Безопасное логирование информации
    */
-  info: (message: string, ...args: unknown[]) => {
-    try {
-      if (typeof window !== 'undefined' || typeof console !== 'undefined') {
-        console.log(`[INFO] ${message}`, ...args)
-      }
-    } catch {
-      // Игнорируем ошибки логирования
-    }
-  },
+  info: (message: string, ...args: unknown[]) => log('info', message, args),
 
   /**
    * Безопасное логирование отладочной информации
    */
-  debug: (message: string, ...args: unknown[]) => {
-    try {
-      if (process.env.NODE_ENV === 'development') {
-        if (typeof window !== 'undefined' || typeof console !== 'undefined') {
-          console.log(`[DEBUG] ${message}`, ...args)
-        }
-      }
-    } catch {
-      // Игнорируем ошибки логирования
-    }
-  }
-}
\ No newline at end of file
+  debug: (message: string, ...args: unknown[]) => log('debug', message, args)
+}
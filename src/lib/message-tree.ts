@@ -0,0 +1,76 @@
+/**
+ * Дерево сообщений чата: каждое сообщение ссылается на родителя (parentId),
+ * правка сообщения пользователя создаёт соседнюю ветку.
+ * Активная ветка задаётся листом chat.activeLeafId.
+ */
+
+import { Chat, Message } from './types'
+
+/**
+ * Проставляет parentId сообщениям, сохранённым до появления веток:
+ * плоский список становится одной цепочкой
+ */
+export function normalizeMessageTree(messages: Message[]): Message[] {
+  return messages.map((message, index) =>
+    message.parentId !== undefined
+      ? message
+      : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  )
+}
+
+/**
+ * Лист активной ветки (для старых чатов — последнее сообщение)
+ */
+export function getActiveLeafId(chat: Chat): string | null {
+  if (chat.activeLeafId && chat.messages.some(message => message.id === chat.activeLeafId)) {
+    return chat.activeLeafId
+  }
+  return chat.messages.length > 0 ? chat.messages[chat.messages.length - 1].id : null
+}
+
+/**
+ * Сообщения активной ветки от корня до листа — то, что видит пользователь
+ * и что уходит в chatHistory
+ */
+export function getActivePath(chat: Chat): Message[] {
+  const byId = new Map(normalizeMessageTree(chat.messages).map(message => [message.id, message]))
+  const path: Message[] = []
+  // Цикл в parentId (повреждённый или неудачно объединённый при синхронизации чат) обрываем
+  const visited = new Set<string>()
+
+  let current = byId.get(getActiveLeafId(chat) || '')
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * Версии сообщения: оно само и соседи с тем же родителем, в порядке создания
+ */
+export function getSiblings(chat: Chat, messageId: string): Message[] {
+  const messages = normalizeMessageTree(chat.messages)
+  const message = messages.find(item => item.id === messageId)
+  if (!message) return []
+  return messages.filter(item => item.parentId === message.parentId && item.role === message.role)
+}
+
+/**
+ * Последний лист под сообщением: при переключении на ветку
+ * открываем её самое свежее продолжение
+ */
+export function findLatestLeaf(chat: Chat, messageId: string): string {
+  const messages = normalizeMessageTree(chat.messages)
+  let leafId = messageId
+  const visited = new Set<string>([messageId])
+  while (true) {
+    const children = messages.filter(message => message.parentId === leafId)
+    const next = children[children.length - 1]
+    // Нет продолжения или ссылки замкнулись в цикл
+    if (!next || visited.has(next.id)) return leafId
+    visited.add(next.id)
+    leafId = next.id
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Метрики сервиса в формате OpenMetrics (Prometheus) для /api/metrics.
+ * Маршрут чата, менеджер провайдеров и кэш ответов отмечают события функциями record*,
+ * значения копятся в памяти процесса и отдаются текстом при каждом опросе
+ */
+
+import type { CircuitState } from './circuit-breaker'
+import type { ChatMode } from './types'
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+// Границы гистограммы длительности ответа модели, секунды
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open']
+
+// Метка для модели не из каталога: модель приходит от клиента, и без этого число серий не ограничено
+const UNKNOWN_MODEL = 'unknown'
+
+type Labels = Record<string, string>
+
+export type ProviderRequestStatus = 'success' | 'error' | 'cancelled'
+export type CacheLookupResult = 'hit' | 'semantic_hit' | 'miss'
+
+interface HistogramSeries {
+  labels: Labels
+  buckets: number[] // Не накопительные: накопление — при выводе
+  count: number
+  sum: number
+}
+
+interface MetricsRegistry {
+  counters: Map<string, Map<string, { labels: Labels, value: number }>>
+  histograms: Map<string, Map<string, HistogramSeries>>
+  circuitStates: Map<string, CircuitState>
+  models: Map<string, Set<string>> // Модели каталога по провайдерам — допустимые значения метки model
+}
+
+// Маршруты API в dev-режиме собираются отдельно — значения держим в globalThis
+const globalMetrics = globalThis as typeof globalThis & { komairMetrics?: MetricsRegistry }
+
+function getRegistry(): MetricsRegistry {
+  if (!globalMetrics.komairMetrics) {
+    globalMetrics.komairMetrics = { counters: new Map(), histograms: new Map(), circuitStates: new Map(), models: new Map() }
+  }
+  return globalMetrics.komairMetrics
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function incrementCounter(name: string, labels: Labels, value = 1) {
+  const { counters } = getRegistry()
+  const series = counters.get(name) ?? new Map()
+  counters.set(name, series)
+
+  const key = seriesKey(labels)
+  const current = series.get(key) ?? { labels, value: 0 }
+  current.value += value
+  series.set(key, current)
+}
+
+function observeHistogram(name: string, labels: Labels, value: number) {
+  const { histograms } = getRegistry()
+  const series = histograms.get(name) ?? new Map()
+  histograms.set(name, series)
+
+  const key = seriesKey(labels)
+  const current = series.get(key) ?? { labels, buckets: LATENCY_BUCKETS.map(() => 0), count: 0, sum: 0 }
+  const index = LATENCY_BUCKETS.findIndex(bound => value <= bound)
+  if (index !== -1) current.buckets[index]++
+  current.count++
+  current.sum += value
+  series.set(key, current)
+}
+
+/**
+ * Модели провайдера из каталога: настроенные и полученные от сервиса
+ */
+export function registerModels(provider: string, modelIds: string[]) {
+  const { models } = getRegistry()
+  const known = models.get(provider) ?? new Set()
+  models.set(provider, known)
+  modelIds.forEach(id => known.add(id))
+}
+
+function getModelLabel(provider: string, model: string): string {
+  return getRegistry().models.get(provider)?.has(model) ? model : UNKNOWN_MODEL
+}
+
+/**
+ * Запрос к провайдеру: модель — идентификатор модели провайдера (не из каталога — unknown),
+ * длительность — в секундах
+ */
+export function recordProviderRequest(
+  provider: string,
+  modelId: string,
+  mode: ChatMode,
+  status: ProviderRequestStatus,
+  seconds: number
+) {
+  const model = getModelLabel(provider, modelId)
+  incrementCounter('komair_provider_requests', { provider, model, mode, status })
+  observeHistogram('komair_provider_request_duration_seconds', { provider, model, mode }, seconds)
+}
+
+export function recordProviderRetry(provider: string) {
+  incrementCounter('komair_provider_retries', { provider })
+}
+
+export function recordProviderFallback(from: string, to: string) {
+  incrementCounter('komair_provider_fallbacks', { from, to })
+}
+
+/**
+ * Токены ответа: отправленный модели контекст (prompt) и сгенерированный текст (completion)
+ */
+export function recordTokens(provider: string, mode: ChatMode, promptTokens: number, completionTokens: number) {
+  incrementCounter('komair_tokens', { provider, mode, type: 'prompt' }, promptTokens)
+  incrementCounter('komair_tokens', { provider, mode, type: 'completion' }, completionTokens)
+}
+
+export function recordCacheLookup(result: CacheLookupResult) {
+  incrementCounter('komair_cache_lookups', { result })
+}
+
+export function setCircuitState(provider: string, state: CircuitState) {
+  getRegistry().circuitStates.set(provider, state)
+}
+
+// Описания метрик: тип и подсказка для # TYPE и # HELP
+const COUNTERS: Record<string, string> = {
+  komair_provider_requests: 'Запросы к провайдерам ИИ по результату',
+  komair_provider_retries: 'Повторные попытки запроса к тому же провайдеру',
+  komair_provider_fallbacks: 'Переключения на резервный провайдер',
+  komair_tokens: 'Токены контекста и ответов',
+  komair_cache_lookups: 'Обращения к кэшу ответов: попадания и промахи'
+}
+
+const HISTOGRAMS: Record<string, string> = {
+  komair_provider_request_duration_seconds: 'Длительность запроса к провайдеру ИИ'
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf'
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(6)))
+}
+
+/**
+ * Снимок метрик в текстовом формате OpenMetrics.
+ * gauges — значения, которые считаются в момент опроса (например, размер кэша)
+ */
+export function renderMetrics(gauges: Array<{ name: string, help: string, value: number }> = []): string {
+  const { counters, histograms, circuitStates } = getRegistry()
+  const lines: string[] = []
+
+  for (const [name, help] of Object.entries(COUNTERS)) {
+    lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${help}`)
+    counters.get(name)?.forEach(({ labels, value }) => {
+      lines.push(`${name}_total${formatLabels(labels)} ${formatNumber(value)}`)
+    })
+  }
+
+  for (const [name, help] of Object.entries(HISTOGRAMS)) {
+    lines.push(`# TYPE ${name} histogram`, `# HELP ${name} ${help}`)
+    histograms.get(name)?.forEach(({ labels, buckets, count, sum }) => {
+      let cumulative = 0
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        cumulative += buckets[index]
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`)
+      })
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`)
+      lines.push(`${name}_sum${formatLabels(labels)} ${formatNumber(sum)}`)
+    })
+  }
+
+  const circuit = 'komair_provider_circuit_state'
+  lines.push(`# TYPE ${circuit} stateset`, `# HELP ${circuit} Состояние circuit breaker провайдера`)
+  circuitStates.forEach((current, provider) => {
+    CIRCUIT_STATES.forEach(state => {
+      lines.push(`${circuit}${formatLabels({ provider, [circuit]: state })} ${state === current ? 1 : 0}`)
+    })
+  })
+
+  for (const { name, help, value } of gauges) {
+    lines.push(`# TYPE ${name} gauge`, `# HELP ${name} ${help}`, `${name} ${formatNumber(value)}`)
+  }
+
+  lines.push('# EOF')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,124 @@
+/**
+ * Каталог моделей включённых провайдеров для /api/models:
+ * модели из конфигурации адаптеров плюс реальный список от сервисов (кэшируется)
+ */
+
+import { safeLogger } from './logger'
+import { registerModels } from './metrics'
+import { providerManager } from './provider-manager'
+import type { ChatMode, ModelInfo, ProviderAdapter, ProviderModelsInfo } from './providers'
+
+const DEFAULT_TTL = 5 * 60 * 1000 // 5 минут
+
+function getCacheTTL(): number {
+  const value = Number(process.env.MODELS_CACHE_TTL_MS)
+  return process.env.MODELS_CACHE_TTL_MS && !isNaN(value) && value >= 0 ? value : DEFAULT_TTL
+}
+
+/**
+ * Собирает описание моделей одного провайдера
+ */
+async function describeProvider(adapter: ProviderAdapter): Promise<ProviderModelsInfo> {
+  const byId = new Map<string, ModelInfo>()
+
+  for (const model of adapter.models) {
+    const existing = byId.get(model.id)
+    if (existing) {
+      existing.modes.push(model.mode)
+    } else {
+      byId.set(model.id, {
+        id: model.id,
+        modes: [model.mode],
+        contextWindow: model.contextWindow,
+        source: 'configured'
+      })
+    }
+  }
+
+  let discoveryError: string | undefined
+  if (adapter.listModels) {
+    try {
+      for (const model of await adapter.listModels()) {
+        const existing = byId.get(model.id)
+        if (existing) {
+          // Данные сервиса точнее справочных
+          existing.contextWindow = model.contextWindow ?? existing.contextWindow
+        } else {
+          byId.set(model.id, { id: model.id, modes: [], contextWindow: model.contextWindow, source: 'discovered' })
+        }
+      }
+    } catch (error) {
+      discoveryError = error instanceof Error ? error.message : String(error)
+      safeLogger.warn(`⚠️ Не удалось получить список моделей ${adapter.name}: ${discoveryError}`)
+    }
+  }
+
+  const modeModel = (mode: ChatMode) => adapter.models.find(model => model.mode === mode)?.id || ''
+
+  return {
+    name: adapter.name,
+    displayName: adapter.displayName,
+    available: true, // Уточняется при каждой выдаче каталога
+    capabilities: adapter.capabilities,
+    modes: { fast: modeModel('fast'), deep: modeModel('deep') },
+    models: Array.from(byId.values()),
+    discoveryError
+  }
+}
+
+class ModelCatalog {
+  private cached?: { providers: ProviderModelsInfo[], expiresAt: number }
+  private pending?: Promise<ProviderModelsInfo[]>
+
+  /**
+   * Модели всех включённых провайдеров в порядке приоритета.
+   * refresh — не использовать кэш
+   */
+  async getProviders(refresh = false): Promise<ProviderModelsInfo[]> {
+    const providers = !refresh && this.cached && this.cached.expiresAt > Date.now()
+      ? this.cached.providers
+      : await this.load()
+
+    // Доступность меняется чаще, чем список моделей, — берём текущую
+    const healthy = new Set(
+      providerManager.getProvidersStatus().filter(status => status.isHealthy).map(status => status.name)
+    )
+    return providers.map(provider => ({ ...provider, available: healthy.has(provider.name) }))
+  }
+
+  /**
+   * Есть ли модель в каталоге провайдера: настроенная или полученная от сервиса
+   */
+  async hasModel(providerName: string, modelId: string): Promise<boolean> {
+    const providers = await this.getProviders()
+    return !!providers.find(provider => provider.name === providerName)?.models.some(model => model.id === modelId)
+  }
+
+  invalidate() {
+    this.cached = undefined
+  }
+
+  private load(): Promise<ProviderModelsInfo[]> {
+    // Параллельные запросы ждут одного опроса сервисов
+    if (!this.pending) {
+      this.pending = Promise.all(
+        providerManager.getProviders()
+          .filter(adapter => adapter.enabled)
+          .map(describeProvider)
+      ).then(providers => {
+        providers.forEach(provider => registerModels(provider.name, provider.models.map(model => model.id)))
+        this.cached = { providers, expiresAt: Date.now() + getCacheTTL() }
+        this.pending = undefined
+        return providers
+      }, error => {
+        this.pending = undefined
+        throw error
+      })
+    }
+
+    return this.pending
+  }
+}
+
+// Создаём глобальный экземпляр
+export const modelCatalog = new ModelCatalog()
@@ -0,0 +1,94 @@
+/**
+ * Библиотека пользовательских системных промптов: проверка, экспорт и импорт JSON.
+ * Общая для клиента и сервера — сервер теми же правилами проверяет промпт в запросе
+ */
+
+import { isChatMode } from './chat-modes'
+import type { CustomPrompt } from './types'
+import { isRecord } from './utils'
+
+export const MAX_PROMPT_NAME_LENGTH = 100
+export const MAX_PROMPT_LENGTH = 8000
+export const TEMPERATURE_RANGE = { min: 0, max: 2 }
+
+const LIBRARY_VERSION = 1
+
+// Промпт в запросе /api/chat: только то, что нужно модели
+export type PromptOverride = Pick<CustomPrompt, 'content' | 'temperature'>
+
+export function isValidTemperature(value: unknown): value is number {
+  return typeof value === 'number' && value >= TEMPERATURE_RANGE.min && value <= TEMPERATURE_RANGE.max
+}
+
+/**
+ * Ошибка в промпте из запроса; null — промпт годится
+ */
+export function validatePromptOverride(raw: unknown): string | null {
+  if (!isRecord(raw)) return 'Промпт должен быть объектом'
+  if (typeof raw.content !== 'string' || !raw.content.trim()) return 'Текст промпта пуст'
+  if (raw.content.length > MAX_PROMPT_LENGTH) return `Текст промпта длиннее ${MAX_PROMPT_LENGTH} символов`
+  if (raw.temperature !== undefined && !isValidTemperature(raw.temperature)) {
+    return `Температура должна быть от ${TEMPERATURE_RANGE.min} до ${TEMPERATURE_RANGE.max}`
+  }
+  return null
+}
+
+/**
+ * Промпт из JSON (localStorage или файл импорта); null — запись повреждена
+ */
+export function revivePrompt(raw: unknown): CustomPrompt | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) return null
+  if (validatePromptOverride(raw) || typeof raw.content !== 'string') return null
+
+  const createdAt = toDate(raw.createdAt) ?? new Date()
+  const updatedAt = toDate(raw.updatedAt) ?? createdAt
+  return {
+    id: raw.id,
+    name: raw.name.trim().slice(0, MAX_PROMPT_NAME_LENGTH),
+    content: raw.content,
+    mode: isChatMode(raw.mode) ? raw.mode : 'fast',
+    temperature: isValidTemperature(raw.temperature) ? raw.temperature : undefined,
+    createdAt,
+    updatedAt
+  }
+}
+
+// Дата из строки или числа JSON (или уже Date); undefined — поля нет или дата некорректна
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+export function serializePromptLibrary(prompts: CustomPrompt[]): string {
+  return JSON.stringify({
+    version: LIBRARY_VERSION,
+    prompts: prompts.map(({ id, name, content, mode, temperature, createdAt, updatedAt }) => ({
+      id, name, content, mode, temperature, createdAt, updatedAt
+    }))
+  }, null, 2)
+}
+
+/**
+ * Разбирает файл экспорта (или просто массив промптов).
+ * Повреждённые записи пропускаются; файл без единого промпта — ошибка
+ */
+export function parsePromptLibrary(json: string): CustomPrompt[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('Файл не является JSON')
+  }
+
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.prompts : undefined
+  if (!Array.isArray(list)) {
+    throw new Error('В файле нет списка промптов')
+  }
+
+  const prompts = list.map(revivePrompt).filter((prompt): prompt is CustomPrompt => prompt !== null)
+  if (prompts.length === 0) {
+    throw new Error('В файле нет корректных промптов')
+  }
+  return prompts
+}
@@ -1,4 +1,13 @@
+import {
+  CircuitBreaker,
+  getCircuitConfig,
+  type CircuitRelease,
+  type CircuitState,
+  type CircuitStateChange
+} from './circuit-breaker'
 import { safeLogger } from './logger'
+import { registerModels, setCircuitState } from './metrics'
+import { builtInProviders, loadConfiguredProviders, type ProviderAdapter } from './providers'
 
 export interface ProviderConfig {
   name: string
@@ -15,11 +24,25 @@ export interface ProviderStatus {
   lastError?: string
   lastCheck: Date
   consecutiveFailures: number
+  circuitState: CircuitState
+  nextAttemptAt?: Date // Когда разомкнутая цепь пропустит пробный запрос
+  lastHealthCheck?: Date
 }
 
+export interface ProviderStateTransition extends CircuitStateChange {
+  provider: string
+}
+
+// Сколько последних переходов состояний хранить для /api/stats
+const MAX_TRANSITIONS = 50
+
 class ProviderManager {
+  private adapters: Map<string, ProviderAdapter> = new Map()
   private providers: Map<string, ProviderConfig> = new Map()
   private status: Map<string, ProviderStatus> = new Map()
+  private breakers: Map<string, CircuitBreaker> = new Map()
+  private probeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private transitions: ProviderStateTransition[] = []
   private fallbackOrder: string[] = []
 
   constructor() {
@@ -27,89 +50,100 @@ class ProviderManager {
   }
 
   private initializeProviders() {
-    // Порядок приоритета провайдеров (от лучшего к худшему)
-    let configs: ProviderConfig[] = [
-      {
-        name: 'groq',
-        priority: 1,
-        enabled: !!process.env.GROQ_API_KEY,
-        maxRetries: 5, // Увеличиваем количество попыток
-        timeout: 45000 // Увеличиваем таймаут
-      },
-      {
-        name: 'huggingface',
-        priority: 2,
-        enabled: true, // Всегда доступен, работает без токена
-        maxRetries: 5, // Увеличиваем количество попыток
-        timeout: 90000 // Увеличиваем таймаут
-      },
-      {
-        name: 'together',
-        priority: 3,
-        enabled: !!process.env.TOGETHER_API_KEY,
-        maxRetries: 2,
-        timeout: 45000
-      },
-      {
-        name: 'cohere',
-        priority: 4,
-        enabled: !!process.env.COHERE_API_KEY,
-        maxRetries: 2,
-        timeout: 30000
-      },
-      {
-        name: 'ollama',
-        priority: 5,
-        enabled: true, // Локальный провайдер всегда доступен как fallback
-        maxRetries: 1,
-        timeout: 120000
-      },
-      {
-        name: 'mock',
-        priority: 999,
-        enabled: false, // ПОЛНОСТЬЮ ОТКЛЮЧАЕМ MOCK ПРОВАЙДЕР - НЕ ДОЛЖЕН ИСПОЛЬЗОВАТЬСЯ!
-        maxRetries: 1,
-        timeout: 5000
-      }
-    ];
+    // Настроенные провайдеры с тем же именем заменяют встроенные
+    const adapters = [...builtInProviders, ...loadConfiguredProviders()]
+    adapters.forEach(adapter => this.registerProvider(adapter, { silent: true }))
 
-    // Если нет настроенных API ключей, используем HuggingFace как основной провайдер
-    const hasApiKeys = process.env.GROQ_API_KEY || process.env.TOGETHER_API_KEY || process.env.COHERE_API_KEY;
-    if (!hasApiKeys) {
+    if (!this.hasConfiguredApiKeys()) {
       safeLogger.warn('⚠️ НЕТ НАСТРОЕННЫХ API КЛЮЧЕЙ! Используем HuggingFace как основной провайдер.');
-      // Увеличиваем приоритет HuggingFace
-      const hfConfig = configs.find(c => c.name === 'huggingface');
-      if (hfConfig) {
-        hfConfig.priority = 0; // Самый высокий приоритет
-      }
     }
 
-    configs.forEach(config => {
-      this.providers.set(config.name, config)
-      this.status.set(config.name, {
-        name: config.name,
-        isHealthy: true,
-        lastCheck: new Date(),
-        consecutiveFailures: 0
-      })
+    // Логируем информацию о конфигурации для диагностики
+    safeLogger.info(`🔑 Статус API ключей:`, this.getApiKeyStatus());
+    safeLogger.info(`🔄 Инициализированы провайдеры: ${this.fallbackOrder.join(' → ')}`);
+  }
+
+  /**
+   * Зарегистрировать адаптер провайдера (повторная регистрация заменяет прежний)
+   */
+  registerProvider(adapter: ProviderAdapter, options: { silent?: boolean } = {}) {
+    this.adapters.set(adapter.name, adapter)
+    this.providers.set(adapter.name, {
+      name: adapter.name,
+      priority: adapter.priority,
+      enabled: adapter.enabled,
+      maxRetries: adapter.maxRetries,
+      timeout: adapter.timeout,
+      healthCheck: adapter.healthCheck
+    })
+
+    // Новая конфигурация — новая цепь с её порогом ошибок
+    this.clearProbe(adapter.name)
+    this.breakers.set(adapter.name, new CircuitBreaker(
+      getCircuitConfig(adapter.maxRetries),
+      change => this.handleStateChange(adapter.name, change)
+    ))
+    this.status.set(adapter.name, {
+      name: adapter.name,
+      isHealthy: true,
+      lastCheck: new Date(),
+      consecutiveFailures: 0,
+      circuitState: 'closed'
     })
+    setCircuitState(adapter.name, 'closed')
+    registerModels(adapter.name, adapter.models.map(model => model.id))
+
+    this.rebuildFallbackOrder()
 
-    // Создаём порядок fallback на основе приоритета и доступности
-    this.fallbackOrder = configs
+    if (!options.silent) {
+      safeLogger.info(`➕ Зарегистрирован провайдер ${adapter.name}: ${this.fallbackOrder.join(' → ')}`)
+    }
+  }
+
+  /**
+   * Пересчитать порядок fallback на основе приоритета и доступности
+   */
+  private rebuildFallbackOrder() {
+    this.fallbackOrder = Array.from(this.providers.values())
       .filter(config => config.enabled)
       .sort((a, b) => a.priority - b.priority)
       .map(config => config.name)
+  }
 
-    // Логируем информацию о конфигурации для диагностики
-    const envInfo = {
-      groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-      hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-      togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-      cohereKey: process.env.COHERE_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-    };
-    
-    safeLogger.info(`🔑 Статус API ключей:`, envInfo);
-    safeLogger.info(`🔄 Инициализированы провайдеры: ${this.fallbackOrder.join(' → ')}`);
+  /**
+   * Получить адаптер провайдера
+   */
+  getProvider(providerName: string): ProviderAdapter | undefined {
+    return this.adapters.get(providerName)
+  }
+
+  /**
+   * Получить все зарегистрированные адаптеры в порядке приоритета
+   */
+  getProviders(): ProviderAdapter[] {
+    return Array.from(this.adapters.values())
+      .sort((a, b) => a.priority - b.priority)
+  }
+
+  /**
+   * Настроен ли хотя бы один API ключ
+   */
+  hasConfiguredApiKeys(): boolean {
+    return Array.from(this.adapters.values())
+      .some(adapter => !!adapter.apiKeyEnv && !!process.env[adapter.apiKeyEnv])
+  }
+
+  /**
+   * Статус API ключей провайдеров (без значений ключей)
+   */
+  getApiKeyStatus(): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const adapter of this.adapters.values()) {
+      if (adapter.apiKeyEnv) {
+        result[adapter.apiKeyEnv] = process.env[adapter.apiKeyEnv] ? '✅ Настроен' : '❌ Отсутствует'
+      }
+    }
+    return result
   }
 
   /**
@@ -123,17 +157,10 @@ class ProviderManager {
       safeLogger.error(`🚨 НЕТ ДОСТУПНЫХ ПРОВАЙДЕРОВ! Проверьте настройки API ключей.`);
       
       // Логируем информацию о переменных окружения
-      const envInfo = {
-        groqKey: process.env.GROQ_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-        hfToken: process.env.HUGGINGFACE_TOKEN ? '✅ Настроен' : '❌ Отсутствует',
-        togetherKey: process.env.TOGETHER_API_KEY ? '✅ Настроен' : '❌ Отсутствует',
-        cohereKey: process.env.COHERE_API_KEY ? '✅ Настроен' : '❌ Отсутствует'
-      };
-      
-      safeLogger.error(`🔑 Статус API ключей:`, envInfo);
+      safeLogger.error(`🔑 Статус API ключей:`, this.getApiKeyStatus());
       
       // Если нет API ключей, возвращаем специальную ошибку
-      if (!process.env.GROQ_API_KEY && !process.env.HUGGINGFACE_TOKEN) {
+      if (!this.hasConfiguredApiKeys()) {
         safeLogger.error(`🔐 КРИТИЧЕСКАЯ ОШИБКА: Не настроены API ключи!`);
       }
       
@@ -141,12 +168,11 @@ class ProviderManager {
     }
     
     for (const providerName of this.fallbackOrder) {
-      const status = this.status.get(providerName)
-      const config = this.providers.get(providerName)
+      const available = this.isProviderAvailable(providerName)
       
-      safeLogger.info(`🔍 Проверка ${providerName}: healthy=${status?.isHealthy}, enabled=${config?.enabled}`);
+      safeLogger.info(`🔍 Проверка ${providerName}: circuit=${this.breakers.get(providerName)?.getState()}, available=${available}`);
       
-      if (status?.isHealthy && config?.enabled) {
+      if (available) {
         safeLogger.info(`✅ Выбран провайдер: ${providerName}`);
         return providerName
       }
@@ -168,10 +194,8 @@ class ProviderManager {
 
     for (let i = currentIndex + 1; i < this.fallbackOrder.length; i++) {
       const providerName = this.fallbackOrder[i]
-      const status = this.status.get(providerName)
-      const config = this.providers.get(providerName)
       
-      if (status?.isHealthy && config?.enabled) {
+      if (this.isProviderAvailable(providerName)) {
         return providerName
       }
     }
@@ -179,106 +203,201 @@ class ProviderManager {
     return null
   }
 
+  /**
+   * Первый доступный провайдер в порядке fallback, кроме уже опробованных
+   */
+  getFallbackProvider(exclude: string[]): string | null {
+    return this.fallbackOrder.find(name => !exclude.includes(name) && this.isProviderAvailable(name)) || null
+  }
+
   /**
    * Проверить, можно ли повторить запрос к провайдеру
    */
   canRetryWithProvider(providerName: string, attemptCount: number): boolean {
     const config = this.providers.get(providerName)
-    const status = this.status.get(providerName)
     
-    if (!config || !status) {
+    if (!config) {
       return false
     }
     
-    // Можно повторять, если не достигли максимума попыток
-    return attemptCount < config.maxRetries && status.isHealthy
+    // Можно повторять, если не достигли максимума попыток и цепь не разомкнута
+    return attemptCount < config.maxRetries && this.isProviderAvailable(providerName)
+  }
+
+  /**
+   * Занять место для запроса к провайдеру перед вызовом адаптера; null — цепь не пропускает.
+   * release вызывается, когда запрос завершён (после markProviderAsHealthy/Unhealthy)
+   */
+  acquireRequest(providerName: string): CircuitRelease | null {
+    const config = this.providers.get(providerName)
+    const breaker = this.breakers.get(providerName)
+    if (!config?.enabled || !breaker) return null
+    return breaker.tryAcquire()
   }
 
   /**
-   * Отметить провайдер как недоступный
+   * Провайдер включён и его цепь пропускает запросы
+   */
+  private isProviderAvailable(providerName: string): boolean {
+    const config = this.providers.get(providerName)
+    const breaker = this.breakers.get(providerName)
+    return !!config?.enabled && !!breaker?.canRequest()
+  }
+
+  /**
+   * Отметить неудачный запрос к провайдеру
    */
   markProviderAsUnhealthy(providerName: string, error: string) {
     const status = this.status.get(providerName)
+    const breaker = this.breakers.get(providerName)
     const config = this.providers.get(providerName)
     
-    if (status && config) {
-      status.consecutiveFailures += 1
+    if (status && breaker && config) {
       status.lastError = error
       status.lastCheck = new Date()
+      breaker.recordFailure(error)
+      this.syncStatus(providerName)
       
-      // Помечаем как недоступный только после многих попыток
-      if (status.consecutiveFailures >= config.maxRetries) {
-        status.isHealthy = false
-        safeLogger.error(`❌ Провайдер ${providerName} недоступен после ${status.consecutiveFailures} попыток: ${error}`)
-        
-        // Автоматическое восстановление через короткое время
-        const retryDelay = 30 * 1000 // 30 секунд для быстрого восстановления
-        setTimeout(() => this.attemptProviderRecovery(providerName), retryDelay)
-      } else {
+      if (breaker.getState() === 'closed') {
         safeLogger.warn(`⚠️ Провайдер ${providerName} ошибка ${status.consecutiveFailures}/${config.maxRetries}: ${error}`)
-        // Даем шанс восстановиться через короткое время
-        const retryDelay = 10 * 1000 // 10 секунд
-        setTimeout(() => this.attemptProviderRecovery(providerName), retryDelay)
       }
     }
   }
 
   /**
-   * Отметить провайдер как доступный
+   * Отметить успешный запрос к провайдеру
    */
   markProviderAsHealthy(providerName: string) {
     const status = this.status.get(providerName)
-    if (status) {
-      const wasUnhealthy = !status.isHealthy
-      status.isHealthy = true
+    const breaker = this.breakers.get(providerName)
+    if (status && breaker) {
       status.lastError = undefined
       status.lastCheck = new Date()
-      status.consecutiveFailures = 0
-      
-      if (wasUnhealthy) {
-        safeLogger.info(`✅ Провайдер ${providerName} восстановлен`)
-      }
+      breaker.recordSuccess()
+      this.syncStatus(providerName)
     }
   }
 
   /**
-   * Попытка восстановления провайдера
+   * Проверить здоровье провайдера его пробой и обновить цепь.
+   * Провайдер без healthCheck считается доступным — его проверит реальный трафик.
    */
-  private async attemptProviderRecovery(providerName: string) {
-    const config = this.providers.get(providerName)
-    if (!config?.enabled) return
+  async checkProviderHealth(providerName: string): Promise<boolean> {
+    const adapter = this.adapters.get(providerName)
+    const status = this.status.get(providerName)
+    const breaker = this.breakers.get(providerName)
+    if (!adapter || !status || !breaker) return false
+    if (!adapter.healthCheck) return breaker.canRequest()
 
-    safeLogger.info(`🔄 Попытка восстановления провайдера ${providerName}`)
-    
+    let healthy = false
     try {
-      // Простая проверка доступности
-      if (config.healthCheck) {
-        const isHealthy = await config.healthCheck()
-        if (isHealthy) {
-          this.markProviderAsHealthy(providerName)
-        }
-      } else {
-        // Если нет специальной проверки, просто сбрасываем статус
-        // Реальная проверка произойдёт при следующем запросе
-        const status = this.status.get(providerName)
-        if (status) {
-          // Сбрасываем счетчик ошибок
-          status.consecutiveFailures = Math.max(0, status.consecutiveFailures - 2)
-          // Если ошибок мало, помечаем как здоровый
-          if (status.consecutiveFailures <= 1) {
-            this.markProviderAsHealthy(providerName)
-          }
-        }
-      }
+      healthy = await adapter.healthCheck()
     } catch (error) {
-      safeLogger.error(`🔄 Восстановление провайдера ${providerName} не удалось:`, error)
+      safeLogger.error(`🩺 Проверка здоровья ${providerName} упала:`, error)
+    }
+
+    status.lastHealthCheck = new Date()
+    if (healthy) {
+      breaker.recordSuccess()
+    } else {
+      status.lastError = 'Проверка здоровья не пройдена'
+      breaker.recordFailure(status.lastError)
     }
+    this.syncStatus(providerName)
+
+    return healthy
+  }
+
+  /**
+   * Проверить все включённые провайдеры
+   */
+  async checkAllProviders(): Promise<ProviderStatus[]> {
+    await Promise.all(this.fallbackOrder.map(name => this.checkProviderHealth(name)))
+    return this.getProvidersStatus()
+  }
+
+  /**
+   * Последние переходы состояний цепей (новые в конце)
+   */
+  getStateTransitions(): ProviderStateTransition[] {
+    return [...this.transitions]
+  }
+
+  private handleStateChange(providerName: string, change: CircuitStateChange) {
+    this.transitions.push({ provider: providerName, ...change })
+    if (this.transitions.length > MAX_TRANSITIONS) {
+      this.transitions.splice(0, this.transitions.length - MAX_TRANSITIONS)
+    }
+    this.syncStatus(providerName)
+    setCircuitState(providerName, change.to)
+
+    if (change.to === 'open') {
+      const status = this.status.get(providerName)
+      safeLogger.error(`❌ Провайдер ${providerName} отключён до ${status?.nextAttemptAt?.toISOString()}: ${change.reason}`)
+      this.scheduleProbe(providerName)
+    } else if (change.to === 'half-open') {
+      safeLogger.info(`🔄 Провайдер ${providerName}: пробный режим (${change.reason})`)
+    } else {
+      this.clearProbe(providerName)
+      safeLogger.info(`✅ Провайдер ${providerName} восстановлен`)
+    }
+  }
+
+  /**
+   * Запланировать проверку здоровья на момент окончания open.
+   * Без healthCheck цепь перейдёт в half-open при следующем запросе.
+   */
+  private scheduleProbe(providerName: string) {
+    this.clearProbe(providerName)
+
+    const adapter = this.adapters.get(providerName)
+    const nextAttemptAt = this.breakers.get(providerName)?.getNextAttemptAt()
+    if (!adapter?.healthCheck || !adapter.enabled || nextAttemptAt === undefined) return
+
+    const timer = setTimeout(() => {
+      this.probeTimers.delete(providerName)
+      safeLogger.info(`🩺 Проверка восстановления провайдера ${providerName}`)
+      this.checkProviderHealth(providerName).catch(error => {
+        safeLogger.error(`🔄 Восстановление провайдера ${providerName} не удалось:`, error)
+      })
+    }, Math.max(0, nextAttemptAt - Date.now()))
+    // Таймер не должен удерживать процесс
+    timer.unref?.()
+    this.probeTimers.set(providerName, timer)
+  }
+
+  private clearProbe(providerName: string) {
+    const timer = this.probeTimers.get(providerName)
+    if (timer) {
+      clearTimeout(timer)
+      this.probeTimers.delete(providerName)
+    }
+  }
+
+  /**
+   * Перенести состояние цепи в статус провайдера
+   */
+  private syncStatus(providerName: string) {
+    const status = this.status.get(providerName)
+    const breaker = this.breakers.get(providerName)
+    if (!status || !breaker) return
+
+    const snapshot = breaker.getSnapshot()
+    status.circuitState = snapshot.state
+    status.isHealthy = snapshot.state !== 'open'
+    status.consecutiveFailures = snapshot.consecutiveFailures
+    status.nextAttemptAt = snapshot.nextAttemptAt
   }
 
   /**
    * Получить статус всех провайдеров
    */
   getProvidersStatus(): ProviderStatus[] {
+    // canRequest переводит истёкшие open цепи в half-open
+    this.breakers.forEach((breaker, name) => {
+      breaker.canRequest()
+      this.syncStatus(name)
+    })
     return Array.from(this.status.values())
   }
 
@@ -290,5 +409,13 @@ class ProviderManager {
   }
 }
 
+// Маршруты API в dev-режиме собираются отдельно — один менеджер на процесс держим в globalThis,
+// чтобы состояние цепей и провайдеров было общим для чата, health и статистики
+const globalManager = globalThis as typeof globalThis & { komairProviderManager?: ProviderManager }
+
+if (!globalManager.komairProviderManager) {
+  globalManager.komairProviderManager = new ProviderManager()
+}
+
 // Создаём глобальный экземпляр
-export const providerManager = new ProviderManager()
\ No newline at end of file
+export const providerManager = globalManager.komairProviderManager
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { buildContext } from '../context-builder'
+import { safeLogger } from '../logger'
+import { isAbortError } from '../utils'
+import type { ChatResponse, ProviderAdapter, ProviderChatRequest, ProviderModel } from './types'
+import { DEFAULT_TEMPERATURE, getContextWindow, getModelForMode, getSystemPrompt, probeEndpoint, ProviderHttpError } from './utils'
+
+const COHERE_API_URL = 'https://api.cohere.ai/v1/chat'
+
+// Cohere Command модели
+const models: ProviderModel[] = [
+  { id: 'command-light', mode: 'fast', contextWindow: 4096 }, // Быстрая модель
+  { id: 'command', mode: 'deep', contextWindow: 4096 }        // Качественная модель
+]
+
+// Cohere (Command модели)
+async function chat(request: ProviderChatRequest): Promise<ChatResponse> {
+  const { message, mode, chatHistory, model: requestedModel, signal } = request
+  const COHERE_TOKEN = process.env.COHERE_API_KEY
+
+  if (!COHERE_TOKEN) {
+    throw new Error('COHERE_API_KEY не настроен. Получите бесплатный токен на https://dashboard.cohere.ai')
+  }
+
+  const model = requestedModel || getModelForMode(models, mode)
+  const maxTokens = mode === 'fast' ? 200 : 500
+
+  // Системный промпт режима, роли и краткое содержание разговора идут в preamble
+  const preamble = getSystemPrompt(request)
+
+  const context = buildContext({
+    systemPrompt: preamble,
+    history: chatHistory,
+    message,
+    contextWindow: getContextWindow(models, model),
+    maxOutputTokens: maxTokens,
+    model
+  })
+
+  // Форматируем историю для Cohere
+  const chat_history = context.history.map(msg => ({
+    role: msg.role === 'user' ? 'USER' : 'CHATBOT',
+    message: msg.content
+  }))
+
+  safeLogger.info(`🔮 Используем Cohere: ${model}`)
+
+  const response = await fetch(COHERE_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${COHERE_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      message,
+      chat_history,
+      preamble,
+      max_tokens: maxTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE[mode],
+      k: 40,
+      p: 0.9
+    }),
+    signal
+  }).catch(error => {
+    if (isAbortError(error)) throw error
+    // Обработка сетевых ошибок
+    safeLogger.error(`📡 Сетевая ошибка при подключении к Cohere:`, error);
+    throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к интернету.`);
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new ProviderHttpError(`Cohere API error: ${response.status} - ${errorData.message || 'Unknown error'}`, response.status)
+  }
+
+  const result = await response.json()
+  const content = result.text || 'Извините, не удалось получить ответ от Cohere.'
+
+  return {
+    content: content.trim(),
+    mode,
+    processingTime: 0,
+    model: `Cohere: ${model}`,
+    context: context.report
+  }
+}
+
+// Проверка здоровья: список моделей аккаунта
+function healthCheck(): Promise<boolean> {
+  const COHERE_TOKEN = process.env.COHERE_API_KEY
+  if (!COHERE_TOKEN) return Promise.resolve(false)
+
+  return probeEndpoint('https://api.cohere.ai/v1/models', {
+    headers: { 'Authorization': `Bearer ${COHERE_TOKEN}` }
+  })
+}
+
+export const cohereProvider: ProviderAdapter = {
+  name: 'cohere',
+  displayName: 'Cohere',
+  priority: 4,
+  enabled: !!process.env.COHERE_API_KEY,
+  maxRetries: 2,
+  timeout: 30000,
+  apiKeyEnv: 'COHERE_API_KEY',
+  capabilities: {
+    streaming: false,
+    systemPrompt: true, // preamble
+    chatHistory: true
+  },
+  models,
+  chat,
+  healthCheck
+}
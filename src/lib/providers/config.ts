@@ -0,0 +1,124 @@
+/**
+ * Загрузка OpenAI-совместимых провайдеров из окружения и файла конфигурации
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { safeLogger } from '../logger'
+import { createOpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-compatible'
+import type { ProviderAdapter } from './types'
+
+const DEFAULT_CONFIG_FILE = 'providers.config.json'
+const ENV_LIST_VARIABLE = 'OPENAI_COMPATIBLE_PROVIDERS'
+
+// Ошибки последней загрузки конфигурации — для проверки готовности
+let configErrors: string[] = []
+
+/**
+ * Читает провайдеры из JSON файла (PROVIDERS_CONFIG_FILE или providers.config.json):
+ * { "openaiCompatible": [{ "name": "lmstudio", "baseUrl": "...", "models": { ... } }] }
+ */
+function loadFromFile(): OpenAICompatibleConfig[] {
+  const filePath = path.resolve(process.cwd(), process.env.PROVIDERS_CONFIG_FILE || DEFAULT_CONFIG_FILE)
+
+  if (!fs.existsSync(filePath)) {
+    if (process.env.PROVIDERS_CONFIG_FILE) {
+      safeLogger.warn(`⚠️ Файл конфигурации провайдеров не найден: ${filePath}`)
+      configErrors.push(`Файл конфигурации провайдеров не найден: ${filePath}`)
+    }
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    const entries = Array.isArray(parsed.openaiCompatible) ? parsed.openaiCompatible : []
+    safeLogger.info(`📄 Загружено ${entries.length} провайдеров из ${filePath}`)
+    return entries
+  } catch (error) {
+    safeLogger.error(`❌ Ошибка чтения конфигурации провайдеров ${filePath}:`, error)
+    configErrors.push(`Ошибка чтения ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+/**
+ * Читает провайдеры из окружения:
+ * OPENAI_COMPATIBLE_PROVIDERS=lmstudio,vllm и для каждого имени
+ * OPENAI_COMPATIBLE_LMSTUDIO_BASE_URL, _FAST_MODEL, _DEEP_MODEL, _API_KEY_ENV,
+ * _DISPLAY_NAME, _PRIORITY, _TIMEOUT, _CONTEXT_WINDOW
+ */
+function loadFromEnv(): OpenAICompatibleConfig[] {
+  const names = (process.env[ENV_LIST_VARIABLE] || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  return names.map(name => {
+    const prefix = `OPENAI_COMPATIBLE_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`
+    const env = (key: string) => process.env[prefix + key] || undefined
+    const number = (key: string) => {
+      const value = env(key)
+      return value !== undefined && !isNaN(Number(value)) ? Number(value) : undefined
+    }
+
+    const fastModel = env('FAST_MODEL') || ''
+    const contextWindow = number('CONTEXT_WINDOW')
+
+    return {
+      name,
+      displayName: env('DISPLAY_NAME'),
+      baseUrl: env('BASE_URL') || '',
+      apiKeyEnv: env('API_KEY_ENV'),
+      models: {
+        fast: fastModel,
+        deep: env('DEEP_MODEL') || fastModel
+      },
+      contextWindow: contextWindow ? { fast: contextWindow, deep: contextWindow } : undefined,
+      priority: number('PRIORITY'),
+      timeout: number('TIMEOUT')
+    }
+  })
+}
+
+/**
+ * Проверяет обязательные поля конфигурации
+ */
+function isValidConfig(config: Partial<OpenAICompatibleConfig>): config is OpenAICompatibleConfig {
+  const problems: string[] = []
+  if (!config.name) problems.push('name')
+  if (!config.baseUrl) problems.push('baseUrl')
+  if (!config.models?.fast) problems.push('models.fast')
+  if (!config.models?.deep) problems.push('models.deep')
+
+  if (problems.length > 0) {
+    const message = `Провайдер ${config.name || '(без имени)'} пропущен, не заданы: ${problems.join(', ')}`
+    safeLogger.warn(`⚠️ ${message}`)
+    configErrors.push(message)
+    return false
+  }
+  return true
+}
+
+/**
+ * Все OpenAI-совместимые провайдеры из конфигурации.
+ * Записи окружения переопределяют записи файла с тем же именем.
+ */
+export function loadConfiguredProviders(): ProviderAdapter[] {
+  const byName = new Map<string, OpenAICompatibleConfig>()
+  configErrors = []
+
+  for (const config of [...loadFromFile(), ...loadFromEnv()]) {
+    if (isValidConfig(config)) {
+      byName.set(config.name, config)
+    }
+  }
+
+  return Array.from(byName.values()).map(createOpenAICompatibleProvider)
+}
+
+/**
+ * Ошибки конфигурации провайдеров, найденные при последней загрузке
+ */
+export function getProviderConfigErrors(): string[] {
+  return [...configErrors]
+}
@@ -0,0 +1,21 @@
+import { createOpenAICompatibleProvider } from './openai-compatible'
+
+// Groq (сверхбыстрые Llama модели)
+export const groqProvider = createOpenAICompatibleProvider({
+  name: 'groq',
+  displayName: 'Groq',
+  baseUrl: 'https://api.groq.com/openai/v1',
+  apiKeyEnv: 'GROQ_API_KEY',
+  apiKeyHint: 'Получите бесплатный токен на https://console.groq.com',
+  // Groq стабильные рабочие модели (проверенные)
+  models: {
+    fast: 'llama-3.1-8b-instant',    // Быстрая модель - работает стабильно
+    deep: 'llama-3.1-70b-versatile'  // Более мощная модель для глубокого режима
+  },
+  contextWindow: { fast: 131072, deep: 131072 },
+  priority: 1,
+  maxRetries: 5, // Увеличиваем количество попыток
+  timeout: 45000, // Увеличиваем таймаут
+  requestAttempts: 3,
+  extraBody: { top_p: 0.9 }
+})
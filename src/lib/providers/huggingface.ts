@@ -0,0 +1,244 @@
+import { buildContext, type ContextReport } from '../context-builder'
+import { safeLogger } from '../logger'
+import { isAbortError, sleep } from '../utils'
+import type { ChatResponse, ProviderAdapter, ProviderChatRequest, ProviderModel } from './types'
+import { generateUniversalResponse, getContextWindow, getModelTier, probeEndpoint, ProviderHttpError } from './utils'
+
+const HF_API_URL = 'https://api-inference.huggingface.co/models'
+
+// Бесплатные модели Hugging Face
+const models: ProviderModel[] = [
+  { id: 'microsoft/DialoGPT-medium', mode: 'fast', contextWindow: 1024 },
+  { id: 'facebook/blenderbot-400M-distill', mode: 'fast', contextWindow: 128 },
+  { id: 'microsoft/DialoGPT-small', mode: 'fast', contextWindow: 1024 },
+  { id: 'microsoft/DialoGPT-large', mode: 'deep', contextWindow: 1024 },
+  { id: 'facebook/blenderbot-1B-distill', mode: 'deep', contextWindow: 128 },
+  { id: 'google/flan-t5-base', mode: 'deep', contextWindow: 512 }
+]
+
+// Hugging Face Inference API
+async function chat({ message, mode, chatHistory, model: requestedModel, signal }: ProviderChatRequest): Promise<ChatResponse> {
+  const HF_TOKEN = process.env.HUGGINGFACE_TOKEN
+
+  if (!HF_TOKEN) {
+    // Если токен не настроен, используем бесплатные модели без аутентификации
+    safeLogger.warn('HUGGINGFACE_TOKEN не настроен, используется бесплатный доступ')
+  }
+
+  // Выбранная пользователем модель — без перебора остальных
+  const selectedModels = requestedModel
+    ? [requestedModel]
+    : models.filter(m => m.mode === getModelTier(mode)).map(m => m.id)
+  let lastError: Error | null = null
+
+  // Пробуем модели по очереди до успешного ответа
+  for (const model of selectedModels) {
+    try {
+      safeLogger.info(`Пробуем модель: ${model}`)
+
+      // Формируем запрос в зависимости от типа модели
+      let payload: any
+      let contextReport: ContextReport | undefined
+
+      if (model.includes('DialoGPT')) {
+        // Для DialoGPT формируем диалоговый контекст из сообщений, которые помещаются в окно
+        const maxNewTokens = mode === 'fast' ? 100 : 200
+        const fitted = buildContext({
+          history: chatHistory,
+          message,
+          contextWindow: getContextWindow(models, model),
+          maxOutputTokens: maxNewTokens,
+          model
+        })
+        contextReport = fitted.report
+
+        const context = fitted.history
+          .map(msg => `${msg.role === 'user' ? 'Human' : 'Bot'}: ${msg.content}`)
+          .join(' ')
+
+        const prompt = context
+          ? `${context} Human: ${message} Bot:`
+          : `Human: ${message} Bot:`
+
+        payload = {
+          inputs: prompt,
+          parameters: {
+            max_new_tokens: maxNewTokens,
+            temperature: 0.7,
+            do_sample: true,
+            top_p: 0.9,
+            return_full_text: false,
+            pad_token_id: 50256
+          },
+          options: {
+            wait_for_model: true,
+            use_cache: false
+          }
+        }
+      } else if (model.includes('blenderbot')) {
+        // Для BlenderBot используем простой текст
+        payload = {
+          inputs: message,
+          parameters: {
+            max_length: mode === 'fast' ? 100 : 200,
+            min_length: 10,
+            do_sample: true,
+            temperature: 0.7
+          },
+          options: {
+            wait_for_model: true,
+            use_cache: false
+          }
+        }
+      } else {
+        // Для T5 и других моделей
+        payload = {
+          inputs: `Ответь на вопрос: ${message}`,
+          parameters: {
+            max_new_tokens: mode === 'fast' ? 100 : 200,
+            temperature: 0.7
+          },
+          options: {
+            wait_for_model: true,
+            use_cache: false
+          }
+        }
+      }
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
+
+      if (HF_TOKEN) {
+        headers['Authorization'] = `Bearer ${HF_TOKEN}`
+      }
+
+      const response = await fetch(`${HF_API_URL}/${model}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+        signal
+      }).catch(error => {
+        if (isAbortError(error)) throw error
+        // Обработка сетевых ошибок
+        safeLogger.error(`📡 Сетевая ошибка при подключении к HuggingFace:`, error);
+        throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к интернету.`);
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new ProviderHttpError(`HTTP ${response.status}: ${errorData.error || response.statusText}`, response.status)
+      }
+
+      const result = await response.json()
+
+      let content: string
+
+      if (Array.isArray(result) && result[0]) {
+        if (result[0].generated_text !== undefined) {
+          content = result[0].generated_text
+          // Очищаем от исходного промпта для DialoGPT
+          if (model.includes('DialoGPT')) {
+            content = content.split('Bot:').pop()?.trim() || content
+          }
+        } else if (result[0].translation_text) {
+          content = result[0].translation_text
+        } else {
+          content = result[0].summary_text || JSON.stringify(result[0])
+        }
+      } else {
+        content = result.generated_text || result.text || 'Не удалось получить ответ от модели.'
+      }
+
+      // Проверяем качество ответа
+      if (!content || content.trim().length < 5) {
+        throw new Error('Слишком короткий ответ от модели')
+      }
+
+      const chatResponse: ChatResponse = {
+        content: content.trim(),
+        mode,
+        processingTime: 0,
+        model: `HuggingFace: ${model}`,
+        context: contextReport
+      }
+
+      safeLogger.info(`Успешный ответ от модели: ${model}`)
+      return chatResponse
+
+    } catch (error) {
+      // Клиент отменил запрос — остальные модели не пробуем
+      if (isAbortError(error)) throw error
+
+      safeLogger.error(`Ошибка с моделью ${model}:`, error)
+      lastError = error instanceof Error ? error : new Error(String(error))
+
+      // Если это ошибка загрузки модели, ждем немного
+      if (lastError.message.includes('loading')) {
+        safeLogger.info('Модель загружается, ждем 3 секунды...')
+        await sleep(3000, signal)
+      }
+
+      continue // Пробуем следующую модель
+    }
+  }
+
+  // Выбранная пользователем модель не ответила — ошибка её, а не всего провайдера
+  if (requestedModel && lastError) {
+    throw lastError
+  }
+
+  // Если все модели не сработали, возвращаем полезный fallback
+  safeLogger.error('Все модели Hugging Face недоступны, используем улучшенный fallback')
+
+  // Генерируем полезный ответ на основе ключевых слов
+  const content = generateUniversalResponse(message, mode)
+
+  return {
+    content,
+    mode,
+    processingTime: 0,
+    model: 'Komair: Smart Fallback'
+  }
+}
+
+// Проверка здоровья: генерация одного токена быстрой моделью.
+// 503 означает, что модель загружается — сервис при этом жив.
+function healthCheck(): Promise<boolean> {
+  const HF_TOKEN = process.env.HUGGINGFACE_TOKEN
+  const model = models.find(m => m.mode === 'fast')?.id
+
+  return probeEndpoint(`${HF_API_URL}/${model}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(HF_TOKEN ? { 'Authorization': `Bearer ${HF_TOKEN}` } : {})
+    },
+    body: JSON.stringify({
+      inputs: 'Hi',
+      parameters: { max_new_tokens: 1 },
+      options: { wait_for_model: false }
+    })
+  }, [503], 10000)
+}
+
+// Если нет настроенных API ключей, используем HuggingFace как основной провайдер
+const hasApiKeys = process.env.GROQ_API_KEY || process.env.TOGETHER_API_KEY || process.env.COHERE_API_KEY
+
+export const huggingFaceProvider: ProviderAdapter = {
+  name: 'huggingface',
+  displayName: 'Hugging Face',
+  priority: hasApiKeys ? 2 : 0, // Без ключей — самый высокий приоритет
+  enabled: true, // Всегда доступен, работает без токена
+  maxRetries: 5, // Увеличиваем количество попыток
+  timeout: 90000, // Увеличиваем таймаут
+  apiKeyEnv: 'HUGGINGFACE_TOKEN',
+  capabilities: {
+    streaming: false,
+    systemPrompt: false,
+    chatHistory: true
+  },
+  models,
+  chat,
+  healthCheck
+}
@@ -0,0 +1,42 @@
+/**
+ * Реестр адаптеров AI провайдеров.
+ * Новый провайдер — это модуль с ProviderAdapter и строка в этом списке,
+ * либо запись OpenAI-совместимого провайдера в окружении/файле конфигурации.
+ */
+
+import type { ProviderAdapter } from './types'
+import { groqProvider } from './groq'
+import { huggingFaceProvider } from './huggingface'
+import { togetherProvider } from './together'
+import { cohereProvider } from './cohere'
+import { ollamaProvider } from './ollama'
+import { openAIProvider } from './openai'
+import { mockProvider } from './mock'
+
+export type {
+  ChatHistory,
+  ChatMode,
+  ChatRequest,
+  ChatResponse,
+  DiscoveredModel,
+  ModelInfo,
+  ModelTier,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderModel,
+  ProviderModelsInfo,
+  TokenHandler
+} from './types'
+export { createOpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-compatible'
+export { getProviderConfigErrors, loadConfiguredProviders } from './config'
+
+export const builtInProviders: ProviderAdapter[] = [
+  groqProvider,
+  huggingFaceProvider,
+  togetherProvider,
+  cohereProvider,
+  ollamaProvider,
+  openAIProvider,
+  mockProvider
+]
@@ -0,0 +1,43 @@
+import type { ChatMode, ChatResponse, ProviderAdapter, ProviderChatRequest } from './types'
+import { generateUniversalResponse } from './utils'
+
+// Простая mock-система
+function generateSmartMockResponse(question: string, mode: ChatMode): string {
+  // Mock-провайдер всегда использует универсальные ответы
+  return generateUniversalResponse(question, mode)
+}
+
+// Тестовая реализация (умная mock-система)
+async function chat({ message, mode }: ProviderChatRequest): Promise<ChatResponse> {
+  // Имитируем задержку
+  await new Promise(resolve => setTimeout(resolve, mode === 'fast' ? 500 : 1500))
+
+  // Используем умную логику ответов
+  const content = generateSmartMockResponse(message, mode)
+
+  return {
+    content,
+    mode,
+    processingTime: 0,
+    model: 'Komair Smart Mock'
+  }
+}
+
+export const mockProvider: ProviderAdapter = {
+  name: 'mock',
+  displayName: 'Komair Mock',
+  priority: 999,
+  enabled: false, // ПОЛНОСТЬЮ ОТКЛЮЧАЕМ MOCK ПРОВАЙДЕР - НЕ ДОЛЖЕН ИСПОЛЬЗОВАТЬСЯ!
+  maxRetries: 1,
+  timeout: 5000,
+  capabilities: {
+    streaming: false,
+    systemPrompt: false,
+    chatHistory: false
+  },
+  models: [
+    { id: 'mock-fast', mode: 'fast' },
+    { id: 'mock-deep', mode: 'deep' }
+  ],
+  chat
+}
@@ -0,0 +1,130 @@
+import { buildContext, DEFAULT_CONTEXT_WINDOW } from '../context-builder'
+import { safeLogger } from '../logger'
+import { ReasoningParser } from '../reasoning'
+import { readOllamaStream } from '../streaming'
+import { isAbortError } from '../utils'
+import type { ChatResponse, DiscoveredModel, ProviderAdapter, ProviderChatRequest, ProviderModel } from './types'
+import { DEFAULT_TEMPERATURE, fetchJson, getContextWindow, getModelForMode, getSystemPrompt, probeEndpoint, ProviderHttpError } from './utils'
+
+// Выбираем Llama модель в зависимости от режима
+const models: ProviderModel[] = [
+  { id: 'llama3:8b', mode: 'fast', contextWindow: 8192 },
+  { id: 'llama3:70b', mode: 'deep', contextWindow: 8192 }
+]
+
+// Ollama (локальный запуск)
+async function chat(request: ProviderChatRequest): Promise<ChatResponse> {
+  const { message, mode, chatHistory, model: requestedModel, onToken, signal } = request
+  const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434'
+
+  const model = requestedModel || getModelForMode(models, mode)
+  const maxTokens = mode === 'fast' ? 200 : 500
+  // Окно передаём в num_ctx: иначе Ollama обрежет запрос до своего размера по умолчанию
+  const contextWindow = getContextWindow(models, model) || DEFAULT_CONTEXT_WINDOW
+
+  const systemPrompt = getSystemPrompt(request)
+  const context = buildContext({
+    systemPrompt,
+    history: chatHistory,
+    message,
+    contextWindow,
+    maxOutputTokens: maxTokens,
+    model
+  })
+
+  const messages = [
+    {
+      role: 'system',
+      content: systemPrompt
+    },
+    ...context.history,
+    { role: 'user', content: message }
+  ]
+
+  safeLogger.info(`🦙 Используем локальную Llama: ${model}`)
+
+  const response = await fetch(`${OLLAMA_URL}/api/chat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      stream: !!onToken,
+      options: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE[mode],
+        top_p: 0.9,
+        num_predict: maxTokens,
+        num_ctx: contextWindow
+      }
+    }),
+    signal
+  }).catch(error => {
+    if (isAbortError(error)) throw error
+    // Обработка сетевых ошибок
+    safeLogger.error(`📡 Сетевая ошибка при подключении к Ollama:`, error);
+    throw new Error(`Сетевая ошибка: ${error.message}. Проверьте, что Ollama запущен.`);
+  })
+
+  if (!response.ok) {
+    throw new ProviderHttpError(`Ollama API error: ${response.status}. Проверьте, что Ollama запущен на ${OLLAMA_URL}`, response.status)
+  }
+
+  // Рассуждения модели (<think> или поле thinking) отделяются от ответа
+  const parser = new ReasoningParser(onToken)
+  if (onToken) {
+    await readOllamaStream(response, token => parser.push(token), text => parser.addReasoning(text))
+  } else {
+    const result = await response.json()
+    parser.addReasoning(result.message?.thinking || '')
+    parser.push(result.message?.content || '')
+  }
+  const { content, thinking } = parser.finish()
+
+  const chatResponse: ChatResponse = {
+    content: content || 'Извините, не удалось получить ответ от Llama.',
+    mode,
+    processingTime: 0,
+    model: `Ollama: ${model}`,
+    context: context.report
+  }
+
+  if (thinking) {
+    chatResponse.thinking = thinking
+    chatResponse.thinkingSource = 'model'
+  }
+
+  return chatResponse
+}
+
+// Проверка здоровья: список локально загруженных моделей
+function healthCheck(): Promise<boolean> {
+  const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434'
+  return probeEndpoint(`${OLLAMA_URL}/api/tags`)
+}
+
+// Локально загруженные модели
+async function listModels(): Promise<DiscoveredModel[]> {
+  const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434'
+  const result = await fetchJson<{ models?: Array<{ name: string }> }>(`${OLLAMA_URL}/api/tags`)
+  return (result.models || []).map(model => ({ id: model.name }))
+}
+
+export const ollamaProvider: ProviderAdapter = {
+  name: 'ollama',
+  displayName: 'Ollama',
+  priority: 5,
+  enabled: true, // Локальный провайдер всегда доступен как fallback
+  maxRetries: 1,
+  timeout: 120000,
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    chatHistory: true
+  },
+  models,
+  chat,
+  healthCheck,
+  listModels
+}
@@ -0,0 +1,275 @@
+/**
+ * Универсальный провайдер для API, совместимых с OpenAI /v1/chat/completions
+ * (Groq, Together, OpenAI, LM Studio, vLLM, llama.cpp server, внутренние шлюзы)
+ */
+
+import { buildContext } from '../context-builder'
+import { safeLogger } from '../logger'
+import { ReasoningParser } from '../reasoning'
+import { readOpenAIStream } from '../streaming'
+import { isAbortError, sleep } from '../utils'
+import type { ChatMode, ChatResponse, DiscoveredModel, ModelTier, ProviderAdapter, ProviderChatRequest, ProviderModel } from './types'
+import {
+  DEFAULT_TEMPERATURE,
+  fetchJson,
+  getContextWindow,
+  getModelForMode,
+  getModelTier,
+  getSystemPrompt,
+  probeEndpoint,
+  ProviderHttpError,
+  withTimeout
+} from './utils'
+
+export interface OpenAICompatibleConfig {
+  name: string
+  displayName?: string
+  baseUrl: string // Например, https://api.groq.com/openai/v1
+  apiKeyEnv?: string // Переменная окружения с ключом; без неё запросы идут без авторизации
+  models: Record<ModelTier, string>
+  contextWindow?: Partial<Record<ModelTier, number>> // Размер контекста моделей режимов, токены
+  discoverModels?: boolean // Запрашивать список моделей через /models (по умолчанию да)
+  priority?: number
+  enabled?: boolean // По умолчанию — есть ключ (или ключ не требуется)
+  timeout?: number // Таймаут одного HTTP запроса, мс
+  maxRetries?: number // Ошибок подряд до пометки провайдера недоступным
+  requestAttempts?: number // Попыток на один вызов при сетевых ошибках и 429
+  historyLimit?: number // Не больше стольких последних сообщений истории (по умолчанию — сколько поместится в контекст)
+  maxTokens?: Record<ModelTier, number> // creative — как у deep
+  temperature?: Partial<Record<ChatMode, number>>
+  extraBody?: Record<string, unknown> // Дополнительные поля тела запроса (top_p и т.п.)
+  apiKeyHint?: string // Где получить ключ — для сообщений об ошибках
+}
+
+const DEFAULTS = {
+  priority: 10,
+  timeout: 30000,
+  maxRetries: 2,
+  requestAttempts: 1,
+  maxTokens: { fast: 200, deep: 500 }
+}
+
+// Модели не для чата, которые /models отдаёт вместе с чатовыми
+const NON_CHAT_MODEL = /whisper|embed|tts|dall-e|moderation|transcribe|rerank/i
+
+/**
+ * Создаёт адаптер провайдера по конфигурации
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): ProviderAdapter {
+  const displayName = config.displayName || config.name
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+  const timeout = config.timeout ?? DEFAULTS.timeout
+  const requestAttempts = Math.max(1, config.requestAttempts ?? DEFAULTS.requestAttempts)
+  const maxTokens = config.maxTokens ?? DEFAULTS.maxTokens
+  const temperature = { ...DEFAULT_TEMPERATURE, ...config.temperature }
+
+  const models: ProviderModel[] = [
+    { id: config.models.fast, mode: 'fast', contextWindow: config.contextWindow?.fast },
+    { id: config.models.deep, mode: 'deep', contextWindow: config.contextWindow?.deep }
+  ]
+
+  // Размеры контекста, которые сообщил сервис в /models
+  const discoveredWindows = new Map<string, number>()
+
+  const getApiKey = () => config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined
+
+  async function chat(request: ProviderChatRequest): Promise<ChatResponse> {
+    const { message, mode, chatHistory, model: requestedModel, onToken, signal } = request
+    const apiKey = getApiKey()
+
+    if (config.apiKeyEnv && !apiKey) {
+      throw new Error(`${config.apiKeyEnv} не настроен${config.apiKeyHint ? `. ${config.apiKeyHint}` : ''}`)
+    }
+
+    const model = requestedModel || getModelForMode(models, mode)
+    const maxOutputTokens = maxTokens[getModelTier(mode)]
+
+    const systemPrompt = getSystemPrompt(request)
+    const context = buildContext({
+      systemPrompt,
+      history: chatHistory,
+      message,
+      contextWindow: getContextWindow(models, model) || discoveredWindows.get(model),
+      maxOutputTokens,
+      model,
+      historyLimit: config.historyLimit
+    })
+
+    const messages = [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      ...context.history,
+      { role: 'user', content: message }
+    ]
+
+    safeLogger.info(`⚡ Используем ${displayName}: ${model}`)
+
+    const requestPayload = {
+      ...config.extraBody,
+      model,
+      messages,
+      max_tokens: maxOutputTokens,
+      temperature: request.temperature ?? temperature[mode],
+      stream: !!onToken
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    }
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+
+    // Повторные попытки при сетевых ошибках
+    let lastError: Error | null = null
+    let hasStreamed = false
+    const handleToken = onToken && ((token: string) => {
+      hasStreamed = true
+      onToken(token)
+    })
+
+    for (let attempt = 1; attempt <= requestAttempts; attempt++) {
+      const timer = withTimeout(signal, timeout)
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(requestPayload),
+          signal: timer.signal
+        }).catch(error => {
+          if (isAbortError(error)) throw error
+          // Обработка сетевых ошибок
+          safeLogger.error(`📡 Сетевая ошибка при подключении к ${displayName}:`, error)
+          throw new Error(`Сетевая ошибка: ${error.message}. Проверьте подключение к ${baseUrl}.`)
+        })
+
+        safeLogger.info(`📥 ${displayName} ответ: ${response.status} ${response.statusText}`)
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          const errorMessage = errorData.error?.message || errorData.message || 'Unknown error'
+
+          safeLogger.error(`${displayName} API ошибка: ${response.status}`, errorData)
+
+          // Обработка ошибок аутентификации
+          if (response.status === 401 || errorMessage.includes('cfToken')) {
+            throw new ProviderHttpError(`${displayName}: Неверный API ключ. Проверьте ${config.apiKeyEnv || 'настройки ключа'}`, response.status)
+          }
+
+          if (response.status === 429) {
+            // При превышении лимита ждем и повторяем
+            if (attempt < requestAttempts) {
+              safeLogger.warn(`${displayName}: Превышен лимит запросов. Повторная попытка через 2 секунды...`)
+              await sleep(2000, signal)
+              continue
+            }
+            throw new ProviderHttpError(`${displayName}: Превышен лимит запросов. Попробуйте позже.`, response.status)
+          }
+
+          throw new ProviderHttpError(`${displayName} API error: ${response.status} - ${errorMessage}`, response.status)
+        }
+
+        // Рассуждения модели (<think> или поле reasoning) отделяются от ответа
+        const parser = new ReasoningParser(handleToken)
+        if (handleToken) {
+          await readOpenAIStream(response, token => parser.push(token), text => parser.addReasoning(text))
+        } else {
+          const result = await response.json()
+          const reply = result.choices?.[0]?.message
+          parser.addReasoning(reply?.reasoning_content || reply?.reasoning || '')
+          parser.push(reply?.content || '')
+        }
+        const { content, thinking } = parser.finish()
+
+        const chatResponse: ChatResponse = {
+          content: content || `Извините, не удалось получить ответ от ${displayName}.`,
+          mode,
+          processingTime: 0,
+          model: `${displayName}: ${model}`,
+          context: context.report
+        }
+
+        if (thinking) {
+          chatResponse.thinking = thinking
+          chatResponse.thinkingSource = 'model'
+        }
+
+        return chatResponse
+      } catch (error) {
+        // Клиент отменил запрос — повторять незачем
+        if (isAbortError(error)) throw error
+
+        lastError = error instanceof Error ? error : new Error(String(error))
+        safeLogger.error(`📡 ${displayName}: попытка ${attempt} не удалась:`, lastError.message)
+
+        // Если это последняя попытка или часть ответа уже отправлена, пробрасываем ошибку
+        if (attempt >= requestAttempts || hasStreamed) {
+          throw lastError
+        }
+
+        // Ждем перед повторной попыткой
+        await sleep(1000 * attempt, signal)
+      } finally {
+        timer.release()
+      }
+    }
+
+    // Это место не должно быть достигнуто
+    throw lastError || new Error(`Неизвестная ошибка ${displayName}`)
+  }
+
+  // Проверка здоровья: список моделей — дешёвый запрос без генерации
+  async function healthCheck(): Promise<boolean> {
+    const apiKey = getApiKey()
+    if (config.apiKeyEnv && !apiKey) return false
+
+    return probeEndpoint(`${baseUrl}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+    })
+  }
+
+  // Список моделей сервиса. Groq отдаёт context_window, Together — context_length
+  // (и массив вместо { data })
+  async function listModels(): Promise<DiscoveredModel[]> {
+    const apiKey = getApiKey()
+    if (config.apiKeyEnv && !apiKey) return []
+
+    const result = await fetchJson(`${baseUrl}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+    })
+    const entries: any[] = Array.isArray(result) ? result : result.data || []
+
+    const discovered: DiscoveredModel[] = entries
+      .filter(entry => typeof entry?.id === 'string' && !NON_CHAT_MODEL.test(entry.id))
+      .map(entry => ({
+        id: entry.id,
+        contextWindow: entry.context_window || entry.context_length || undefined
+      }))
+
+    discovered.forEach(model => {
+      if (model.contextWindow) discoveredWindows.set(model.id, model.contextWindow)
+    })
+    return discovered
+  }
+
+  return {
+    name: config.name,
+    displayName,
+    priority: config.priority ?? DEFAULTS.priority,
+    enabled: config.enabled ?? (!config.apiKeyEnv || !!getApiKey()),
+    maxRetries: config.maxRetries ?? DEFAULTS.maxRetries,
+    timeout,
+    apiKeyEnv: config.apiKeyEnv,
+    capabilities: {
+      streaming: true,
+      systemPrompt: true,
+      chatHistory: true
+    },
+    models,
+    chat,
+    healthCheck,
+    listModels: config.discoverModels === false ? undefined : listModels
+  }
+}
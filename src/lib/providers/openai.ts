@@ -0,0 +1,19 @@
+import { createOpenAICompatibleProvider } from './openai-compatible'
+
+// OpenAI API (опционально)
+export const openAIProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  displayName: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  models: {
+    fast: 'gpt-3.5-turbo',
+    deep: 'gpt-4'
+  },
+  contextWindow: { fast: 16385, deep: 8192 },
+  discoverModels: false, // /models возвращает сотни моделей, включая не чатовые
+  priority: 6, // Платный провайдер — после бесплатных
+  maxRetries: 2,
+  timeout: 60000,
+  maxTokens: { fast: 150, deep: 500 }
+})
@@ -0,0 +1,19 @@
+import { createOpenAICompatibleProvider } from './openai-compatible'
+
+// Together AI (бесплатные Llama модели)
+export const togetherProvider = createOpenAICompatibleProvider({
+  name: 'together',
+  displayName: 'Together AI',
+  baseUrl: 'https://api.together.xyz/v1',
+  apiKeyEnv: 'TOGETHER_API_KEY',
+  apiKeyHint: 'Получите бесплатный токен на https://api.together.xyz',
+  models: {
+    fast: 'meta-llama/Llama-2-7b-chat-hf',  // Быстрая модель
+    deep: 'meta-llama/Llama-2-13b-chat-hf'  // Более качественная модель
+  },
+  contextWindow: { fast: 4096, deep: 4096 },
+  priority: 3,
+  maxRetries: 2,
+  timeout: 45000,
+  extraBody: { top_p: 0.9, repetition_penalty: 1.1 }
+})
@@ -0,0 +1,120 @@
+/**
+ * Контракт адаптера AI провайдера
+ */
+
+import type { ContextReport } from '../context-builder'
+import type { PromptOverride } from '../prompt-library'
+import type { ThinkingSource } from '../reasoning'
+import type { SummaryUpdate } from '../summarizer'
+import type { ChatMode, Language, Persona, ResponseStyle } from '../types'
+
+export type { ChatMode }
+
+// Модели провайдера: быстрая и качественная; режим creative отвечает качественной
+export type ModelTier = 'fast' | 'deep'
+
+export type ChatHistory = Array<{ role: 'user' | 'assistant', content: string }>
+
+// Тело запроса и ответа /api/chat
+export interface ChatRequest {
+  message: string
+  mode: ChatMode
+  chatHistory?: Array<{
+    id?: string // Нужен, чтобы отметить границу краткого содержания
+    role: 'user' | 'assistant'
+    content: string
+  }>
+  summary?: string // Краткое содержание сообщений до chatHistory
+  persona?: Persona // Специализация ассистента
+  style?: ResponseStyle // Тон ответа; по умолчанию неформальный
+  customPrompt?: PromptOverride // Промпт из библиотеки пользователя вместо промпта режима
+  language?: Language // Язык ответа, выбранный для чата; без него — язык вопроса
+  userLanguage?: Language // Язык пользователя: если язык вопроса не определился
+  stream?: boolean // Потоковая передача ответа (NDJSON)
+  provider?: string // Предпочтительный провайдер чата; при ошибке — fallback
+  model?: string // Модель предпочтительного провайдера; без неё — модель режима
+}
+
+export interface ChatResponse {
+  content: string
+  thinking?: string // Только настоящие рассуждения модели или план ответа
+  thinkingSource?: ThinkingSource
+  mode: ChatMode
+  processingTime: number
+  model: string
+  provider?: string // Провайдер, который фактически ответил
+  context?: ContextReport // Сколько истории вошло в окно модели и что отброшено
+  summary?: SummaryUpdate // Обновлённое краткое содержание: сохранить в чате
+}
+
+// Обработчик очередного фрагмента текста при потоковой генерации
+export type TokenHandler = (token: string) => void
+
+export interface ProviderChatRequest {
+  message: string
+  mode: ChatMode
+  chatHistory: ChatHistory
+  model?: string // Модель, выбранная пользователем, вместо модели режима
+  systemPrompt?: string // Вместо системного промпта режима (служебные запросы)
+  persona?: Persona // Специализация ассистента в системном промпте
+  style?: ResponseStyle
+  language?: Language // Язык ответа: набор системных промптов; по умолчанию русский
+  customPrompt?: string // Промпт из библиотеки пользователя вместо промпта режима
+  temperature?: number // Вместо температуры режима
+  summary?: string // Краткое содержание ранней части разговора
+  plan?: string // План ответа из первого прохода режима deep
+  onToken?: TokenHandler
+  signal?: AbortSignal // Отмена запроса клиентом
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean // Отдаёт ответ по частям через onToken
+  systemPrompt: boolean // Принимает системный промпт
+  chatHistory: boolean // Учитывает историю диалога
+}
+
+export interface ProviderModel {
+  id: string
+  mode: ModelTier
+  contextWindow?: number // Размер контекста в токенах, если известен
+}
+
+// Модель, которую сообщил сам сервис провайдера (/api/tags, /v1/models)
+export interface DiscoveredModel {
+  id: string
+  contextWindow?: number
+}
+
+// Модель в каталоге /api/models
+export interface ModelInfo {
+  id: string
+  modes: ModelTier[] // Режимы, для которых провайдер выбирает модель; пусто — модель доступна, но не назначена
+  contextWindow?: number
+  source: 'configured' | 'discovered'
+}
+
+// Провайдер в каталоге /api/models
+export interface ProviderModelsInfo {
+  name: string
+  displayName: string
+  available: boolean // Цепь провайдера не разомкнута
+  capabilities: ProviderCapabilities
+  modes: Record<ModelTier, string> // Модель по умолчанию для режима
+  models: ModelInfo[]
+  discoveryError?: string
+}
+
+export interface ProviderAdapter {
+  name: string
+  displayName: string
+  priority: number // Меньше — выше в порядке fallback
+  enabled: boolean
+  maxRetries: number
+  timeout: number
+  apiKeyEnv?: string // Переменная окружения с ключом (для диагностики)
+  capabilities: ProviderCapabilities
+  models: ProviderModel[]
+  chat: (request: ProviderChatRequest) => Promise<ChatResponse>
+  healthCheck?: () => Promise<boolean>
+  listModels?: () => Promise<DiscoveredModel[]> // Запрос реального списка моделей у сервиса
+}
@@ -0,0 +1,140 @@
+/**
+ * Общие функции для адаптеров провайдеров
+ */
+
+import { createContextualPrompt, createPlanBlock, createSummaryBlock } from '../prompts'
+import type { ChatMode, ModelTier, ProviderChatRequest, ProviderModel } from './types'
+
+/**
+ * Ошибочный HTTP ответ API провайдера. По статусу отличаем ошибку самого запроса
+ * (например, модель не найдена) от сбоя сервиса
+ */
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'ProviderHttpError'
+  }
+}
+
+/**
+ * Провайдер отклонил запрос из-за его параметров (4xx), а не из-за собственного сбоя.
+ * Неверный ключ, запрет доступа, таймаут и лимит запросов — проблемы провайдера
+ */
+export function isRequestRejected(error: unknown): boolean {
+  return error instanceof ProviderHttpError &&
+    error.status >= 400 && error.status < 500 &&
+    ![401, 403, 408, 429].includes(error.status)
+}
+
+// Температура генерации по умолчанию: творческому режиму нужно больше разнообразия
+export const DEFAULT_TEMPERATURE: Record<ChatMode, number> = {
+  fast: 0.7,
+  deep: 0.8,
+  creative: 1.0
+}
+
+/**
+ * Уровень модели для режима: creative отвечает качественной моделью
+ */
+export function getModelTier(mode: ChatMode): ModelTier {
+  return mode === 'fast' ? 'fast' : 'deep'
+}
+
+/**
+ * Возвращает идентификатор основной модели провайдера для режима
+ */
+export function getModelForMode(models: ProviderModel[], mode: ChatMode): string {
+  const tier = getModelTier(mode)
+  const model = models.find(m => m.mode === tier)
+  if (!model) {
+    throw new Error(`Нет модели для режима ${mode}`)
+  }
+  return model.id
+}
+
+/**
+ * Системный промпт запроса: промпт режима или заданный явно,
+ * плюс краткое содержание разговора и план ответа
+ */
+export function getSystemPrompt({ mode, persona, style, language, customPrompt, systemPrompt, summary, plan }: ProviderChatRequest): string {
+  const blocks = [systemPrompt || createContextualPrompt(mode, persona, style, customPrompt, language)]
+  if (summary) blocks.push(createSummaryBlock(summary, language))
+  if (plan) blocks.push(createPlanBlock(plan, language))
+  return blocks.join('\n\n')
+}
+
+/**
+ * Окно контекста модели из конфигурации; undefined — размер неизвестен
+ */
+export function getContextWindow(models: ProviderModel[], modelId: string): number | undefined {
+  return models.find(m => m.id === modelId)?.contextWindow
+}
+
+/**
+ * Проверка доступности провайдера: лёгкий запрос с коротким таймаутом.
+ * okStatuses — дополнительные коды, которые считаются признаком живого сервиса.
+ */
+export async function probeEndpoint(
+  url: string,
+  init: RequestInit = {},
+  okStatuses: number[] = [],
+  timeout: number = 5000
+): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(timeout)
+    })
+    return response.ok || okStatuses.includes(response.status)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * GET запрос JSON с коротким таймаутом — для опроса служебных эндпоинтов
+ */
+export async function fetchJson<T = any>(url: string, init: RequestInit = {}, timeout: number = 5000): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(timeout)
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Сигнал для fetch к провайдеру: срабатывает по таймауту или при отмене запроса клиентом.
+ * release снимает подписку с сигнала клиента — вызывать, когда запрос завершён
+ */
+export function withTimeout(signal: AbortSignal | undefined, timeout: number): { signal: AbortSignal, release: () => void } {
+  const timeoutSignal = AbortSignal.timeout(timeout)
+  if (!signal) return { signal: timeoutSignal, release: () => {} }
+
+  const controller = new AbortController()
+  if (signal.aborted) {
+    controller.abort(signal.reason)
+    return { signal: controller.signal, release: () => {} }
+  }
+  const onAbort = () => controller.abort(signal.reason)
+  const onTimeout = () => controller.abort(timeoutSignal.reason)
+  signal.addEventListener('abort', onAbort, { once: true })
+  timeoutSignal.addEventListener('abort', onTimeout, { once: true })
+  return {
+    signal: controller.signal,
+    release: () => {
+      signal.removeEventListener('abort', onAbort)
+      timeoutSignal.removeEventListener('abort', onTimeout)
+    }
+  }
+}
+
+// УБИРАЕМ УНИВЕРСАЛЬНЫЕ ОТВЕТЫ - СИСТЕМА ДОЛЖНА РАБОТАТЬ С РЕАЛЬНЫМИ API!
+// Эта функция больше не должна использоваться для fallback
+export function generateUniversalResponse(question: string, mode: ChatMode): string {
+  // Этой функции не должно быть в production коде!
+  // Если мы здесь - значит все реальные провайдеры не работают
+  throw new Error(`КРИТИЧЕСКАЯ ОШИБКА: Все AI провайдеры недоступны! Вопрос: ${question}, Режим: ${mode}`)
+}
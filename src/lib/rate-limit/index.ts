@@ -0,0 +1,272 @@
+/**
+ * Ограничение запросов к /api/chat: token bucket на клиента (пользователь или IP)
+ * и суточные квоты пользователя на запросы и токены; отдельное ведро по IP — для входа и регистрации.
+ * Счётчики хранятся в памяти процесса или в Redis (RATE_LIMIT_STORE=redis)
+ */
+
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { safeLogger } from '../logger'
+import type { ChatMode } from '../providers'
+import type { User } from '../types'
+import { MemoryRateLimitStore } from './memory'
+import { RedisRateLimitStore } from './redis'
+import type { BucketConfig, QuotaUsage, RateLimitStore } from './types'
+
+export type { QuotaUsage, RateLimitStore } from './types'
+
+interface RateLimitConfig {
+  bucket: BucketConfig | null // null — частота запросов не ограничена
+  costs: Record<ChatMode, number> // Стоимость запроса в единицах ведра
+  dailyRequests: number // 0 — без ограничения
+  dailyTokens: number
+}
+
+export interface LimitDecision {
+  allowed: boolean
+  reason?: 'rate' | 'requests' | 'tokens'
+  retryAfter?: number // Секунд до следующей попытки
+}
+
+// Расход пользователя за текущие сутки (UTC)
+export interface DailyUsage extends QuotaUsage {
+  limits: QuotaUsage // 0 — без ограничения
+  resetsAt: Date
+}
+
+const ALLOWED: LimitDecision = { allowed: true }
+const DAY = 24 * 60 * 60 * 1000
+
+const DENIED_MESSAGES: Record<NonNullable<LimitDecision['reason']>, string> = {
+  rate: 'Слишком много запросов',
+  requests: 'Дневной лимит запросов исчерпан',
+  tokens: 'Дневной лимит токенов исчерпан'
+}
+
+// Маршруты API в dev-режиме собираются отдельно — счётчики держим в globalThis
+const globalStore = globalThis as typeof globalThis & { komairRateLimitStore?: RateLimitStore }
+
+function createStore(): RateLimitStore {
+  const backend = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase()
+
+  if (backend === 'redis') {
+    const url = process.env.RATE_LIMIT_REDIS_URL
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN
+    if (url && token) {
+      return new RedisRateLimitStore(url, token)
+    }
+    safeLogger.warn('⚠️ RATE_LIMIT_STORE=redis без RATE_LIMIT_REDIS_URL и RATE_LIMIT_REDIS_TOKEN, счётчики в памяти')
+  } else if (backend !== 'memory') {
+    safeLogger.warn(`⚠️ Неизвестное хранилище RATE_LIMIT_STORE=${backend}, счётчики в памяти`)
+  }
+  return new MemoryRateLimitStore()
+}
+
+function getStore(): RateLimitStore {
+  if (!globalStore.komairRateLimitStore) {
+    globalStore.komairRateLimitStore = createStore()
+    safeLogger.info(`🚦 Счётчики ограничений: ${globalStore.komairRateLimitStore.name}`)
+  }
+  return globalStore.komairRateLimitStore
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback
+}
+
+function getRateLimitConfig(): RateLimitConfig {
+  const burst = readNumber('RATE_LIMIT_BURST', 10)
+  const perMinute = readNumber('RATE_LIMIT_PER_MINUTE', 10)
+
+  return {
+    bucket: burst > 0 && perMinute > 0 ? { capacity: burst, refillPerMs: perMinute / 60000 } : null,
+    costs: {
+      fast: readNumber('RATE_LIMIT_COST_FAST', 1),
+      deep: readNumber('RATE_LIMIT_COST_DEEP', 3),
+      creative: readNumber('RATE_LIMIT_COST_CREATIVE', 3)
+    },
+    dailyRequests: readNumber('QUOTA_DAILY_REQUESTS', 500),
+    dailyTokens: readNumber('QUOTA_DAILY_TOKENS', 0)
+  }
+}
+
+// Попытки входа и регистрации: отдельное ведро, чтобы не подбирать пароли и не плодить учётные записи
+function getAuthBucket(): BucketConfig | null {
+  const burst = readNumber('AUTH_RATE_LIMIT_BURST', 5)
+  const perMinute = readNumber('AUTH_RATE_LIMIT_PER_MINUTE', 5)
+  return burst > 0 && perMinute > 0 ? { capacity: burst, refillPerMs: perMinute / 60000 } : null
+}
+
+// Сколько доверенных прокси стоит перед приложением; на Vercel X-Forwarded-For выставляет платформа
+function getTrustedProxyCount(): number {
+  return Math.floor(readNumber('TRUSTED_PROXY_COUNT', process.env.VERCEL ? 1 : 0))
+}
+
+/**
+ * Адрес клиента из заголовков прокси; null — прокси не настроены и заголовкам верить нельзя.
+ * Каждый прокси дописывает в X-Forwarded-For адрес, с которого пришёл запрос, поэтому
+ * клиент — первый адрес справа, который дописал не наш прокси; левее может быть что угодно
+ */
+function getClientIp(request: Request): string | null {
+  const trustedProxies = getTrustedProxyCount()
+  if (!trustedProxies) return null
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - trustedProxies)]
+  }
+  return request.headers.get('x-real-ip')?.trim() || null
+}
+
+/**
+ * Ключ ограничения: пользователь, иначе IP. Заголовок X-API-Key не учитывается —
+ * ключи API не проверяются, и каждый выдуманный ключ получал бы своё ведро
+ */
+export function getClientKey(request: Request, user: User | null): string {
+  if (user) return `user:${user.id}`
+  // Без доверенного прокси адрес неизвестен — анонимные запросы делят одно ведро
+  return `ip:${getClientIp(request) || 'unknown'}`
+}
+
+function getQuotaKey(userId: string, now = Date.now()): string {
+  return `quota:${userId}:${new Date(now).toISOString().slice(0, 10)}`
+}
+
+function getNextReset(now = Date.now()): number {
+  return Math.floor(now / DAY) * DAY + DAY
+}
+
+/**
+ * Ошибка хранилища не должна останавливать чат: запрос пропускается
+ */
+async function failOpen<T>(action: string, fallback: T, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run()
+  } catch (error) {
+    safeLogger.warn(`🚦 Не удалось ${action}, ограничение пропущено:`, error instanceof Error ? error.message : error)
+    return fallback
+  }
+}
+
+/**
+ * Списывает стоимость запроса из ведра клиента; deep дороже fast.
+ * Без режима (запрос отклоняется раньше разбора тела) — одна единица
+ */
+export function consumeRateLimit(clientKey: string, mode?: ChatMode): Promise<LimitDecision> {
+  const config = getRateLimitConfig()
+  const bucket = config.bucket
+  if (!bucket) return Promise.resolve(ALLOWED)
+
+  // Запрос дороже ёмкости ведра иначе не прошёл бы никогда
+  const cost = Math.min(mode ? config.costs[mode] : 1, bucket.capacity)
+  if (cost === 0) return Promise.resolve(ALLOWED)
+
+  return failOpen('проверить частоту запросов', ALLOWED, async () => {
+    const result = await getStore().consume(`bucket:${clientKey}`, cost, bucket, Date.now())
+    if (result.allowed) return ALLOWED
+    return {
+      allowed: false,
+      reason: 'rate',
+      retryAfter: Math.max(1, Math.ceil((cost - result.remaining) / bucket.refillPerMs / 1000))
+    }
+  })
+}
+
+/**
+ * Списывает попытку входа или регистрации из ведра IP клиента и, если указан,
+ * из ведра учётной записи (email): подбор пароля к одному адресу ограничен и с разных IP.
+ * Без доверенного прокси IP неизвестен — тогда общее ведро, если учётная запись не указана
+ */
+export function consumeAuthRateLimit(request: Request, account?: string): Promise<LimitDecision> {
+  const bucket = getAuthBucket()
+  if (!bucket) return Promise.resolve(ALLOWED)
+
+  const ip = getClientIp(request)
+  const keys = [
+    ip && `auth:ip:${ip}`,
+    // Сам email в счётчиках не храним
+    account && `auth:account:${createHash('sha256').update(account.trim().toLowerCase()).digest('hex').slice(0, 32)}`
+  ].filter((key): key is string => !!key)
+  if (keys.length === 0) keys.push('auth:ip:unknown')
+
+  return failOpen('проверить частоту попыток входа', ALLOWED, async () => {
+    const now = Date.now()
+    for (const key of keys) {
+      const result = await getStore().consume(key, 1, bucket, now)
+      if (!result.allowed) {
+        return {
+          allowed: false,
+          reason: 'rate',
+          retryAfter: Math.max(1, Math.ceil((1 - result.remaining) / bucket.refillPerMs / 1000))
+        }
+      }
+    }
+    return ALLOWED
+  })
+}
+
+/**
+ * Учитывает запрос в суточной квоте пользователя; при превышении запрос не засчитывается
+ */
+export function reserveDailyQuota(userId: string): Promise<LimitDecision> {
+  const { dailyRequests, dailyTokens } = getRateLimitConfig()
+  if (!dailyRequests && !dailyTokens) return Promise.resolve(ALLOWED)
+
+  return failOpen('проверить суточную квоту', ALLOWED, async () => {
+    const now = Date.now()
+    const key = getQuotaKey(userId, now)
+    const ttl = getNextReset(now) - now
+    const usage = await getStore().addUsage(key, { requests: 1, tokens: 0 }, ttl)
+
+    const reason = dailyTokens && usage.tokens >= dailyTokens ? 'tokens'
+      : dailyRequests && usage.requests > dailyRequests ? 'requests'
+      : null
+    if (!reason) return ALLOWED
+
+    await getStore().addUsage(key, { requests: -1, tokens: 0 }, ttl)
+    return { allowed: false, reason, retryAfter: Math.ceil(ttl / 1000) }
+  })
+}
+
+/**
+ * Добавляет израсходованные токены (вопрос, история и ответ) к суточной квоте
+ */
+export async function recordTokenUsage(userId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return
+  const now = Date.now()
+  await failOpen('учесть расход токенов', undefined, async () => {
+    await getStore().addUsage(getQuotaKey(userId, now), { requests: 0, tokens }, getNextReset(now) - now)
+  })
+}
+
+export async function getDailyUsage(userId: string): Promise<DailyUsage> {
+  const { dailyRequests, dailyTokens } = getRateLimitConfig()
+  const usage = await failOpen('получить расход', { requests: 0, tokens: 0 }, () =>
+    getStore().getUsage(getQuotaKey(userId))
+  )
+  return {
+    ...usage,
+    limits: { requests: dailyRequests, tokens: dailyTokens },
+    resetsAt: new Date(getNextReset())
+  }
+}
+
+/**
+ * Ответ 429 с Retry-After
+ */
+export function tooManyRequestsResponse(decision: LimitDecision): NextResponse {
+  const reason = decision.reason || 'rate'
+  const retryAfter = decision.retryAfter || 1
+  const message = reason === 'rate'
+    ? `${DENIED_MESSAGES.rate}. Повторите через ${retryAfter} с`
+    : DENIED_MESSAGES[reason]
+
+  return NextResponse.json(
+    { error: message, reason, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
@@ -0,0 +1,79 @@
+/**
+ * Счётчики в памяти процесса: у каждого экземпляра сервера свои
+ */
+
+import type { BucketConfig, BucketResult, QuotaUsage, RateLimitStore } from './types'
+
+interface BucketState {
+  tokens: number
+  updatedAt: number
+  fullAt: number // Когда ведро пополнится до ёмкости и его можно удалить: у ведер разные настройки
+}
+
+interface UsageState extends QuotaUsage {
+  expiresAt: number
+}
+
+const CLEANUP_INTERVAL = 60 * 1000
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private buckets = new Map<string, BucketState>()
+  private usage = new Map<string, UsageState>()
+  private lastCleanup = Date.now()
+
+  async consume(key: string, cost: number, bucket: BucketConfig, now: number): Promise<BucketResult> {
+    this.cleanup(now)
+
+    const state = this.buckets.get(key)
+    const elapsed = state ? now - state.updatedAt : 0
+    const tokens = state
+      ? Math.min(bucket.capacity, state.tokens + elapsed * bucket.refillPerMs)
+      : bucket.capacity
+
+    if (tokens < cost) {
+      return { allowed: false, remaining: tokens }
+    }
+
+    const fullAt = now + (bucket.capacity - tokens + cost) / bucket.refillPerMs
+    this.buckets.set(key, { tokens: tokens - cost, updatedAt: now, fullAt })
+    return { allowed: true, remaining: tokens - cost }
+  }
+
+  async addUsage(key: string, usage: QuotaUsage, ttlMs: number): Promise<QuotaUsage> {
+    const now = Date.now()
+    const current = this.usage.get(key)
+    const base = current && current.expiresAt > now ? current : { requests: 0, tokens: 0 }
+
+    const next = {
+      requests: Math.max(0, base.requests + usage.requests),
+      tokens: Math.max(0, base.tokens + usage.tokens),
+      expiresAt: now + ttlMs
+    }
+    this.usage.set(key, next)
+    return { requests: next.requests, tokens: next.tokens }
+  }
+
+  async getUsage(key: string): Promise<QuotaUsage> {
+    const current = this.usage.get(key)
+    if (!current || current.expiresAt <= Date.now()) {
+      return { requests: 0, tokens: 0 }
+    }
+    return { requests: current.requests, tokens: current.tokens }
+  }
+
+  /**
+   * Убирает заполненные ведра и истёкшие счётчики, чтобы память не росла
+   */
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return
+    this.lastCleanup = now
+
+    this.buckets.forEach((state, key) => {
+      if (state.fullAt <= now) this.buckets.delete(key)
+    })
+    this.usage.forEach((state, key) => {
+      if (state.expiresAt <= now) this.usage.delete(key)
+    })
+  }
+}
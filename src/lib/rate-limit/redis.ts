@@ -0,0 +1,86 @@
+/**
+ * Общие счётчики в Redis через REST API (Upstash, Vercel KV и совместимые).
+ * Нужны, когда сервер запущен в нескольких экземплярах: ограничения действуют на все сразу
+ */
+
+import type { BucketConfig, BucketResult, QuotaUsage, RateLimitStore } from './types'
+
+const REQUEST_TIMEOUT = 2000
+const KEY_PREFIX = 'komair:rl:'
+
+// Атомарное списание из ведра: пополнение, проверка и запись за один вызов
+const CONSUME_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refill)
+if tokens < cost then
+  return {0, tostring(tokens)}
+end
+tokens = tokens - cost
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill))
+return {1, tostring(tokens)}
+`
+
+const ADD_USAGE_SCRIPT = `
+local requests = redis.call('HINCRBY', KEYS[1], 'requests', ARGV[1])
+local tokens = redis.call('HINCRBY', KEYS[1], 'tokens', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return {requests, tokens}
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis'
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  async consume(key: string, cost: number, bucket: BucketConfig, now: number): Promise<BucketResult> {
+    const [allowed, remaining] = await this.command<[number, string]>([
+      'EVAL', CONSUME_SCRIPT, 1, KEY_PREFIX + key,
+      bucket.capacity, bucket.refillPerMs, cost, now
+    ])
+    return { allowed: allowed === 1, remaining: Number(remaining) }
+  }
+
+  async addUsage(key: string, usage: QuotaUsage, ttlMs: number): Promise<QuotaUsage> {
+    const [requests, tokens] = await this.command<[number, number]>([
+      'EVAL', ADD_USAGE_SCRIPT, 1, KEY_PREFIX + key,
+      Math.round(usage.requests), Math.round(usage.tokens), Math.round(ttlMs)
+    ])
+    return { requests: Math.max(0, requests), tokens: Math.max(0, tokens) }
+  }
+
+  async getUsage(key: string): Promise<QuotaUsage> {
+    const [requests, tokens] = await this.command<[string | null, string | null]>([
+      'HMGET', KEY_PREFIX + key, 'requests', 'tokens'
+    ])
+    return { requests: Math.max(0, Number(requests) || 0), tokens: Math.max(0, Number(tokens) || 0) }
+  }
+
+  private async command<T>(args: Array<string | number>): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok || data.error) {
+      throw new Error(`Redis: ${data.error || `HTTP ${response.status}`}`)
+    }
+    return data.result
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Контракт хранилища счётчиков ограничения запросов
+ */
+
+// Token bucket: ёмкость и скорость пополнения
+export interface BucketConfig {
+  capacity: number // Сколько единиц можно потратить подряд
+  refillPerMs: number // Единиц за миллисекунду
+}
+
+export interface BucketResult {
+  allowed: boolean
+  remaining: number // Единиц в ведре после запроса
+}
+
+// Расход за сутки
+export interface QuotaUsage {
+  requests: number
+  tokens: number
+}
+
+export interface RateLimitStore {
+  readonly name: string
+
+  /**
+   * Списывает cost единиц из ведра key; при нехватке ведро не меняется
+   */
+  consume(key: string, cost: number, bucket: BucketConfig, now: number): Promise<BucketResult>
+
+  /**
+   * Прибавляет расход к счётчику key (отрицательные значения — откат);
+   * счётчик живёт ttlMs. Возвращает расход после изменения
+   */
+  addUsage(key: string, usage: QuotaUsage, ttlMs: number): Promise<QuotaUsage>
+
+  getUsage(key: string): Promise<QuotaUsage>
+}
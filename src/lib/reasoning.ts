@@ -0,0 +1,148 @@
+/**
+ * Настоящие рассуждения модели вместо придуманных: блоки <think>…</think>
+ * в тексте ответа (DeepSeek R1, Qwen3, QwQ) и отдельные поля reasoning у API.
+ * Для режима deep можно включить план ответа (DEEP_MODE_PLAN=true): модель
+ * сначала составляет план, затем отвечает по нему — план показывается вместо рассуждений
+ */
+
+import { DEFAULT_LANGUAGE } from './i18n'
+import { safeLogger } from './logger'
+import { PLAN_PROMPTS } from './prompts'
+import type { ProviderAdapter, ProviderChatRequest, TokenHandler } from './providers/types'
+import { chatWithAccounting, type UsageAccounting } from './usage'
+
+// Откуда взялся ход мысли ответа
+export type ThinkingSource = 'model' | 'plan'
+
+export interface ParsedReasoning {
+  content: string
+  thinking?: string
+}
+
+const OPEN_TAG = '<think>'
+const CLOSE_TAG = '</think>'
+
+/**
+ * Длина конца текста, который может оказаться началом тега, разорванного между фрагментами
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length
+  }
+  return 0
+}
+
+/**
+ * Отделяет рассуждения от ответа по мере поступления текста.
+ * onToken получает только текст ответа, рассуждения копятся отдельно
+ */
+export class ReasoningParser {
+  private buffer = ''
+  private inThinking = false
+  private content = ''
+  private thinking = ''
+
+  constructor(private readonly onToken?: TokenHandler) {}
+
+  push(text: string): void {
+    this.buffer += text
+
+    while (this.buffer) {
+      const tag = this.inThinking ? CLOSE_TAG : OPEN_TAG
+      const index = this.buffer.indexOf(tag)
+      if (index !== -1) {
+        this.take(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + tag.length)
+        this.inThinking = !this.inThinking
+        continue
+      }
+
+      // Возможное начало тега ждёт следующего фрагмента
+      const keep = partialTagLength(this.buffer, tag)
+      this.take(this.buffer.slice(0, this.buffer.length - keep))
+      this.buffer = this.buffer.slice(this.buffer.length - keep)
+      break
+    }
+  }
+
+  // Рассуждения из отдельного поля ответа API (reasoning_content, reasoning, thinking)
+  addReasoning(text: string): void {
+    this.thinking += text
+  }
+
+  finish(): ParsedReasoning {
+    this.take(this.buffer)
+    this.buffer = ''
+
+    let content = this.content
+    let thinking = this.thinking
+    // Открывающий тег добавлен шаблоном чата: ответ начинается с рассуждений и </think>
+    const closeIndex = content.indexOf(CLOSE_TAG)
+    if (closeIndex !== -1 && !thinking.trim()) {
+      thinking = content.slice(0, closeIndex)
+      content = content.slice(closeIndex + CLOSE_TAG.length)
+    }
+
+    return { content: content.trim(), thinking: thinking.trim() || undefined }
+  }
+
+  private take(text: string): void {
+    if (!text) return
+    if (this.inThinking) {
+      this.thinking += text
+      return
+    }
+
+    // Переводы строк между рассуждениями и ответом не показываем
+    const visible = this.content ? text : text.trimStart()
+    if (!visible) return
+    this.content += visible
+    this.onToken?.(visible)
+  }
+}
+
+/**
+ * Разбирает готовый ответ модели целиком
+ */
+export function parseReasoning(text: string, reasoning?: string): ParsedReasoning {
+  const parser = new ReasoningParser()
+  if (reasoning) parser.addReasoning(reasoning)
+  parser.push(text)
+  return parser.finish()
+}
+
+export function isPlanningEnabled(): boolean {
+  return process.env.DEEP_MODE_PLAN === 'true'
+}
+
+/**
+ * Первый проход режима deep: план ответа той же моделью, на языке ответа.
+ * Запрос учитывается в лимитах пользователя (accounting).
+ * Ошибка плана или исчерпанный лимит не мешают ответу — он просто пойдёт без плана
+ */
+export async function requestPlan(
+  adapter: ProviderAdapter,
+  request: Pick<ProviderChatRequest, 'message' | 'chatHistory' | 'summary' | 'language' | 'model' | 'signal'>,
+  accounting?: UsageAccounting
+): Promise<string | undefined> {
+  try {
+    const response = await chatWithAccounting(adapter, {
+      ...request,
+      mode: 'deep',
+      systemPrompt: PLAN_PROMPTS[request.language || DEFAULT_LANGUAGE]
+    }, accounting)
+    if (!response) {
+      safeLogger.warn('🗺️ Лимит запросов исчерпан, ответ без плана')
+      return undefined
+    }
+    const plan = response.content.trim()
+    if (plan) {
+      safeLogger.info(`🗺️ План ответа составлен (${adapter.name})`)
+      return plan
+    }
+  } catch (error) {
+    if (request.signal?.aborted) throw error
+    safeLogger.warn(`🗺️ ${adapter.name} не смог составить план ответа:`, error instanceof Error ? error.message : error)
+  }
+  return undefined
+}
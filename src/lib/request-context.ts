@@ -0,0 +1,40 @@
+/**
+ * Контекст запроса API: ID для сквозной корреляции логов.
+ * Всё, что вызвано внутри withRequestContext — выбор провайдера, повторы, адаптеры,
+ * кэш и краткое содержание, — пишет в лог один и тот же requestId. Только для сервера
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+import type { RequestContext } from './logger'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+// ID от прокси или клиента принимаем, только если он похож на идентификатор
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/
+
+const globalContext = globalThis as typeof globalThis & {
+  komairRequestContext?: AsyncLocalStorage<RequestContext>
+}
+
+if (!globalContext.komairRequestContext) {
+  globalContext.komairRequestContext = new AsyncLocalStorage<RequestContext>()
+}
+
+const storage = globalContext.komairRequestContext
+
+/**
+ * ID запроса: заголовок X-Request-Id входящего запроса или новый UUID
+ */
+export function resolveRequestId(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER)
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+}
+
+/**
+ * Выполнить обработчик в контексте запроса; контекст сохраняется во всех
+ * асинхронных продолжениях, в том числе в потоковой генерации ответа
+ */
+export function withRequestContext<T>(requestId: string, run: () => T): T {
+  return storage.run({ requestId }, run)
+}
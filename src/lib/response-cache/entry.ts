@@ -0,0 +1,36 @@
+/**
+ * Запись кэша из JSON хранилища (Redis, SQLite). Повреждённая или записанная
+ * другой версией сервера запись не возвращается — для кэша это промах
+ */
+
+import { isChatMode } from '../chat-modes'
+import { isRecord } from '../utils'
+import type { CacheEntry } from './types'
+
+const STRING_FIELDS = ['key', 'group', 'namespace', 'context', 'text'] as const
+const NUMBER_FIELDS = ['timestamp', 'expiresAt', 'accessCount', 'lastAccessed', 'size'] as const
+
+function isCacheEntry(raw: unknown): raw is CacheEntry {
+  return isRecord(raw) &&
+    STRING_FIELDS.every(field => typeof raw[field] === 'string') &&
+    NUMBER_FIELDS.every(field => typeof raw[field] === 'number') &&
+    isChatMode(raw.mode) &&
+    isRecord(raw.data) && typeof raw.data.content === 'string' &&
+    (raw.embedding === undefined || (Array.isArray(raw.embedding) && raw.embedding.every(value => typeof value === 'number')))
+}
+
+/**
+ * counters — счётчики обращений, которые хранилище держит отдельно от JSON
+ */
+export function parseCacheEntry(json: string, counters?: Pick<CacheEntry, 'accessCount' | 'lastAccessed'>): CacheEntry | null {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (isRecord(raw) && counters) {
+    raw = { ...raw, ...counters }
+  }
+  return isCacheEntry(raw) ? raw : null
+}
@@ -0,0 +1,481 @@
+/**
+ * Кэш ответов ИИ. Хранилище выбирается через CACHE_STORE:
+ * memory (по умолчанию), sqlite (файл CACHE_DB_PATH) или redis (REST API Upstash)
+ */
+
+import { createHash } from 'crypto'
+import path from 'path'
+import { cosineSimilarity, hashingEmbedding, normalizeText, type EmbeddingFunction } from '../embeddings'
+import { logContent, safeLogger } from '../logger'
+import { recordCacheLookup } from '../metrics'
+import type { ChatResponse } from '../providers'
+import type { ChatMode } from '../types'
+import { MemoryCacheStore } from './memory'
+import { RedisCacheStore } from './redis'
+import { openCacheDatabase, SqliteCacheStore } from './sqlite'
+import type { CacheEntry, CacheStore } from './types'
+import { loadWarmupFile } from './warmup'
+
+export type { CacheEntry, CacheStore, CacheStoreSize } from './types'
+
+export interface CacheStats {
+  backend: string // Хранилище: memory, sqlite или redis
+  totalEntries: number
+  hitCount: number
+  semanticHitCount: number // Из них — по похожему, а не тому же вопросу
+  missCount: number
+  hitRate: number
+  totalSize: number
+  maxEntries: number
+  ttlSeconds: number
+  semantic: boolean
+  similarityThreshold: number
+  warmup: WarmupStatus | null // null — прогрева ещё не было
+}
+
+export interface WarmupStatus {
+  source: string // Файл прогретых ответов
+  loaded: number
+  errors: string[]
+  loadedAt: string
+}
+
+/**
+ * Отбор записей для просмотра и удаления; условия объединяются через «и»
+ */
+export interface CacheFilter {
+  key?: string
+  prefix?: string // Начало вопроса (без регистра и пунктуации)
+  provider?: string // Провайдер или провайдер/модель; * — прогретые ответы
+}
+
+// Запись в списке для администратора: без вектора и полного ответа
+export interface CacheEntryInfo {
+  key: string
+  question: string // Нормализованный вопрос
+  namespace: string
+  mode: ChatMode
+  prewarmed: boolean
+  preview: string // Начало ответа
+  accessCount: number
+  size: number
+  createdAt: string
+  lastAccessed: string
+  expiresAt: string
+}
+
+// Настройки, которые администратор меняет без перезапуска
+export interface CacheSettings {
+  maxEntries?: number
+  ttlSeconds?: number
+}
+
+/**
+ * Запрос к кэшу: вопрос вместе с разговором, в котором он задан.
+ * Одинаковый вопрос в разных разговорах — разные записи: «а подробнее?» зависит от истории
+ */
+export interface CacheQuery {
+  message: string
+  mode: ChatMode
+  history?: Array<{ role: string, content: string }>
+  summary?: string // Краткое содержание сообщений до history
+}
+
+interface CacheConfig {
+  maxEntries: number
+  ttlMs: number
+  semantic: boolean // Искать ответ на похожий вопрос, если точного нет
+  similarityThreshold: number // Минимальное косинусное сходство вопросов
+}
+
+// Пространство имён прогретых ответов: подходят для любого провайдера
+const ANY_NAMESPACE = '*'
+
+function getCacheConfig(): CacheConfig {
+  const number = (name: string, fallback: number, max = Infinity) => {
+    const value = Number(process.env[name])
+    return process.env[name] && !isNaN(value) && value > 0 && value <= max ? value : fallback
+  }
+
+  return {
+    maxEntries: number('CACHE_MAX_ENTRIES', 1000),
+    ttlMs: number('CACHE_TTL_SECONDS', 30 * 60) * 1000, // 30 минут по умолчанию
+    semantic: process.env.CACHE_SEMANTIC === 'true',
+    similarityThreshold: number('CACHE_SIMILARITY_THRESHOLD', 0.9, 1)
+  }
+}
+
+function getCacheDatabasePath(): string {
+  if (process.env.CACHE_DB_PATH) return process.env.CACHE_DB_PATH
+  // На Vercel запись возможна только во временный каталог
+  return process.env.VERCEL ? '/tmp/komair-cache.db' : path.join(process.cwd(), 'data', 'cache.db')
+}
+
+function createStore(): CacheStore {
+  const backend = (process.env.CACHE_STORE || 'memory').toLowerCase()
+
+  if (backend === 'sqlite') {
+    try {
+      return new SqliteCacheStore(openCacheDatabase(getCacheDatabasePath()))
+    } catch (error) {
+      safeLogger.error('💾 Не удалось открыть базу кэша SQLite, кэш в памяти:', error)
+    }
+  } else if (backend === 'redis') {
+    const url = process.env.CACHE_REDIS_REST_URL
+    const token = process.env.CACHE_REDIS_REST_TOKEN
+    if (url && !/^https?:\/\//.test(url)) {
+      safeLogger.warn('⚠️ CACHE_REDIS_REST_URL — адрес REST API (https://...), а не redis://, кэш в памяти')
+    } else if (url && token) {
+      return new RedisCacheStore(url, token)
+    } else {
+      safeLogger.warn('⚠️ CACHE_STORE=redis без CACHE_REDIS_REST_URL и CACHE_REDIS_REST_TOKEN, кэш в памяти')
+    }
+  } else if (backend !== 'memory') {
+    safeLogger.warn(`⚠️ Неизвестное хранилище CACHE_STORE=${backend}, кэш в памяти`)
+  }
+  return new MemoryCacheStore()
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function matchesFilter(entry: CacheEntry, filter: CacheFilter): boolean {
+  if (filter.key && entry.key !== filter.key) return false
+  if (filter.prefix && !entry.text.startsWith(normalizeText(filter.prefix))) return false
+  if (filter.provider && entry.namespace !== filter.provider && !entry.namespace.startsWith(`${filter.provider}/`)) return false
+  return true
+}
+
+function toEntryInfo(entry: CacheEntry): CacheEntryInfo {
+  return {
+    key: entry.key,
+    question: entry.text,
+    namespace: entry.namespace,
+    mode: entry.mode,
+    prewarmed: entry.namespace === ANY_NAMESPACE,
+    preview: entry.data.content.slice(0, 200),
+    accessCount: entry.accessCount,
+    size: entry.size,
+    createdAt: new Date(entry.timestamp).toISOString(),
+    lastAccessed: new Date(entry.lastAccessed).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString()
+  }
+}
+
+// Числа вопроса: «2+2» и «2+3» похожи по словам, но ответы у них разные
+function extractNumbers(text: string): string {
+  return (text.match(/\d+/g) || []).join(' ')
+}
+
+/**
+ * Сбой хранилища не должен ломать ответ: чтение считается промахом, запись пропускается
+ */
+async function failSafe<T>(action: string, fallback: T, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run()
+  } catch (error) {
+    safeLogger.warn(`⚠️ Кэш: не удалось ${action}:`, error instanceof Error ? error.message : error)
+    return fallback
+  }
+}
+
+class ResponseCache {
+  // Счётчики попаданий — у каждого процесса свои, записи — в общем хранилище
+  private hitCount = 0
+  private semanticHitCount = 0
+  private missCount = 0
+  private config = getCacheConfig()
+  private embed: EmbeddingFunction = hashingEmbedding
+  private warmupStatus: WarmupStatus | null = null
+
+  constructor(private store: CacheStore) {}
+
+  /**
+   * Заменить функцию векторов семантического поиска, например на локальную модель.
+   * Векторы старых записей несовместимы с новыми — кэш очищается
+   */
+  async setEmbeddingFunction(embed: EmbeddingFunction): Promise<void> {
+    this.embed = embed
+    await this.clear()
+  }
+
+  /**
+   * Хэш разговора до вопроса: роли и тексты сообщений и краткое содержание
+   */
+  private generateContextHash(query: CacheQuery): string {
+    const history = (query.history || []).map(({ role, content }) => [role, content.trim()])
+    return sha256(JSON.stringify({ history, summary: query.summary?.trim() || '' }))
+  }
+
+  /**
+   * Генерирует ключ кэша: провайдер и модель, режим, разговор и нормализованный вопрос
+   */
+  private generateCacheKey(namespace: string, mode: ChatMode, context: string, text: string): string {
+    return sha256(JSON.stringify({ namespace, mode, context, text }))
+  }
+
+  /**
+   * Группа семантического поиска: похожий вопрос ищется только в том же разговоре,
+   * у того же провайдера и в том же режиме
+   */
+  private generateGroup(namespace: string, mode: ChatMode, context: string): string {
+    return sha256(JSON.stringify({ namespace, mode, context }))
+  }
+
+  /**
+   * Проверяет, стоит ли кэшировать запрос
+   */
+  private shouldCache(message: string, mode: ChatMode): boolean {
+    // Творческие ответы должны различаться от запроса к запросу
+    if (mode === 'creative') {
+      return false
+    }
+
+    // Не кэшируем очень короткие или очень длинные сообщения
+    if (message.length < 3 || message.length > 1000) {
+      return false
+    }
+
+    // Не кэшируем сообщения с временными метками или персональными данными
+    const timePatterns = [
+      /сейчас|сегодня|вчера|завтра|время|дата/i,
+      /\d{2}:\d{2}|\d{2}\.\d{2}\.\d{4}|\d{4}-\d{2}-\d{2}/,
+      /меня зовут|мое имя|я работаю|мой/i
+    ]
+
+    return !timePatterns.some(pattern => pattern.test(message))
+  }
+
+  /**
+   * Самая похожая запись группы не ниже порога сходства
+   */
+  private async findSimilar(group: string, text: string, now: number): Promise<CacheEntry | null> {
+    const embedding = this.embed(text)
+    const numbers = extractNumbers(text)
+    let best: CacheEntry | null = null
+    let bestSimilarity = this.config.similarityThreshold
+
+    for (const entry of await this.store.getGroup(group, now)) {
+      if (!entry.embedding || extractNumbers(entry.text) !== numbers) continue
+
+      const similarity = cosineSimilarity(embedding, entry.embedding)
+      if (similarity >= bestSimilarity) {
+        best = entry
+        bestSimilarity = similarity
+      }
+    }
+
+    // Обращение отмечается так же, как при точном попадании
+    return best && this.store.get(best.key, now)
+  }
+
+  /**
+   * Получает данные из кэша: сначала тот же вопрос, затем — при включённом
+   * семантическом поиске — похожий. namespace — провайдер и модель, которые ответили бы
+   */
+  async get(query: CacheQuery, namespace: string): Promise<ChatResponse | null> {
+    const { message, mode } = query
+    if (!this.shouldCache(message, mode)) {
+      return null
+    }
+
+    const context = this.generateContextHash(query)
+    const text = normalizeText(message)
+    const now = Date.now()
+
+    return failSafe('прочитать запись', null, async () => {
+      let entry: CacheEntry | null = null
+      for (const ns of [namespace, ANY_NAMESPACE]) {
+        entry = await this.store.get(this.generateCacheKey(ns, mode, context, text), now)
+        if (entry) break
+      }
+
+      const semantic = !entry && this.config.semantic
+      if (semantic) {
+        entry = await this.findSimilar(this.generateGroup(namespace, mode, context), text, now)
+      }
+
+      if (!entry) {
+        this.missCount++
+        recordCacheLookup('miss')
+        return null
+      }
+
+      this.hitCount++
+      if (semantic) {
+        this.semanticHitCount++
+      }
+      recordCacheLookup(semantic ? 'semantic_hit' : 'hit')
+
+      safeLogger.info(`🎯 Кэш попадание${semantic ? ' (похожий вопрос)' : ''} для запроса: ${logContent(message)}`)
+
+      return entry.data
+    })
+  }
+
+  /**
+   * Сохраняет данные в кэш в пространстве провайдера и модели, которые ответили
+   */
+  async set(query: CacheQuery, namespace: string, data: ChatResponse, ttl?: number): Promise<void> {
+    const { message, mode } = query
+    if (!this.shouldCache(message, mode)) {
+      return
+    }
+
+    const context = this.generateContextHash(query)
+    const text = normalizeText(message)
+    const now = Date.now()
+    const actualTTL = ttl || this.config.ttlMs
+
+    const entry: CacheEntry = {
+      key: this.generateCacheKey(namespace, mode, context, text),
+      group: this.generateGroup(namespace, mode, context),
+      data,
+      timestamp: now,
+      expiresAt: now + actualTTL,
+      accessCount: 1,
+      lastAccessed: now,
+      size: 0,
+      namespace,
+      mode,
+      context,
+      text,
+      embedding: this.config.semantic ? this.embed(text) : undefined
+    }
+    // Приблизительный размер JSON строки: UTF-16, 2 байта на символ
+    entry.size = JSON.stringify(entry).length * 2
+
+    await failSafe('сохранить запись', undefined, async () => {
+      await this.store.set(entry, this.config.maxEntries, now)
+      safeLogger.info(`💾 Сохранено в кэш [${namespace}]: ${logContent(message)} (TTL: ${actualTTL / 1000}s)`)
+    })
+  }
+
+  /**
+   * Получить статистику кэша
+   */
+  async getStats(): Promise<CacheStats> {
+    const totalRequests = this.hitCount + this.missCount
+    const size = await failSafe('посчитать записи', { entries: 0, bytes: 0 }, () => this.store.getSize(Date.now()))
+
+    return {
+      backend: this.store.name,
+      totalEntries: size.entries,
+      hitCount: this.hitCount,
+      semanticHitCount: this.semanticHitCount,
+      missCount: this.missCount,
+      hitRate: totalRequests > 0 ? (this.hitCount / totalRequests) * 100 : 0,
+      totalSize: size.bytes,
+      maxEntries: this.config.maxEntries,
+      ttlSeconds: this.config.ttlMs / 1000,
+      semantic: this.config.semantic,
+      similarityThreshold: this.config.similarityThreshold,
+      warmup: this.warmupStatus
+    }
+  }
+
+  /**
+   * Живые записи, подходящие под фильтр; недавно использованные — первыми
+   */
+  async listEntries(filter: CacheFilter = {}): Promise<CacheEntryInfo[]> {
+    const entries = await this.store.list(Date.now())
+    return entries
+      .filter(entry => matchesFilter(entry, filter))
+      .sort((a, b) => b.lastAccessed - a.lastAccessed)
+      .map(toEntryInfo)
+  }
+
+  /**
+   * Удаляет записи, подходящие под фильтр. Возвращает число удалённых
+   */
+  async invalidate(filter: CacheFilter): Promise<number> {
+    const keys = (await this.store.list(Date.now()))
+      .filter(entry => matchesFilter(entry, filter))
+      .map(entry => entry.key)
+    await this.store.delete(keys)
+    safeLogger.info(`🗑️ Из кэша удалено записей: ${keys.length}`)
+    return keys.length
+  }
+
+  /**
+   * Меняет лимит записей и срок жизни новых записей без перезапуска.
+   * Уменьшенный лимит применяется сразу: лишние записи вытесняются.
+   * Настройки действуют в этом процессе до перезапуска
+   */
+  async configure(settings: CacheSettings): Promise<void> {
+    if (settings.maxEntries !== undefined) {
+      this.config.maxEntries = settings.maxEntries
+      await this.store.trim(settings.maxEntries, Date.now())
+    }
+    if (settings.ttlSeconds !== undefined) {
+      this.config.ttlMs = settings.ttlSeconds * 1000
+    }
+    safeLogger.info(`⚙️ Кэш: до ${this.config.maxEntries} записей, TTL ${this.config.ttlMs / 1000}s`)
+  }
+
+  /**
+   * Проверка доступности хранилища (не влияет на статистику попаданий)
+   */
+  async ping(): Promise<boolean> {
+    try {
+      return await this.store.ping()
+    } catch (error) {
+      safeLogger.error('❌ Кэш недоступен:', error)
+      return false
+    }
+  }
+
+  /**
+   * Очистить весь кэш
+   */
+  async clear(): Promise<void> {
+    await this.store.clear()
+    this.hitCount = 0
+    this.semanticHitCount = 0
+    this.missCount = 0
+    safeLogger.info('🗑️ Кэш полностью очищен')
+  }
+
+  /**
+   * Предварительный прогрев кэша частыми вопросами в начале разговора из файла прогрева.
+   * Повторный прогрев заменяет прежние прогретые ответы: удалённые из файла исчезают
+   */
+  async warmup(): Promise<WarmupStatus> {
+    const file = loadWarmupFile()
+    file.errors.forEach(error => safeLogger.warn(`⚠️ Прогрев кэша: ${error}`))
+
+    await failSafe('удалить прогретые ответы', 0, () => this.invalidate({ provider: ANY_NAMESPACE }))
+    for (const { message, mode, response } of file.entries) {
+      await this.set({ message, mode }, ANY_NAMESPACE, {
+        content: response,
+        mode,
+        processingTime: 100,
+        model: 'Cache: Prewarmed'
+      }, file.ttlMs)
+    }
+
+    this.warmupStatus = {
+      source: file.source,
+      loaded: file.entries.length,
+      errors: file.errors,
+      loadedAt: new Date().toISOString()
+    }
+    safeLogger.info(`🔥 Кэш прогрет ${file.entries.length} часто используемыми запросами`)
+    return this.warmupStatus
+  }
+}
+
+// Маршруты API в dev-режиме собираются отдельно — один кэш на процесс держим в globalThis
+const globalCache = globalThis as typeof globalThis & { komairResponseCache?: ResponseCache }
+
+if (!globalCache.komairResponseCache) {
+  const store = createStore()
+  safeLogger.info(`💾 Хранилище кэша ответов: ${store.name}`)
+  globalCache.komairResponseCache = new ResponseCache(store)
+  // Прогреваем кэш при инициализации
+  void globalCache.komairResponseCache.warmup()
+}
+
+// Создаём глобальный экземпляр
+export const responseCache = globalCache.komairResponseCache
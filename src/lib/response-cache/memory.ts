@@ -0,0 +1,80 @@
+/**
+ * Кэш ответов в памяти процесса: пропадает при перезапуске, у каждого экземпляра сервера свой
+ */
+
+import type { CacheEntry, CacheStore, CacheStoreSize } from './types'
+
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory'
+  // Порядок вставки Map — очередь вытеснения: в начале давно не использованные
+  private entries = new Map<string, CacheEntry>()
+
+  async get(key: string, now: number): Promise<CacheEntry | null> {
+    const entry = this.getLive(key, now)
+    if (!entry) return null
+
+    entry.accessCount++
+    entry.lastAccessed = now
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(entry: CacheEntry, maxEntries: number, now: number): Promise<void> {
+    this.entries.delete(entry.key)
+    this.entries.set(entry.key, entry)
+    await this.trim(maxEntries, now)
+  }
+
+  async list(now: number): Promise<CacheEntry[]> {
+    this.removeExpired(now)
+    return Array.from(this.entries.values())
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key))
+  }
+
+  async trim(maxEntries: number, now: number): Promise<void> {
+    this.removeExpired(now)
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break
+      this.entries.delete(key)
+    }
+  }
+
+  async getGroup(group: string, now: number): Promise<CacheEntry[]> {
+    this.removeExpired(now)
+    return Array.from(this.entries.values()).filter(entry => entry.group === group)
+  }
+
+  async getSize(now: number): Promise<CacheStoreSize> {
+    this.removeExpired(now)
+    let bytes = 0
+    this.entries.forEach(entry => { bytes += entry.size })
+    return { entries: this.entries.size, bytes }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  async ping(): Promise<boolean> {
+    return true
+  }
+
+  private getLive(key: string, now: number): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private removeExpired(now: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    })
+  }
+}
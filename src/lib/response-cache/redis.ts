@@ -0,0 +1,205 @@
+/**
+ * Общий кэш ответов в Redis через REST API (Upstash, Vercel KV и совместимые).
+ * Нужен, когда сервер запущен в нескольких экземплярах или бессерверно:
+ * кэш не пропадает при холодном старте. Подключения по протоколу Redis (redis://) нет:
+ * локально REST API поверх обычного Redis 7+ даёт serverless-redis-http (см. README)
+ */
+
+import { isRecord } from '../utils'
+import { parseCacheEntry } from './entry'
+import type { CacheEntry, CacheStore, CacheStoreSize } from './types'
+
+const REQUEST_TIMEOUT = 2000
+const KEY_PREFIX = 'komair:cache:'
+const SCAN_COUNT = 500
+
+// Записи лежат отдельными ключами с истечением PXAT; рядом — индексы:
+// очередь вытеснения по lastAccessed, сроки жизни, размеры и состав групп
+const LRU_KEY = `${KEY_PREFIX}lru`
+const EXPIRES_KEY = `${KEY_PREFIX}expires`
+const SIZES_KEY = `${KEY_PREFIX}sizes`
+
+type Command = Array<string | number>
+
+function entryKey(key: string): string {
+  return `${KEY_PREFIX}entry:${key}`
+}
+
+function groupKey(group: string): string {
+  return `${KEY_PREFIX}group:${group}`
+}
+
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis'
+
+  constructor(
+    private readonly url: string, // Адрес REST API, например https://your-db.upstash.io
+    private readonly token: string
+  ) {}
+
+  async get(key: string, now: number): Promise<CacheEntry | null> {
+    const value = await this.command<string | null>(['GET', entryKey(key)])
+    const entry = value ? parseCacheEntry(value) : null
+    if (!entry || entry.expiresAt <= now) {
+      await this.remove([key])
+      return null
+    }
+
+    entry.accessCount++
+    entry.lastAccessed = now
+    await this.pipeline([
+      ['SET', entryKey(key), JSON.stringify(entry), 'PXAT', entry.expiresAt],
+      ['ZADD', LRU_KEY, now, key]
+    ])
+    return entry
+  }
+
+  async set(entry: CacheEntry, maxEntries: number, now: number): Promise<void> {
+    await this.pipeline([
+      ['SET', entryKey(entry.key), JSON.stringify(entry), 'PXAT', entry.expiresAt],
+      ['ZADD', LRU_KEY, entry.lastAccessed, entry.key],
+      ['ZADD', EXPIRES_KEY, entry.expiresAt, entry.key],
+      ['HSET', SIZES_KEY, entry.key, entry.size],
+      ['SADD', groupKey(entry.group), entry.key],
+      // Группа живёт до последней своей записи: срок только продлевается.
+      // GT не задаёт срок ключу без срока, поэтому новой группе его задаёт NX
+      ['PEXPIREAT', groupKey(entry.group), entry.expiresAt, 'NX'],
+      ['PEXPIREAT', groupKey(entry.group), entry.expiresAt, 'GT']
+    ])
+    await this.trim(maxEntries, now)
+  }
+
+  async list(now: number): Promise<CacheEntry[]> {
+    await this.removeExpired(now)
+    const keys = await this.command<string[]>(['ZRANGE', LRU_KEY, 0, -1])
+    if (keys.length === 0) return []
+
+    const values = await this.command<Array<string | null>>(['MGET', ...keys.map(entryKey)])
+    return values
+      .map(value => value ? parseCacheEntry(value) : null)
+      .filter((entry): entry is CacheEntry => !!entry && entry.expiresAt > now)
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await this.remove(keys)
+  }
+
+  async trim(maxEntries: number, now: number): Promise<void> {
+    await this.removeExpired(now)
+
+    // Сверх лимита — давно не использованные
+    const count = await this.command<number>(['ZCARD', LRU_KEY])
+    if (count > maxEntries) {
+      await this.remove(await this.command<string[]>(['ZRANGE', LRU_KEY, 0, count - maxEntries - 1]))
+    }
+  }
+
+  async getGroup(group: string, now: number): Promise<CacheEntry[]> {
+    const keys = await this.command<string[]>(['SMEMBERS', groupKey(group)])
+    if (keys.length === 0) return []
+
+    const values = await this.command<Array<string | null>>(['MGET', ...keys.map(entryKey)])
+    const entries: CacheEntry[] = []
+    const missing: string[] = []
+    values.forEach((value, index) => {
+      const entry = value ? parseCacheEntry(value) : null
+      if (entry && entry.expiresAt > now) {
+        entries.push(entry)
+      } else {
+        missing.push(keys[index])
+      }
+    })
+
+    // Истёкшие и вытесненные записи убираем из группы при чтении
+    if (missing.length > 0) {
+      await this.command(['SREM', groupKey(group), ...missing])
+    }
+    return entries
+  }
+
+  async getSize(now: number): Promise<CacheStoreSize> {
+    await this.removeExpired(now)
+    const [entries, sizes] = await this.pipeline<[number, string[]]>([
+      ['ZCARD', LRU_KEY],
+      ['HVALS', SIZES_KEY]
+    ])
+    return { entries, bytes: sizes.reduce((total, size) => total + Number(size), 0) }
+  }
+
+  async clear(): Promise<void> {
+    // SCAN по частям вместо KEYS: KEYS блокирует Redis на время обхода всей базы
+    let cursor = '0'
+    do {
+      const [next, keys] = await this.command<[string, string[]]>(['SCAN', cursor, 'MATCH', `${KEY_PREFIX}*`, 'COUNT', SCAN_COUNT])
+      if (keys.length > 0) {
+        await this.command(['DEL', ...keys])
+      }
+      cursor = String(next)
+    } while (cursor !== '0')
+  }
+
+  async ping(): Promise<boolean> {
+    return await this.command<string>(['PING']) === 'PONG'
+  }
+
+  /**
+   * Убирает из индексов записи, срок которых истёк (сами ключи Redis удаляет сам)
+   */
+  private async removeExpired(now: number) {
+    const expired = await this.command<string[]>(['ZRANGEBYSCORE', EXPIRES_KEY, '-inf', now])
+    await this.remove(expired)
+  }
+
+  private async remove(keys: string[]) {
+    if (keys.length === 0) return
+    await this.pipeline([
+      ['DEL', ...keys.map(entryKey)],
+      ['ZREM', LRU_KEY, ...keys],
+      ['ZREM', EXPIRES_KEY, ...keys],
+      ['HDEL', SIZES_KEY, ...keys]
+    ])
+  }
+
+  private async command<T>(args: Command): Promise<T> {
+    const data = await this.request(this.url, args)
+    if (!isRecord(data) || !('result' in data)) {
+      throw new Error('Redis: ответ без result')
+    }
+    return data.result as T
+  }
+
+  /**
+   * Несколько команд одним запросом; результаты — в том же порядке
+   */
+  private async pipeline<T extends unknown[]>(commands: Command[]): Promise<T> {
+    const data = await this.request(`${this.url.replace(/\/$/, '')}/pipeline`, commands)
+    if (!Array.isArray(data) || data.length !== commands.length || !data.every(isRecord)) {
+      throw new Error('Redis: некорректный ответ pipeline')
+    }
+    const failed = data.find(item => item.error)
+    if (failed) {
+      throw new Error(`Redis: ${String(failed.error)}`)
+    }
+    return data.map(item => item.result) as T
+  }
+
+  private async request(url: string, body: Command | Command[]): Promise<unknown> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    })
+
+    const data: unknown = await response.json().catch(() => null)
+    const error = isRecord(data) && data.error ? String(data.error) : null
+    if (!response.ok || error) {
+      throw new Error(`Redis: ${error || `HTTP ${response.status}`}`)
+    }
+    return data
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Кэш ответов в файле SQLite: переживает перезапуск и деплой на том же диске,
+ * общий для процессов одного сервера
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { parseCacheEntry } from './entry'
+import type { CacheEntry, CacheStore, CacheStoreSize } from './types'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS response_cache (
+    key TEXT PRIMARY KEY,
+    cache_group TEXT NOT NULL,
+    data TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    access_count INTEGER NOT NULL,
+    last_accessed INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS response_cache_group ON response_cache (cache_group);
+  CREATE INDEX IF NOT EXISTS response_cache_expires_at ON response_cache (expires_at);
+  CREATE INDEX IF NOT EXISTS response_cache_last_accessed ON response_cache (last_accessed);
+`
+
+// Счётчики обращений хранятся в колонках, чтобы не переписывать JSON записи
+interface CacheRow {
+  data: string
+  access_count: number
+  last_accessed: number
+}
+
+export function openCacheDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+  }
+  const db = new Database(filename)
+  db.pragma('journal_mode = WAL')
+  db.exec(SCHEMA)
+  return db
+}
+
+export class SqliteCacheStore implements CacheStore {
+  readonly name = 'sqlite'
+
+  constructor(private db: Database.Database) {}
+
+  async get(key: string, now: number): Promise<CacheEntry | null> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare('SELECT data, access_count, last_accessed FROM response_cache WHERE key = ? AND expires_at > ?')
+        .get(key, now) as CacheRow | undefined
+      const entry = row && this.toEntry(row)
+      if (!entry) return null
+
+      this.db
+        .prepare('UPDATE response_cache SET access_count = access_count + 1, last_accessed = ? WHERE key = ?')
+        .run(now, key)
+      return { ...entry, accessCount: entry.accessCount + 1, lastAccessed: now }
+    })()
+  }
+
+  async set(entry: CacheEntry, maxEntries: number, now: number): Promise<void> {
+    const { accessCount, lastAccessed, ...data } = entry
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO response_cache (key, cache_group, data, size, expires_at, access_count, last_accessed)
+        VALUES (@key, @group, @data, @size, @expiresAt, @accessCount, @lastAccessed)
+        ON CONFLICT (key) DO UPDATE SET
+          cache_group = excluded.cache_group,
+          data = excluded.data,
+          size = excluded.size,
+          expires_at = excluded.expires_at,
+          access_count = excluded.access_count,
+          last_accessed = excluded.last_accessed
+      `).run({
+        key: entry.key,
+        group: entry.group,
+        data: JSON.stringify(data),
+        size: entry.size,
+        expiresAt: entry.expiresAt,
+        accessCount,
+        lastAccessed
+      })
+      this.trimRows(maxEntries, now)
+    })()
+  }
+
+  async list(now: number): Promise<CacheEntry[]> {
+    const rows = this.db
+      .prepare('SELECT data, access_count, last_accessed FROM response_cache WHERE expires_at > ?')
+      .all(now) as CacheRow[]
+    return rows.map(row => this.toEntry(row)).filter((entry): entry is CacheEntry => entry !== null)
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const remove = this.db.prepare('DELETE FROM response_cache WHERE key = ?')
+    this.db.transaction(() => keys.forEach(key => remove.run(key)))()
+  }
+
+  async trim(maxEntries: number, now: number): Promise<void> {
+    this.db.transaction(() => this.trimRows(maxEntries, now))()
+  }
+
+  async getGroup(group: string, now: number): Promise<CacheEntry[]> {
+    const rows = this.db
+      .prepare('SELECT data, access_count, last_accessed FROM response_cache WHERE cache_group = ? AND expires_at > ?')
+      .all(group, now) as CacheRow[]
+    return rows.map(row => this.toEntry(row)).filter((entry): entry is CacheEntry => entry !== null)
+  }
+
+  async getSize(now: number): Promise<CacheStoreSize> {
+    this.removeExpired(now)
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS bytes FROM response_cache')
+      .get() as CacheStoreSize
+    return { entries: row.entries, bytes: row.bytes }
+  }
+
+  async clear(): Promise<void> {
+    this.db.prepare('DELETE FROM response_cache').run()
+  }
+
+  async ping(): Promise<boolean> {
+    return (this.db.prepare('SELECT 1 AS ok').get() as { ok: number }).ok === 1
+  }
+
+  private trimRows(maxEntries: number, now: number) {
+    this.removeExpired(now)
+
+    // Сверх лимита — давно не использованные
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM response_cache').get() as { count: number }
+    if (count > maxEntries) {
+      this.db.prepare(`
+        DELETE FROM response_cache WHERE key IN (
+          SELECT key FROM response_cache ORDER BY last_accessed ASC LIMIT ?
+        )
+      `).run(count - maxEntries)
+    }
+  }
+
+  private removeExpired(now: number) {
+    this.db.prepare('DELETE FROM response_cache WHERE expires_at <= ?').run(now)
+  }
+
+  private toEntry(row: CacheRow): CacheEntry | null {
+    return parseCacheEntry(row.data, { accessCount: row.access_count, lastAccessed: row.last_accessed })
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Контракт хранилища кэша ответов. Срок жизни, вытеснение и размер
+ * считаются одинаково во всех хранилищах: записи с истёкшим expiresAt не возвращаются,
+ * сверх maxEntries удаляются давно не использованные (по lastAccessed)
+ */
+
+import type { ChatResponse } from '../providers'
+import type { ChatMode } from '../types'
+
+export interface CacheEntry {
+  key: string
+  group: string // Провайдер, режим и разговор: среди записей группы ищется похожий вопрос
+  data: ChatResponse
+  timestamp: number
+  expiresAt: number
+  accessCount: number
+  lastAccessed: number
+  size: number // Приблизительный размер записи в байтах
+  namespace: string // Провайдер и модель ответа
+  mode: ChatMode
+  context: string // Хэш истории разговора до вопроса
+  text: string // Нормализованный вопрос
+  embedding?: number[] // Вектор вопроса для семантического поиска
+}
+
+export interface CacheStoreSize {
+  entries: number
+  bytes: number
+}
+
+export interface CacheStore {
+  readonly name: string
+
+  /**
+   * Живая запись; обращение отмечается в accessCount и lastAccessed
+   */
+  get(key: string, now: number): Promise<CacheEntry | null>
+
+  /**
+   * Сохраняет запись и вытесняет давно не использованные сверх maxEntries
+   */
+  set(entry: CacheEntry, maxEntries: number, now: number): Promise<void>
+
+  /**
+   * Все живые записи без отметки обращения — для администрирования
+   */
+  list(now: number): Promise<CacheEntry[]>
+
+  /**
+   * Удаляет записи по ключам
+   */
+  delete(keys: string[]): Promise<void>
+
+  /**
+   * Вытесняет давно не использованные записи сверх maxEntries
+   */
+  trim(maxEntries: number, now: number): Promise<void>
+
+  /**
+   * Живые записи группы без отметки обращения — кандидаты семантического поиска
+   */
+  getGroup(group: string, now: number): Promise<CacheEntry[]>
+
+  /**
+   * Число и размер живых записей
+   */
+  getSize(now: number): Promise<CacheStoreSize>
+
+  clear(): Promise<void>
+
+  /**
+   * Доступность хранилища (для проверки готовности)
+   */
+  ping(): Promise<boolean>
+}
@@ -0,0 +1,64 @@
+/**
+ * Прогретые ответы на частые вопросы из одного JSON файла (CACHE_WARMUP_FILE или cache.warmup.json):
+ * { "ttlSeconds": 86400, "entries": [{ "message": "Привет", "mode": "fast", "response": "..." }] }
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { ChatMode } from '../types'
+
+const DEFAULT_WARMUP_FILE = 'cache.warmup.json'
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+
+export interface WarmupEntry {
+  message: string
+  mode: ChatMode
+  response: string
+}
+
+export interface WarmupFile {
+  source: string
+  ttlMs: number
+  entries: WarmupEntry[]
+  errors: string[] // Пропущенные записи и ошибки чтения
+}
+
+function isWarmupEntry(value: unknown): value is WarmupEntry {
+  const entry = value as WarmupEntry
+  return !!entry && typeof entry.message === 'string' && !!entry.message.trim() &&
+    // Творческие ответы не кэшируются
+    (entry.mode === 'fast' || entry.mode === 'deep') &&
+    typeof entry.response === 'string' && !!entry.response.trim()
+}
+
+export function loadWarmupFile(): WarmupFile {
+  const source = path.resolve(process.cwd(), process.env.CACHE_WARMUP_FILE || DEFAULT_WARMUP_FILE)
+  const result: WarmupFile = { source, ttlMs: DEFAULT_TTL_SECONDS * 1000, entries: [], errors: [] }
+
+  if (!fs.existsSync(source)) {
+    if (process.env.CACHE_WARMUP_FILE) {
+      result.errors.push(`Файл прогрева кэша не найден: ${source}`)
+    }
+    return result
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(source, 'utf8'))
+    if (typeof parsed.ttlSeconds === 'number' && parsed.ttlSeconds > 0) {
+      result.ttlMs = parsed.ttlSeconds * 1000
+    }
+
+    const entries: unknown[] = Array.isArray(parsed.entries) ? parsed.entries : []
+    entries.forEach((entry, index) => {
+      if (isWarmupEntry(entry)) {
+        result.entries.push(entry)
+      } else {
+        result.errors.push(`Запись ${index + 1} пропущена: нужны message, mode (fast или deep) и response`)
+      }
+    })
+  } catch (error) {
+    result.errors.push(`Ошибка чтения ${source}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return result
+}
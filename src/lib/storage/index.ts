@@ -0,0 +1,75 @@
+/**
+ * Серверное хранилище чатов и пользователей. Бэкенд выбирается через CHAT_STORAGE:
+ * sqlite (по умолчанию, файл CHAT_DB_PATH), memory или none (чаты только в браузере)
+ */
+
+import path from 'path'
+import { safeLogger } from '../logger'
+import { MemoryChatRepository, MemoryUserRepository } from './memory'
+import { openDatabase, SqliteChatRepository, SqliteUserRepository } from './sqlite'
+import type { ChatRepository, UserRepository } from './types'
+
+export type {
+  AuthProviderName,
+  ChatChanges,
+  ChatRepository,
+  DeletedChat,
+  StoredUser,
+  UserChanges,
+  UserRepository
+} from './types'
+
+interface Repositories {
+  chats: ChatRepository | null
+  users: UserRepository
+}
+
+// Маршруты API в dev-режиме собираются отдельно, поэтому экземпляр
+// держим в globalThis: иначе у каждого маршрута было бы своё хранилище в памяти
+const globalStore = globalThis as typeof globalThis & { komairRepositories?: Repositories }
+
+function getDatabasePath(): string {
+  if (process.env.CHAT_DB_PATH) return process.env.CHAT_DB_PATH
+  // На Vercel запись возможна только во временный каталог
+  return process.env.VERCEL ? '/tmp/komair.db' : path.join(process.cwd(), 'data', 'komair.db')
+}
+
+function createRepositories(): Repositories {
+  const backend = (process.env.CHAT_STORAGE || 'sqlite').toLowerCase()
+
+  if (backend === 'sqlite') {
+    try {
+      const db = openDatabase(getDatabasePath())
+      return { chats: new SqliteChatRepository(db), users: new SqliteUserRepository(db) }
+    } catch (error) {
+      safeLogger.error('💾 Не удалось открыть базу SQLite:', error)
+    }
+  } else if (backend === 'memory') {
+    return { chats: new MemoryChatRepository(), users: new MemoryUserRepository() }
+  } else if (backend !== 'none') {
+    safeLogger.warn(`⚠️ Неизвестное хранилище чатов CHAT_STORAGE=${backend}, серверное хранение отключено`)
+  }
+
+  // Без базы учётные записи живут до перезапуска сервера
+  safeLogger.warn('⚠️ Пользователи хранятся в памяти процесса')
+  return { chats: null, users: new MemoryUserRepository() }
+}
+
+function getRepositories(): Repositories {
+  if (!globalStore.komairRepositories) {
+    globalStore.komairRepositories = createRepositories()
+    safeLogger.info(`💾 Хранилище чатов: ${globalStore.komairRepositories.chats?.name || 'отключено'}`)
+  }
+  return globalStore.komairRepositories
+}
+
+/**
+ * Хранилище чатов; null — серверное хранение отключено или недоступно
+ */
+export function getChatRepository(): ChatRepository | null {
+  return getRepositories().chats
+}
+
+export function getUserRepository(): UserRepository {
+  return getRepositories().users
+}
@@ -0,0 +1,109 @@
+/**
+ * Хранилище в памяти процесса: для разработки и окружений без диска.
+ * Данные пропадают при перезапуске
+ */
+
+import { resolveChatSave, withParent } from '../chat-merge'
+import type { Chat, Message } from '../types'
+import type { AuthProviderName, ChatChanges, ChatRepository, StoredUser, UserChanges, UserRepository } from './types'
+
+interface StoredRecord {
+  userId: string
+  chat: Chat | null // null — чат удалён
+  deletedAt: Date | null
+  syncedAt: number // Время записи по часам сервера
+}
+
+export class MemoryChatRepository implements ChatRepository {
+  readonly name = 'memory'
+  private records = new Map<string, StoredRecord>()
+
+  async listChanges(userId: string, since?: Date): Promise<ChatChanges> {
+    const serverTime = new Date()
+    const changes: ChatChanges = { chats: [], deleted: [], serverTime }
+
+    this.records.forEach((record, id) => {
+      if (record.userId !== userId) return
+      if (since && record.syncedAt < since.getTime()) return
+      if (record.chat) {
+        changes.chats.push(record.chat)
+      } else if (record.deletedAt) {
+        changes.deleted.push({ id, deletedAt: record.deletedAt })
+      }
+    })
+    return changes
+  }
+
+  async getChat(userId: string, id: string): Promise<Chat | null> {
+    const record = this.records.get(id)
+    return record?.userId === userId ? record.chat : null
+  }
+
+  async saveChat(userId: string, chat: Chat) {
+    const record = this.records.get(chat.id)
+    if (record && record.userId !== userId) return null
+
+    const result = resolveChatSave(record?.chat || null, record?.deletedAt || null, chat)
+    if (result.status !== 'deleted') {
+      this.records.set(chat.id, { userId, chat: result.chat, deletedAt: null, syncedAt: Date.now() })
+    }
+    return result
+  }
+
+  async deleteChat(userId: string, id: string, deletedAt: Date): Promise<boolean | null> {
+    const record = this.records.get(id)
+    if (record && record.userId !== userId) return null
+    // Изменение новее удаления — чат остаётся
+    if (record?.chat && record.chat.updatedAt.getTime() > deletedAt.getTime()) return false
+
+    this.records.set(id, { userId, chat: null, deletedAt, syncedAt: Date.now() })
+    return true
+  }
+
+  async saveMessage(userId: string, chatId: string, message: Message): Promise<Chat | null> {
+    const record = this.records.get(chatId)
+    if (!record?.chat || record.userId !== userId) return null
+
+    const stored = withParent(record.chat, message)
+    const exists = record.chat.messages.some(item => item.id === message.id)
+    const chat: Chat = {
+      ...record.chat,
+      messages: exists
+        ? record.chat.messages.map(item => item.id === message.id ? stored : item)
+        : [...record.chat.messages, stored],
+      activeLeafId: message.id,
+      updatedAt: new Date()
+    }
+    this.records.set(chatId, { userId, chat, deletedAt: null, syncedAt: Date.now() })
+    return chat
+  }
+}
+
+export class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, StoredUser>()
+
+  async findById(id: string): Promise<StoredUser | null> {
+    return this.users.get(id) || null
+  }
+
+  async findByIdentity(provider: AuthProviderName, subject: string): Promise<StoredUser | null> {
+    for (const user of Array.from(this.users.values())) {
+      if (user.provider === provider && user.subject === subject) return user
+    }
+    return null
+  }
+
+  async createUser(user: StoredUser): Promise<StoredUser | null> {
+    if (await this.findByIdentity(user.provider, user.subject)) return null
+    this.users.set(user.id, user)
+    return user
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<StoredUser | null> {
+    const user = this.users.get(id)
+    if (!user) return null
+    const updated = { ...user, ...changes }
+    this.users.set(id, updated)
+    return updated
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Хранилище чатов и пользователей в файле SQLite (по умолчанию)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { isChatMode, isPersona, isResponseStyle } from '../chat-modes'
+import { isLanguage } from '../i18n'
+import { resolveChatSave, reviveMessage, reviveSummary, withParent } from '../chat-merge'
+import type { Chat, Message } from '../types'
+import type { AuthProviderName, ChatChanges, ChatRepository, StoredUser, UserChanges, UserRepository } from './types'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT '',
+    title TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    model_preference TEXT,
+    summary TEXT,
+    persona TEXT,
+    style TEXT,
+    language TEXT,
+    prompt_id TEXT,
+    active_leaf_id TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    deleted_at INTEGER,
+    synced_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chats_user_synced_at ON chats (user_id, synced_at);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    chat_id TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    parent_id TEXT,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL DEFAULT '{}',
+    PRIMARY KEY (chat_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email TEXT NOT NULL,
+    name TEXT,
+    password_hash TEXT,
+    email_verified INTEGER NOT NULL DEFAULT 0,
+    role TEXT,
+    created_at INTEGER NOT NULL,
+    UNIQUE (provider, subject)
+  );
+`
+
+interface ChatRow {
+  id: string
+  user_id: string
+  title: string
+  mode: string
+  tags: string
+  model_preference: string | null
+  summary: string | null
+  persona: string | null
+  style: string | null
+  language: string | null
+  prompt_id: string | null
+  active_leaf_id: string | null
+  created_at: number
+  updated_at: number
+  deleted_at: number | null
+  synced_at: number
+}
+
+interface MessageRow {
+  id: string
+  parent_id: string | null
+  role: string
+  content: string
+  timestamp: number
+  data: string // Остальные поля сообщения: режим, модель, версии ответа
+}
+
+function toMessage(row: MessageRow): Message {
+  return reviveMessage({
+    ...JSON.parse(row.data),
+    id: row.id,
+    parentId: row.parent_id,
+    role: row.role,
+    content: row.content,
+    timestamp: row.timestamp
+  })
+}
+
+interface UserRow {
+  id: string
+  provider: AuthProviderName
+  subject: string
+  email: string
+  name: string | null
+  password_hash: string | null
+  email_verified: number
+  role: string | null
+  created_at: number
+}
+
+/**
+ * Открывает (и при необходимости создаёт) файл базы
+ */
+export function openDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+  }
+  const db = new Database(filename)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+
+  // Базы, созданные до появления пользователей: чаты без владельца никому не видны
+  const chatColumns = db.prepare('PRAGMA table_info(chats)').all() as Array<{ name: string }>
+  if (chatColumns.length > 0 && !chatColumns.some(column => column.name === 'user_id')) {
+    db.exec("ALTER TABLE chats ADD COLUMN user_id TEXT NOT NULL DEFAULT ''")
+  }
+  // Колонки, появившиеся позже: краткое содержание, роль, тон, промпт и язык чата
+  for (const column of ['summary', 'persona', 'style', 'prompt_id', 'language']) {
+    if (chatColumns.length > 0 && !chatColumns.some(existing => existing.name === column)) {
+      db.exec(`ALTER TABLE chats ADD COLUMN ${column} TEXT`)
+    }
+  }
+  // Подтверждение email и явно назначенная роль пользователя
+  const userColumns = db.prepare('PRAGMA table_info(users)').all() as Array<{ name: string }>
+  if (userColumns.length > 0 && !userColumns.some(column => column.name === 'email_verified')) {
+    db.exec('ALTER TABLE users ADD COLUMN email_verified INTEGER NOT NULL DEFAULT 0')
+  }
+  if (userColumns.length > 0 && !userColumns.some(column => column.name === 'role')) {
+    db.exec('ALTER TABLE users ADD COLUMN role TEXT')
+  }
+
+  db.exec(SCHEMA)
+  return db
+}
+
+export class SqliteChatRepository implements ChatRepository {
+  readonly name = 'sqlite'
+
+  constructor(private db: Database.Database) {}
+
+  async listChanges(userId: string, since?: Date): Promise<ChatChanges> {
+    const serverTime = new Date()
+    const rows = this.db
+      .prepare('SELECT * FROM chats WHERE user_id = ? AND synced_at >= ? ORDER BY updated_at DESC')
+      .all(userId, since ? since.getTime() : 0) as ChatRow[]
+
+    return {
+      chats: rows.filter(row => row.deleted_at === null).map(row => this.toChat(row)),
+      deleted: rows
+        .filter(row => row.deleted_at !== null)
+        .map(row => ({ id: row.id, deletedAt: new Date(row.deleted_at as number) })),
+      serverTime
+    }
+  }
+
+  async getChat(userId: string, id: string): Promise<Chat | null> {
+    return this.readChat(userId, id)
+  }
+
+  async saveChat(userId: string, chat: Chat) {
+    return this.db.transaction(() => {
+      const row = this.getRow(chat.id)
+      if (row && row.user_id !== userId) return null
+
+      const existing = row && row.deleted_at === null ? this.toChat(row) : null
+      const deletedAt = row?.deleted_at ? new Date(row.deleted_at) : null
+
+      const result = resolveChatSave(existing, deletedAt, chat)
+      if (result.status !== 'deleted') {
+        this.writeChat(userId, result.chat)
+      }
+      return result
+    })()
+  }
+
+  async deleteChat(userId: string, chatId: string, deletedAt: Date): Promise<boolean | null> {
+    return this.db.transaction(() => {
+      const row = this.getRow(chatId)
+      if (row && row.user_id !== userId) return null
+      // Изменение новее удаления — чат остаётся
+      if (row && row.deleted_at === null && row.updated_at > deletedAt.getTime()) return false
+
+      this.db.prepare('DELETE FROM messages WHERE chat_id = ?').run(chatId)
+      this.db.prepare(`
+        INSERT INTO chats (id, user_id, title, mode, created_at, updated_at, deleted_at, synced_at)
+        VALUES (@id, @userId, '', 'fast', @deletedAt, @deletedAt, @deletedAt, @syncedAt)
+        ON CONFLICT (id) DO UPDATE SET
+          deleted_at = excluded.deleted_at,
+          synced_at = excluded.synced_at
+      `).run({ id: chatId, userId, deletedAt: deletedAt.getTime(), syncedAt: Date.now() })
+      return true
+    })()
+  }
+
+  async saveMessage(userId: string, chatId: string, message: Message): Promise<Chat | null> {
+    return this.db.transaction(() => {
+      const chat = this.readChat(userId, chatId)
+      if (!chat) return null
+
+      const stored = withParent(chat, message)
+      const exists = chat.messages.some(item => item.id === message.id)
+      const updated: Chat = {
+        ...chat,
+        messages: exists
+          ? chat.messages.map(item => item.id === message.id ? stored : item)
+          : [...chat.messages, stored],
+        activeLeafId: message.id,
+        updatedAt: new Date()
+      }
+      this.writeChat(userId, updated)
+      return updated
+    })()
+  }
+
+  private getRow(chatId: string): ChatRow | undefined {
+    return this.db.prepare('SELECT * FROM chats WHERE id = ?').get(chatId) as ChatRow | undefined
+  }
+
+  private readChat(userId: string, chatId: string): Chat | null {
+    const row = this.getRow(chatId)
+    return row && row.user_id === userId && row.deleted_at === null ? this.toChat(row) : null
+  }
+
+  private toChat(row: ChatRow): Chat {
+    const messages = this.db
+      .prepare('SELECT * FROM messages WHERE chat_id = ? ORDER BY position')
+      .all(row.id) as MessageRow[]
+
+    return {
+      id: row.id,
+      title: row.title,
+      mode: isChatMode(row.mode) ? row.mode : 'fast',
+      persona: isPersona(row.persona) ? row.persona : undefined,
+      style: isResponseStyle(row.style) ? row.style : undefined,
+      language: isLanguage(row.language) ? row.language : undefined,
+      tags: JSON.parse(row.tags),
+      modelPreference: row.model_preference ? JSON.parse(row.model_preference) : undefined,
+      summary: row.summary ? reviveSummary(JSON.parse(row.summary)) : undefined,
+      promptId: row.prompt_id || undefined,
+      activeLeafId: row.active_leaf_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      messages: messages.map(toMessage)
+    }
+  }
+
+  // Записывает чат целиком: строку чата и все сообщения в порядке создания
+  private writeChat(userId: string, chat: Chat) {
+    this.db.prepare(`
+      INSERT INTO chats (id, user_id, title, mode, tags, model_preference, summary, persona, style, language, prompt_id, active_leaf_id, created_at, updated_at, deleted_at, synced_at)
+      VALUES (@id, @userId, @title, @mode, @tags, @modelPreference, @summary, @persona, @style, @language, @promptId, @activeLeafId, @createdAt, @updatedAt, NULL, @syncedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        title = excluded.title,
+        mode = excluded.mode,
+        tags = excluded.tags,
+        model_preference = excluded.model_preference,
+        summary = excluded.summary,
+        persona = excluded.persona,
+        style = excluded.style,
+        language = excluded.language,
+        prompt_id = excluded.prompt_id,
+        active_leaf_id = excluded.active_leaf_id,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        deleted_at = NULL,
+        synced_at = excluded.synced_at
+    `).run({
+      id: chat.id,
+      userId,
+      title: chat.title,
+      mode: chat.mode,
+      tags: JSON.stringify(chat.tags),
+      modelPreference: chat.modelPreference ? JSON.stringify(chat.modelPreference) : null,
+      summary: chat.summary ? JSON.stringify(chat.summary) : null,
+      persona: chat.persona || null,
+      style: chat.style || null,
+      language: chat.language || null,
+      promptId: chat.promptId || null,
+      activeLeafId: chat.activeLeafId || null,
+      createdAt: chat.createdAt.getTime(),
+      updatedAt: chat.updatedAt.getTime(),
+      syncedAt: Date.now()
+    })
+
+    this.db.prepare('DELETE FROM messages WHERE chat_id = ?').run(chat.id)
+    const insert = this.db.prepare(`
+      INSERT INTO messages (chat_id, id, position, parent_id, role, content, timestamp, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    chat.messages.forEach((message, position) => {
+      const { mode, persona, style, language, thinking, thinkingSource, status, model, droppedContext, variants, activeVariant } = message
+      insert.run(
+        chat.id, message.id, position, message.parentId ?? null, message.role, message.content,
+        message.timestamp.getTime(), JSON.stringify({ mode, persona, style, language, thinking, thinkingSource, status, model, droppedContext, variants, activeVariant })
+      )
+    })
+  }
+}
+
+function toUser(row: UserRow): StoredUser {
+  return {
+    id: row.id,
+    provider: row.provider,
+    subject: row.subject,
+    email: row.email,
+    name: row.name || undefined,
+    passwordHash: row.password_hash || undefined,
+    emailVerified: row.email_verified === 1,
+    role: row.role === 'admin' ? 'admin' : undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private db: Database.Database) {}
+
+  async findById(id: string): Promise<StoredUser | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined
+    return row ? toUser(row) : null
+  }
+
+  async findByIdentity(provider: AuthProviderName, subject: string): Promise<StoredUser | null> {
+    const row = this.db
+      .prepare('SELECT * FROM users WHERE provider = ? AND subject = ?')
+      .get(provider, subject) as UserRow | undefined
+    return row ? toUser(row) : null
+  }
+
+  async createUser(user: StoredUser): Promise<StoredUser | null> {
+    const result = this.db.prepare(`
+      INSERT INTO users (id, provider, subject, email, name, password_hash, email_verified, role, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (provider, subject) DO NOTHING
+    `).run(
+      user.id, user.provider, user.subject, user.email, user.name || null, user.passwordHash || null,
+      user.emailVerified ? 1 : 0, user.role || null, user.createdAt.getTime()
+    )
+    return result.changes > 0 ? user : null
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<StoredUser | null> {
+    const user = await this.findById(id)
+    if (!user) return null
+    const updated = { ...user, ...changes }
+    this.db
+      .prepare('UPDATE users SET email = ?, name = ?, email_verified = ? WHERE id = ?')
+      .run(updated.email, updated.name || null, updated.emailVerified ? 1 : 0, id)
+    return updated
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Контракт серверного хранилища чатов и пользователей
+ */
+
+import type { ChatSaveResult } from '../chat-merge'
+import type { Chat, Message } from '../types'
+
+// Удалённый чат: запись остаётся, чтобы другие устройства узнали об удалении
+export interface DeletedChat {
+  id: string
+  deletedAt: Date
+}
+
+// Изменения с момента прошлой синхронизации
+export interface ChatChanges {
+  chats: Chat[]
+  deleted: DeletedChat[]
+  serverTime: Date // Передать в since при следующем запросе
+}
+
+/**
+ * Чаты принадлежат пользователю: чужой чат для остальных не существует
+ */
+export interface ChatRepository {
+  readonly name: string
+
+  /**
+   * Чаты, сохранённые или удалённые на сервере начиная с since (без since — все)
+   */
+  listChanges(userId: string, since?: Date): Promise<ChatChanges>
+  getChat(userId: string, id: string): Promise<Chat | null>
+
+  /**
+   * Сохраняет версию чата; конфликт с сохранённой версией решается по updatedAt.
+   * null — чат с таким id принадлежит другому пользователю
+   */
+  saveChat(userId: string, chat: Chat): Promise<ChatSaveResult | null>
+
+  /**
+   * false — чат изменён позже удаления и остаётся; null — чужой чат
+   */
+  deleteChat(userId: string, id: string, deletedAt: Date): Promise<boolean | null>
+
+  /**
+   * Добавляет (или заменяет) сообщение и делает его концом активной ветки.
+   * null — чата нет
+   */
+  saveMessage(userId: string, chatId: string, message: Message): Promise<Chat | null>
+}
+
+// Способ входа: local — email и пароль, oidc — внешний провайдер
+export type AuthProviderName = 'local' | 'oidc'
+
+export interface StoredUser {
+  id: string
+  provider: AuthProviderName
+  subject: string // Email в нижнем регистре для local, sub из id_token для oidc
+  email: string
+  name?: string
+  passwordHash?: string // Только для local
+  emailVerified?: boolean // email_verified из id_token; у local email не проверяется
+  role?: 'admin' // Назначается явно: pnpm auth:set-role
+  createdAt: Date
+}
+
+// Что обновляется при повторном входе через OIDC
+export type UserChanges = Partial<Pick<StoredUser, 'email' | 'name' | 'emailVerified'>>
+
+export interface UserRepository {
+  findById(id: string): Promise<StoredUser | null>
+  findByIdentity(provider: AuthProviderName, subject: string): Promise<StoredUser | null>
+
+  /**
+   * Создаёт пользователя; null — такая учётная запись уже есть
+   */
+  createUser(user: StoredUser): Promise<StoredUser | null>
+
+  updateUser(id: string, changes: UserChanges): Promise<StoredUser | null>
+}
@@ -1,49 +1,186 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { Chat, ChatStore, Message } from './types'
+import { Chat, ChatMode, ChatStore, ChatSummary, CustomPrompt, Language, Message, MessageVariant, ModelPreference } from './types'
 import { generateId } from './utils'
+import { findLatestLeaf, getActiveLeafId } from './message-tree'
+import { reviveChat } from './chat-merge'
+import { chatSync } from './chat-sync'
+import { parsePromptLibrary, revivePrompt, serializePromptLibrary } from './prompt-library'
+import { DEFAULT_LANGUAGE, getBrowserLanguage, isLanguage, translate } from './i18n'
 
 const STORAGE_KEY = 'komair-chats'
+// Библиотека промптов отдельно от чатов: очистка истории её не трогает
+const PROMPTS_KEY = 'komair-prompts'
+
+function savePromptsToStorage(prompts: CustomPrompt[]) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(PROMPTS_KEY, serializePromptLibrary(prompts))
+  } catch (error) {
+    console.error('Ошибка сохранения промптов в localStorage:', error)
+  }
+}
+
+// Версия ответа из полей сообщения (для первой регенерации)
+function toVariant(message: Message): MessageVariant {
+  return {
+    content: message.content,
+    timestamp: message.timestamp,
+    mode: message.mode,
+    thinking: message.thinking,
+    thinkingSource: message.thinkingSource,
+    status: message.status,
+    model: message.model,
+    droppedContext: message.droppedContext
+  }
+}
+
+// Делает версию активной: поля сообщения повторяют её
+function applyVariant(message: Message, variants: MessageVariant[], index: number): Message {
+  const variant = variants[index]
+  return {
+    ...message,
+    content: variant.content,
+    timestamp: variant.timestamp,
+    mode: variant.mode,
+    thinking: variant.thinking,
+    thinkingSource: variant.thinkingSource,
+    status: variant.status,
+    model: variant.model,
+    droppedContext: variant.droppedContext,
+    variants,
+    activeVariant: index
+  }
+}
+
+// Обновляет одно сообщение чата
+function updateMessage(chats: Chat[], chatId: string, messageId: string, update: (message: Message) => Message): Chat[] {
+  return chats.map((chat) =>
+    chat.id === chatId
+      ? {
+          ...chat,
+          messages: chat.messages.map((message) => message.id === messageId ? update(message) : message),
+          updatedAt: new Date()
+        }
+      : chat
+  )
+}
 
 export const useChatStore = create<ChatStore>()(
   persist(
     (set, get) => ({
       chats: [],
       currentChatId: null,
+      prompts: [],
       searchQuery: '',
       theme: 'system',
+      language: DEFAULT_LANGUAGE,
       isLoading: false,
       error: null,
 
-      addMessage: (chatId: string, messageData: Omit<Message, 'id' | 'timestamp'>) => {
+      addMessage: (chatId: string, messageData: Omit<Message, 'id' | 'timestamp' | 'parentId'>) => {
+        set((state) => ({
+          chats: state.chats.map((chat) => {
+            if (chat.id !== chatId) return chat
+
+            // Сообщение продолжает активную ветку
+            const message: Message = {
+              ...messageData,
+              id: generateId(),
+              timestamp: new Date(),
+              parentId: getActiveLeafId(chat)
+            }
+            // Режим, роль, тон и язык ответа чата — как у последнего вопроса
+            const settings = message.role === 'user'
+              ? { mode: message.mode || chat.mode, persona: message.persona, style: message.style, language: message.language }
+              : {}
+            return {
+              ...chat,
+              ...settings,
+              messages: [...chat.messages, message],
+              activeLeafId: message.id,
+              updatedAt: new Date()
+            }
+          })
+        }))
+        
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      editMessage: (chatId: string, messageId: string, content: string) => {
+        const chat = get().chats.find(c => c.id === chatId)
+        const original = chat?.messages.find(m => m.id === messageId)
+        if (!chat || !original) return null
+
+        // Правка создаёт соседнюю ветку, исходная остаётся в дереве
         const message: Message = {
-          ...messageData,
+          ...original,
           id: generateId(),
-          timestamp: new Date()
+          content,
+          timestamp: new Date(),
+          variants: undefined,
+          activeVariant: undefined
         }
 
+        set((state) => ({
+          chats: state.chats.map((c) =>
+            c.id === chatId
+              ? { ...c, messages: [...c.messages, message], activeLeafId: message.id, updatedAt: new Date() }
+              : c
+          )
+        }))
+        
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+        return message.id
+      },
+
+      switchBranch: (chatId: string, messageId: string) => {
         set((state) => ({
           chats: state.chats.map((chat) =>
             chat.id === chatId
-              ? {
-                  ...chat,
-                  messages: [...chat.messages, message],
-                  updatedAt: new Date()
-                }
+              ? { ...chat, activeLeafId: findLatestLeaf(chat, messageId) }
               : chat
           )
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      addMessageVariant: (chatId: string, messageId: string, variantData: Omit<MessageVariant, 'timestamp'>) => {
+        const variant: MessageVariant = { ...variantData, timestamp: new Date() }
+
+        set((state) => ({
+          chats: updateMessage(state.chats, chatId, messageId, (message) => {
+            const variants = [...(message.variants || [toVariant(message)]), variant]
+            return applyVariant(message, variants, variants.length - 1)
+          })
+        }))
+        
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      setActiveVariant: (chatId: string, messageId: string, index: number) => {
+        set((state) => ({
+          chats: updateMessage(state.chats, chatId, messageId, (message) =>
+            message.variants?.[index] ? applyVariant(message, message.variants, index) : message
+          )
+        }))
+        
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
       },
 
-      createChat: (title?: string, mode: 'fast' | 'deep' = 'fast') => {
+      createChat: (title?: string, mode: ChatMode = 'fast') => {
         const chatId = generateId()
         const now = new Date()
         
         const newChat: Chat = {
           id: chatId,
-          title: title || `Новый чат ${get().chats.length + 1}`,
+          title: title || `${translate(get().language, 'chatList.newChat')} ${get().chats.length + 1}`,
           messages: [],
           createdAt: now,
           updatedAt: now,
@@ -57,6 +194,7 @@ export const useChatStore = create<ChatStore>()(
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
         return chatId
       },
 
@@ -67,6 +205,7 @@ export const useChatStore = create<ChatStore>()(
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDeleted(chatId)
       },
 
       setCurrentChat: (chatId: string | null) => {
@@ -83,6 +222,7 @@ export const useChatStore = create<ChatStore>()(
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
       },
 
       addChatTag: (chatId: string, tag: string) => {
@@ -95,6 +235,7 @@ export const useChatStore = create<ChatStore>()(
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
       },
 
       removeChatTag: (chatId: string, tag: string) => {
@@ -107,6 +248,97 @@ export const useChatStore = create<ChatStore>()(
         }))
         
         get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      setChatModelPreference: (chatId: string, preference: ModelPreference | null) => {
+        set((state) => ({
+          chats: state.chats.map((chat) =>
+            chat.id === chatId
+              ? { ...chat, modelPreference: preference || undefined, updatedAt: new Date() }
+              : chat
+          )
+        }))
+        
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      setChatSummary: (chatId: string, summary: ChatSummary | null) => {
+        set((state) => ({
+          chats: state.chats.map((chat) =>
+            chat.id === chatId
+              ? { ...chat, summary: summary || undefined, updatedAt: new Date() }
+              : chat
+          )
+        }))
+
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      setChatPrompt: (chatId: string, promptId: string | null) => {
+        const prompt = promptId ? get().prompts.find(p => p.id === promptId) : undefined
+
+        set((state) => ({
+          chats: state.chats.map((chat) =>
+            chat.id === chatId
+              ? { ...chat, promptId: prompt?.id, mode: prompt?.mode || chat.mode, updatedAt: new Date() }
+              : chat
+          )
+        }))
+
+        get().saveChatsToStorage()
+        chatSync.markDirty(chatId)
+      },
+
+      savePrompt: (data) => {
+        const now = new Date()
+        const existing = data.id ? get().prompts.find(p => p.id === data.id) : undefined
+        const prompt: CustomPrompt = {
+          id: existing?.id || generateId(),
+          name: data.name.trim(),
+          content: data.content.trim(),
+          mode: data.mode,
+          temperature: data.temperature,
+          createdAt: existing?.createdAt || now,
+          updatedAt: now
+        }
+
+        set((state) => ({
+          prompts: existing
+            ? state.prompts.map(p => p.id === prompt.id ? prompt : p)
+            : [...state.prompts, prompt]
+        }))
+
+        savePromptsToStorage(get().prompts)
+        return prompt.id
+      },
+
+      deletePrompt: (promptId: string) => {
+        set((state) => ({ prompts: state.prompts.filter(p => p.id !== promptId) }))
+        savePromptsToStorage(get().prompts)
+      },
+
+      exportPrompts: () => serializePromptLibrary(get().prompts),
+
+      importPrompts: (json: string) => {
+        const imported = parsePromptLibrary(json)
+        const importedById = new Map(imported.map(prompt => [prompt.id, prompt]))
+
+        // Промпт с тем же id заменяется импортированным, остальные добавляются
+        set((state) => {
+          const known = new Set(state.prompts.map(p => p.id))
+          return {
+            prompts: [
+              ...state.prompts.map(p => importedById.get(p.id) || p),
+              ...imported.filter(p => !known.has(p.id))
+            ]
+          }
+        })
+
+        savePromptsToStorage(get().prompts)
+        return imported.length
       },
 
       setSearchQuery: (query: string) => {
@@ -133,6 +365,25 @@ export const useChatStore = create<ChatStore>()(
         }
       },
 
+      setLanguage: (language: Language) => {
+        set({ language })
+
+        if (typeof window !== 'undefined') {
+          window.document.documentElement.lang = language
+          localStorage.setItem('komair-language', language)
+        }
+      },
+
+      loadLanguage: () => {
+        if (typeof window === 'undefined') return
+
+        const savedLanguage = localStorage.getItem('komair-language')
+        const language = isLanguage(savedLanguage) ? savedLanguage : getBrowserLanguage()
+        if (language) {
+          get().setLanguage(language)
+        }
+      },
+
       setLoading: (loading: boolean) => {
         set({ isLoading: loading })
       },
@@ -142,6 +393,19 @@ export const useChatStore = create<ChatStore>()(
       },
 
       clearHistory: () => {
+        get().chats.forEach(chat => chatSync.markDeleted(chat.id))
+        set({
+          chats: [],
+          currentChatId: null,
+          searchQuery: ''
+        })
+        
+        if (typeof window !== 'undefined') {
+          localStorage.removeItem(STORAGE_KEY)
+        }
+      },
+
+      resetLocalHistory: () => {
         set({
           chats: [],
           currentChatId: null,
@@ -157,15 +421,35 @@ export const useChatStore = create<ChatStore>()(
         const chat = get().chats.find(c => c.id === chatId)
         if (!chat) return ''
         
+        // Экспортируем всё дерево: ветки восстанавливаются по parentId
         const exportData = {
           title: chat.title,
           createdAt: chat.createdAt,
+          mode: chat.mode,
+          persona: chat.persona,
+          style: chat.style,
+          language: chat.language,
+          modelPreference: chat.modelPreference,
+          summary: chat.summary,
+          promptId: chat.promptId,
+          activeLeafId: getActiveLeafId(chat),
           messages: chat.messages.map(m => ({
+            id: m.id,
+            parentId: m.parentId ?? null,
             role: m.role,
             content: m.content,
             timestamp: m.timestamp,
             mode: m.mode,
-            thinking: m.thinking
+            persona: m.persona,
+            style: m.style,
+            language: m.language,
+            thinking: m.thinking,
+            thinkingSource: m.thinkingSource,
+            status: m.status,
+            model: m.model,
+            droppedContext: m.droppedContext,
+            variants: m.variants,
+            activeVariant: m.activeVariant
           }))
         }
         
@@ -196,31 +480,24 @@ export const useChatStore = create<ChatStore>()(
           if (savedTheme) {
             get().setTheme(savedTheme)
           }
+
+          get().loadLanguage()
           
+          const storedPrompts = localStorage.getItem(PROMPTS_KEY)
+          if (storedPrompts) {
+            const prompts = (JSON.parse(storedPrompts).prompts || [])
+              .map(revivePrompt)
+              .filter((prompt: CustomPrompt | null): prompt is CustomPrompt => prompt !== null)
+            set({ prompts })
+          }
+
           // Загружаем чаты
           const stored = localStorage.getItem(STORAGE_KEY)
           if (stored) {
             const parsed = JSON.parse(stored)
             
             // Конвертируем строки дат обратно в Date объекты
-            const chats = parsed.chats?.map((chat: any) => {
-              // Обеспечиваем безопасность конвертации дат
-              const createdAt = chat.createdAt ? new Date(chat.createdAt) : new Date()
-              const updatedAt = chat.updatedAt ? new Date(chat.updatedAt) : new Date()
-              
-              return {
-                ...chat,
-                createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
-                updatedAt: isNaN(updatedAt.getTime()) ? new Date() : updatedAt,
-                messages: chat.messages?.map((message: any) => {
-                  const timestamp = message.timestamp ? new Date(message.timestamp) : new Date()
-                  return {
-                    ...message,
-                    timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp
-                  }
-                }) || []
-              }
-            }) || []
+            const chats = parsed.chats?.map(reviveChat) || []
             
             set({ 
               chats,
@@ -231,6 +508,34 @@ export const useChatStore = create<ChatStore>()(
           console.error('Ошибка загрузки чатов из localStorage:', error)
           set({ error: 'Ошибка загрузки истории чатов' })
         }
+
+        // Синхронизация с сервером: localStorage остаётся основным источником
+        chatSync.start({
+          getChats: () => get().chats,
+          applyRemote: get().applyRemoteChanges
+        })
+      },
+
+      applyRemoteChanges: (remoteChats: Chat[], deletedIds: string[]) => {
+        set((state) => {
+          const remoteById = new Map(remoteChats.map(chat => [chat.id, chat]))
+          const known = new Set(state.chats.map(chat => chat.id))
+
+          // Новые чаты с других устройств — в начало списка
+          const added = remoteChats.filter(chat => !known.has(chat.id))
+          const chats = [...added, ...state.chats]
+            .map(chat => remoteById.get(chat.id) || chat)
+            .filter(chat => !deletedIds.includes(chat.id))
+
+          return {
+            chats,
+            currentChatId: state.currentChatId && deletedIds.includes(state.currentChatId)
+              ? null
+              : state.currentChatId
+          }
+        })
+        
+        get().saveChatsToStorage()
       },
 
       saveChatsToStorage: () => {
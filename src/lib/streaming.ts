@@ -0,0 +1,136 @@
+/**
+ * Утилиты потоковой передачи ответов (NDJSON между сервером и клиентом)
+ */
+
+import type { ChatResponse } from './providers'
+
+/**
+ * Событие потока ответа /api/chat
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; error: string }
+
+export const STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+const encoder = new TextEncoder()
+
+/**
+ * Кодирует событие в строку NDJSON
+ */
+export function encodeStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(JSON.stringify(event) + '\n')
+}
+
+/**
+ * Построчно читает тело ответа и вызывает onLine для каждой непустой строки
+ */
+export async function readLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (trimmed) onLine(trimmed)
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) onLine(buffer.trim())
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Читает поток в формате OpenAI (SSE, /v1/chat/completions с stream: true).
+ * Рассуждения из reasoning_content/reasoning (DeepSeek, Groq, vLLM) уходят в onReasoning.
+ * Возвращает полный текст ответа.
+ */
+export async function readOpenAIStream(
+  response: Response,
+  onToken: (token: string) => void,
+  onReasoning?: (text: string) => void
+): Promise<string> {
+  if (!response.body) {
+    throw new Error('Пустое тело потокового ответа')
+  }
+
+  let content = ''
+  await readLines(response.body, (line) => {
+    if (!line.startsWith('data:')) return
+
+    const data = line.slice(5).trim()
+    if (data === '[DONE]') return
+
+    try {
+      const chunk = JSON.parse(data)
+      const delta = chunk.choices?.[0]?.delta
+      const reasoning: string | undefined = delta?.reasoning_content || delta?.reasoning
+      if (reasoning) {
+        onReasoning?.(reasoning)
+      }
+      const token: string | undefined = delta?.content
+      if (token) {
+        content += token
+        onToken(token)
+      }
+    } catch {
+      // Пропускаем повреждённые фрагменты
+    }
+  })
+
+  return content
+}
+
+/**
+ * Читает поток Ollama (/api/chat с stream: true, NDJSON).
+ * Рассуждения моделей с поддержкой thinking уходят в onReasoning.
+ * Возвращает полный текст ответа.
+ */
+export async function readOllamaStream(
+  response: Response,
+  onToken: (token: string) => void,
+  onReasoning?: (text: string) => void
+): Promise<string> {
+  if (!response.body) {
+    throw new Error('Пустое тело потокового ответа')
+  }
+
+  let content = ''
+  await readLines(response.body, (line) => {
+    try {
+      const chunk = JSON.parse(line)
+      if (chunk.error) {
+        throw new Error(`Ollama: ${chunk.error}`)
+      }
+      if (chunk.message?.thinking) {
+        onReasoning?.(chunk.message.thinking)
+      }
+      const token: string | undefined = chunk.message?.content
+      if (token) {
+        content += token
+        onToken(token)
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError) return
+      throw error
+    }
+  })
+
+  return content
+}
@@ -0,0 +1,204 @@
+/**
+ * Скользящее краткое содержание длинных чатов. Когда история после прошлого
+ * краткого содержания превышает порог, старые сообщения сжимаются быстрой моделью,
+ * а в запрос уходят краткое содержание и только свежие сообщения
+ */
+
+import { MAX_SUMMARY_LENGTH } from './chat-merge'
+import { safeLogger } from './logger'
+import { providerManager } from './provider-manager'
+import type { ChatHistory } from './providers'
+import { SUMMARY_PROMPTS } from './prompts'
+import { countMessageTokens } from './tokenizer'
+import type { Language } from './types'
+import { chatWithAccounting, type UsageAccounting } from './usage'
+import { isRecord } from './utils'
+
+// Сообщение истории из запроса; id нужен, чтобы отметить границу краткого содержания
+export type SummaryHistory = Array<ChatHistory[number] & { id?: string }>
+
+/**
+ * Проверяет историю из тела запроса: сообщения пользователя и ассистента с текстом
+ */
+export function isHistoryPayload(raw: unknown): raw is SummaryHistory {
+  return Array.isArray(raw) && raw.every(isHistoryItem)
+}
+
+function isHistoryItem(raw: unknown): boolean {
+  return isRecord(raw) &&
+    (raw.role === 'user' || raw.role === 'assistant') &&
+    typeof raw.content === 'string' &&
+    (raw.id === undefined || typeof raw.id === 'string')
+}
+
+// Новое краткое содержание для сохранения в чате
+export interface SummaryUpdate {
+  content: string
+  coveredMessageId: string // Последнее сообщение, вошедшее в краткое содержание
+}
+
+export interface CondensedHistory {
+  history: SummaryHistory // Сообщения, которые идут в запрос как есть
+  summary?: string
+  update?: SummaryUpdate // Есть, если краткое содержание обновлено
+}
+
+// Подписи в тексте переписки для модели — на языке краткого содержания
+const TRANSCRIPT_LABELS: Record<Language, { user: string, assistant: string, previous: string, updates: string, transcript: string }> = {
+  ru: {
+    user: 'Пользователь',
+    assistant: 'Ассистент',
+    previous: 'Прежнее краткое содержание',
+    updates: 'Новые сообщения',
+    transcript: 'Переписка'
+  },
+  en: {
+    user: 'User',
+    assistant: 'Assistant',
+    previous: 'Previous summary',
+    updates: 'New messages',
+    transcript: 'Conversation'
+  }
+}
+
+interface SummaryConfig {
+  triggerTokens: number // Порог истории, после которого начинается сжатие; 0 — выключено
+  keepTokens: number // Сколько свежей истории оставлять без сжатия
+  maxSourceTokens: number // Сколько текста отдавать модели за одно сжатие
+}
+
+function getSummaryConfig(): SummaryConfig {
+  const number = (name: string, fallback: number) => {
+    const value = Number(process.env[name])
+    return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback
+  }
+
+  return {
+    triggerTokens: number('SUMMARY_TRIGGER_TOKENS', 3000),
+    keepTokens: number('SUMMARY_KEEP_TOKENS', 1000),
+    maxSourceTokens: number('SUMMARY_MAX_SOURCE_TOKENS', 6000)
+  }
+}
+
+/**
+ * Граница сжатия: свежие сообщения в пределах keepTokens остаются,
+ * свежая часть начинается с вопроса пользователя
+ */
+function findSplitIndex(tokens: number[], history: SummaryHistory, keepTokens: number): number {
+  let split = history.length
+  let kept = 0
+  while (split > 0 && kept + tokens[split - 1] <= keepTokens) {
+    split--
+    kept += tokens[split]
+  }
+  while (split < history.length && history[split].role === 'assistant') {
+    split++
+  }
+  return split
+}
+
+/**
+ * Текст переписки для сжатия; самые старые сообщения отбрасываются, если не помещаются
+ */
+function formatTranscript(messages: SummaryHistory, tokens: number[], maxTokens: number, language: Language): string {
+  const labels = TRANSCRIPT_LABELS[language]
+  const lines: string[] = []
+  let total = 0
+  for (let i = messages.length - 1; i >= 0 && total + tokens[i] <= maxTokens; i--) {
+    lines.unshift(`${messages[i].role === 'user' ? labels.user : labels.assistant}: ${messages[i].content}`)
+    total += tokens[i]
+  }
+  return lines.join('\n\n')
+}
+
+/**
+ * Запрашивает краткое содержание у первой доступной модели с системным промптом;
+ * null — ни одна не ответила или лимит пользователя исчерпан
+ */
+async function requestSummary(
+  source: string,
+  language: Language,
+  accounting?: UsageAccounting,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const tried: string[] = []
+  let providerName = providerManager.getFallbackProvider(tried)
+
+  while (providerName) {
+    tried.push(providerName)
+    const adapter = providerManager.getProvider(providerName)
+
+    // Без системного промпта модель ответит на переписку, а не сожмёт её.
+    // В half-open место пробного запроса может быть занято — тогда следующий провайдер
+    const release = adapter?.capabilities.systemPrompt ? providerManager.acquireRequest(providerName) : null
+    if (adapter && release) {
+      try {
+        const response = await chatWithAccounting(adapter, {
+          message: source,
+          mode: 'fast',
+          chatHistory: [],
+          systemPrompt: SUMMARY_PROMPTS[language],
+          signal
+        }, accounting)
+        if (!response) {
+          safeLogger.warn('📝 Лимит запросов исчерпан, краткое содержание не обновлено')
+          return null
+        }
+        if (response.content.trim()) {
+          safeLogger.info(`📝 Краткое содержание обновлено (${providerName})`)
+          // Длиннее лимита его не примет /api/chat в следующем запросе
+          return response.content.trim().slice(0, MAX_SUMMARY_LENGTH)
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error
+        safeLogger.warn(`📝 ${providerName} не смог составить краткое содержание:`, error instanceof Error ? error.message : error)
+      } finally {
+        release()
+      }
+    }
+
+    providerName = providerManager.getFallbackProvider(tried)
+  }
+  return null
+}
+
+/**
+ * Сжимает старую часть истории, если она превысила порог; краткое содержание — на языке ответа.
+ * Запрос к модели учитывается в лимитах пользователя (accounting).
+ * При ошибке история возвращается как есть — её подрежет сборщик контекста
+ */
+export async function condenseHistory(
+  history: SummaryHistory,
+  summary: string | undefined,
+  language: Language,
+  accounting?: UsageAccounting,
+  signal?: AbortSignal
+): Promise<CondensedHistory> {
+  const config = getSummaryConfig()
+  const unchanged = { history, summary }
+  if (!config.triggerTokens) return unchanged
+
+  const tokens = history.map(item => countMessageTokens(item.content))
+  const total = tokens.reduce((sum, count) => sum + count, 0)
+  if (total <= config.triggerTokens) return unchanged
+
+  const split = findSplitIndex(tokens, history, config.keepTokens)
+  const older = history.slice(0, split)
+  const coveredMessageId = older[older.length - 1]?.id
+  if (!coveredMessageId) return unchanged
+
+  const labels = TRANSCRIPT_LABELS[language]
+  const transcript = formatTranscript(older, tokens.slice(0, split), config.maxSourceTokens, language)
+  const source = summary
+    ? `${labels.previous}:\n${summary}\n\n${labels.updates}:\n${transcript}`
+    : `${labels.transcript}:\n${transcript}`
+
+  const content = await requestSummary(source, language, accounting, signal)
+  if (!content) return unchanged
+
+  return {
+    history: history.slice(split),
+    summary: content,
+    update: { content, coveredMessageId }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Подсчёт токенов текста для бюджета контекста и квот.
+ * Точный словарь у каждого семейства моделей свой: для моделей OpenAI с o200k
+ * используется он, для остальных — cl100k. На русском тексте cl100k даёт
+ * больше токенов, чем словари Llama 3, Qwen и Mistral, поэтому оценка идёт с запасом
+ */
+
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base'
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base'
+
+// Служебные токены роли и разделителей сообщения в шаблоне чата
+export const MESSAGE_OVERHEAD = 4
+
+const O200K_MODEL = /gpt-4o|gpt-4\.1|gpt-5|(^|\/)o[134](-|$)/i
+
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0
+  return model && O200K_MODEL.test(model) ? countO200k(text) : countCl100k(text)
+}
+
+/**
+ * Токены сообщения чата вместе со служебной разметкой
+ */
+export function countMessageTokens(content: string, model?: string): number {
+  return countTokens(content, model) + MESSAGE_OVERHEAD
+}
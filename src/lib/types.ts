@@ -1,61 +1,152 @@
+// Режим ответа: creative отвечает качественной моделью с более высокой температурой
+export type ChatMode = 'fast' | 'deep' | 'creative'
+
+// Специализация ассистента (SPECIALIZED_PROMPTS); не задана — универсальный ассистент
+export type Persona = 'technical' | 'educational' | 'creative' | 'analytical'
+
+// Тон ответов (CULTURAL_CONTEXT)
+export type ResponseStyle = 'casual' | 'formal'
+
+// Язык интерфейса и ответов модели
+export type Language = 'ru' | 'en'
+
 export interface Message {
   id: string
   content: string
   role: 'user' | 'assistant' | 'system'
   timestamp: Date
-  mode?: 'fast' | 'deep'
-  thinking?: string // Для режима глубокого анализа
+  parentId?: string | null // Предыдущее сообщение ветки; null — начало диалога
+  mode?: ChatMode
+  persona?: Persona // У вопросов — с какой ролью и тоном спрашивали
+  style?: ResponseStyle
+  language?: Language // Язык ответа, выбранный для вопроса; не задан — язык вопроса
+  thinking?: string // Рассуждения модели или план ответа
+  thinkingSource?: 'model' | 'plan' // Без источника — старый шаблонный текст, не показывается
   isLoading?: boolean
+  status?: 'partial' | 'cancelled' // Генерация остановлена: с частью ответа или до первого фрагмента
+  model?: string // Модель, которая дала ответ
+  droppedContext?: number // Старые сообщения истории, не поместившиеся в контекст модели
+  variants?: MessageVariant[] // Все версии ответа после «Повторить»; поля сообщения повторяют активную
+  activeVariant?: number
+}
+
+// Версия ответа ассистента
+export interface MessageVariant {
+  content: string
+  timestamp: Date
+  mode?: ChatMode
+  thinking?: string
+  thinkingSource?: 'model' | 'plan'
+  status?: 'partial' | 'cancelled'
+  model?: string
+  droppedContext?: number
+}
+
+// Выбранные для чата провайдер и модель
+export interface ModelPreference {
+  provider: string
+  model?: string // Без модели — модель провайдера для текущего режима
+}
+
+// Краткое содержание начала длинного чата: заменяет в запросах сообщения до coveredMessageId
+export interface ChatSummary {
+  content: string
+  coveredMessageId: string
+  updatedAt: Date
+  edited?: boolean // Изменено пользователем вручную
+}
+
+// Пользовательский системный промпт из библиотеки; хранится в браузере
+export interface CustomPrompt {
+  id: string
+  name: string
+  content: string // Заменяет встроенный системный промпт режима
+  mode: ChatMode // Режим по умолчанию для чата с этим промптом
+  temperature?: number // Не задана — температура режима
+  createdAt: Date
+  updatedAt: Date
 }
 
 export interface Chat {
   id: string
   title: string
-  messages: Message[]
+  messages: Message[] // Все сообщения всех веток (дерево по parentId)
+  activeLeafId?: string // Последнее сообщение активной ветки
   createdAt: Date
   updatedAt: Date
   tags: string[]
-  mode: 'fast' | 'deep'
+  mode: ChatMode // Режим, роль, тон и язык ответа последнего вопроса
+  persona?: Persona
+  style?: ResponseStyle
+  language?: Language
+  modelPreference?: ModelPreference // Не задано — сервер выбирает провайдер сам
+  summary?: ChatSummary
+  promptId?: string // Промпт из библиотеки (CustomPrompt)
+}
+
+// Пользователь без секретов — то, что видит клиент
+export interface User {
+  id: string
+  email: string
+  name?: string
+  role: 'user' | 'admin'
 }
 
 export interface ChatStore {
   chats: Chat[]
   currentChatId: string | null
+  prompts: CustomPrompt[]
   searchQuery: string
   theme: 'light' | 'dark' | 'system'
+  language: Language // Язык интерфейса; ответ на вопрос, язык которого не определился
   isLoading: boolean
   error: string | null
   
   // Actions
-  addMessage: (chatId: string, message: Omit<Message, 'id' | 'timestamp'>) => void
-  createChat: (title?: string, mode?: 'fast' | 'deep') => string
+  addMessage: (chatId: string, message: Omit<Message, 'id' | 'timestamp' | 'parentId'>) => void
+  editMessage: (chatId: string, messageId: string, content: string) => string | null
+  switchBranch: (chatId: string, messageId: string) => void
+  addMessageVariant: (chatId: string, messageId: string, variant: Omit<MessageVariant, 'timestamp'>) => void
+  setActiveVariant: (chatId: string, messageId: string, index: number) => void
+  createChat: (title?: string, mode?: ChatMode) => string
   deleteChat: (chatId: string) => void
   setCurrentChat: (chatId: string | null) => void
   updateChatTitle: (chatId: string, title: string) => void
   addChatTag: (chatId: string, tag: string) => void
   removeChatTag: (chatId: string, tag: string) => void
+  setChatModelPreference: (chatId: string, preference: ModelPreference | null) => void
+  setChatSummary: (chatId: string, summary: ChatSummary | null) => void
+  setChatPrompt: (chatId: string, promptId: string | null) => void // Подключает промпт и его режим
+  savePrompt: (prompt: Pick<CustomPrompt, 'name' | 'content' | 'mode' | 'temperature'> & { id?: string }) => string
+  deletePrompt: (promptId: string) => void
+  exportPrompts: () => string
+  importPrompts: (json: string) => number // Число добавленных и обновлённых промптов; ошибка формата — исключение
   setSearchQuery: (query: string) => void
   setTheme: (theme: 'light' | 'dark' | 'system') => void
+  setLanguage: (language: Language) => void
+  loadLanguage: () => void // Выбранный раньше язык или язык браузера
   setLoading: (loading: boolean) => void
   setError: (error: string | null) => void
   clearHistory: () => void
+  resetLocalHistory: () => void // Только браузер: при выходе, без удаления на сервере
   exportChat: (chatId: string) => string
   getFilteredChats: () => Chat[]
   loadChatsFromStorage: () => void
   saveChatsToStorage: () => void
+  applyRemoteChanges: (chats: Chat[], deletedIds: string[]) => void // Изменения с сервера, без повторной отправки
 }
 
 export interface AIResponse {
   content: string
   thinking?: string
-  mode: 'fast' | 'deep'
+  mode: ChatMode
   processingTime?: number
 }
 
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system'
-  language: 'ru' | 'en'
-  defaultMode: 'fast' | 'deep'
+  language: Language
+  defaultMode: ChatMode
   ageVerified: boolean
   showThinking: boolean
 }
\ No newline at end of file
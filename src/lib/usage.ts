@@ -0,0 +1,51 @@
+/**
+ * Служебные запросы к модели (краткое содержание, план ответа) расходуют те же лимиты,
+ * что и ответ: ведро клиента и суточную квоту пользователя, а их токены и длительность
+ * попадают в квоту и метрики
+ */
+
+import { recordProviderRequest, recordTokens } from './metrics'
+import type { ChatResponse, ProviderAdapter, ProviderChatRequest } from './providers'
+import { getModelTier } from './providers/utils'
+import { countTokens } from './tokenizer'
+import type { ChatMode } from './types'
+import { isAbortError } from './utils'
+
+// Лимиты пользователя, от имени которого идёт запрос; задаёт маршрут чата
+export interface UsageAccounting {
+  reserve(mode: ChatMode): Promise<boolean> // false — лимит исчерпан, запрос не выполняется
+  addTokens(tokens: number): Promise<void> // Расход токенов в суточную квоту
+}
+
+/**
+ * Служебный запрос к модели с учётом в лимитах и метриках.
+ * null — лимит пользователя исчерпан, запрос не отправлялся
+ */
+export async function chatWithAccounting(
+  adapter: ProviderAdapter,
+  request: ProviderChatRequest,
+  accounting?: UsageAccounting
+): Promise<ChatResponse | null> {
+  if (accounting && !await accounting.reserve(request.mode)) return null
+
+  const tier = getModelTier(request.mode)
+  const model = request.model || adapter.models.find(item => item.mode === tier)?.id || ''
+  const start = Date.now()
+  let response: ChatResponse
+  try {
+    response = await adapter.chat(request)
+  } catch (error) {
+    const status = request.signal?.aborted || isAbortError(error) ? 'cancelled' : 'error'
+    recordProviderRequest(adapter.name, model, request.mode, status, (Date.now() - start) / 1000)
+    throw error
+  }
+  recordProviderRequest(adapter.name, model, request.mode, 'success', (Date.now() - start) / 1000)
+
+  const promptTokens = response.context?.promptTokens ??
+    [request.systemPrompt || '', request.message, ...request.chatHistory.map(item => item.content)]
+      .reduce((total, text) => total + countTokens(text), 0)
+  const completionTokens = countTokens(response.content) + countTokens(response.thinking || '')
+  recordTokens(adapter.name, request.mode, promptTokens, completionTokens)
+  await accounting?.addTokens(promptTokens + completionTokens)
+  return response
+}
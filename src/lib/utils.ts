@@ -2,7 +2,7 @@ export function cn(...classes: (string | boolean | undefined)[]) {
   return classes.filter(Boolean).join(' ')
 }
 
-export function formatDate(date: Date | string): string {
+export function formatDate(date: Date | string, locale: string = 'ru-RU'): string {
   const dateObj = date instanceof Date ? date : new Date(date)
   
   // Проверяем валидность даты
@@ -10,7 +10,7 @@ export function formatDate(date: Date | string): string {
     return 'Некорректная дата'
   }
   
-  return dateObj.toLocaleDateString('ru-RU', {
+  return dateObj.toLocaleDateString(locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -24,6 +24,35 @@ export function generateId(): string {
          Math.random().toString(36).substring(2, 15)
 }
 
+// Объект из JSON с полями, которые ещё предстоит проверить
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Запрос отменён через AbortController (не путать с таймаутом — у него имя TimeoutError)
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError'
+}
+
+// Пауза, которая прерывается отменой запроса
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
 // Функция для безопасной очистки localStorage при критических ошибках
 export function clearStorageData(): void {
   if (typeof window === 'undefined') return